@@ -3,11 +3,48 @@ using System.Text;
 namespace DeepDrftContent.Services.Audio;
 
 /// <summary>
-/// Service for creating WAV audio streams starting from a byte offset.
-/// Synthesizes a valid WAV header for the remaining audio data.
+/// Service for creating audio streams starting from a byte offset.
+/// Synthesizes a valid WAV header for the remaining audio data of WAV files; other formats
+/// (FLAC, Ogg Opus, MP3) are cut at a file position, since their frames carry their own sync.
 /// </summary>
 public class WavOffsetService
 {
+    private const int WaveFormatPcm = 1;
+    private const int WaveFormatIeeeFloat = 3;
+    private const int WaveFormatExtensible = 0xFFFE;
+
+    // RF64/BW64 mark 32-bit sizes that live in the ds64 chunk instead
+    private const uint Rf64SizePlaceholder = 0xFFFFFFFF;
+
+    // KSDATAFORMAT_SUBTYPE_* GUIDs share this tail after the 2-byte format code
+    private static readonly byte[] SubFormatGuidTail =
+        [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+    /// <summary>
+    /// Whether the buffer holds a RIFF/WAVE file (or its RF64/BW64 variant), whose offsets point into the audio data.
+    /// </summary>
+    public bool IsWav(byte[] buffer)
+    {
+        return buffer.Length >= 12
+            && IsRiffId(Encoding.ASCII.GetString(buffer, 0, 4))
+            && Encoding.ASCII.GetString(buffer, 8, 4) == "WAVE";
+    }
+
+    /// <summary>
+    /// Creates a stream of the file bytes from a file position, for formats the client resyncs
+    /// on frame headers. The client keeps the stream headers it parsed from the start of the file.
+    /// </summary>
+    /// <param name="fullAudioBuffer">The complete audio file buffer</param>
+    /// <param name="byteOffset">Byte offset into the file</param>
+    /// <returns>Read-only MemoryStream over the bytes from the offset, or null if out of range</returns>
+    public MemoryStream? CreateRawOffsetStream(byte[] fullAudioBuffer, long byteOffset)
+    {
+        if (byteOffset < 0 || byteOffset >= fullAudioBuffer.Length)
+            return null;
+
+        return new MemoryStream(fullAudioBuffer, (int)byteOffset, fullAudioBuffer.Length - (int)byteOffset, writable: false);
+    }
+
     /// <summary>
     /// Creates a stream containing a synthesized WAV header followed by audio data from the specified offset.
     /// </summary>
@@ -39,8 +76,8 @@ public class WavOffsetService
         var sourcePosition = format.HeaderSize + alignedOffset;
 
         // Create result stream: new header + audio data from offset
-        var resultStream = new MemoryStream(44 + newDataSize);
-        resultStream.Write(newHeader, 0, 44);
+        var resultStream = new MemoryStream(newHeader.Length + newDataSize);
+        resultStream.Write(newHeader, 0, newHeader.Length);
         resultStream.Write(fullAudioBuffer, (int)sourcePosition, newDataSize);
         resultStream.Position = 0;
 
@@ -49,15 +86,16 @@ public class WavOffsetService
 
     /// <summary>
     /// Parses the WAV header from a buffer to extract format information.
+    /// Accepts RF64/BW64 (sizes from the ds64 chunk) and WAVE_FORMAT_EXTENSIBLE with a PCM or float SubFormat.
     /// </summary>
     public WavFormat? ParseWavHeader(byte[] buffer)
     {
         if (buffer.Length < 44)
             return null;
 
-        // Check RIFF header
+        // Check RIFF header (RF64/BW64 for files over 4GB)
         var riff = Encoding.ASCII.GetString(buffer, 0, 4);
-        if (riff != "RIFF")
+        if (!IsRiffId(riff))
             return null;
 
         var wave = Encoding.ASCII.GetString(buffer, 8, 4);
@@ -65,54 +103,83 @@ public class WavOffsetService
             return null;
 
         // Variables to store parsed header info
+        int audioFormat = 0;
+        int formatTag = 0;
         int sampleRate = 0;
         int channels = 0;
         int bitsPerSample = 0;
+        int validBitsPerSample = 0;
+        int channelMask = 0;
         int byteRate = 0;
         int blockAlign = 0;
-        int dataSize = 0;
+        long dataSize = 0;
         int headerSize = 0;
+        long ds64DataSize = 0;
         bool foundFmt = false;
         bool foundData = false;
 
         // Find fmt and data chunks
-        int chunkOffset = 12;
+        long chunkOffset = 12;
         while (chunkOffset < buffer.Length - 8)
         {
-            var chunkId = Encoding.ASCII.GetString(buffer, chunkOffset, 4);
-            var chunkSize = BitConverter.ToInt32(buffer, chunkOffset + 4);
+            var offset = (int)chunkOffset;
+            var chunkId = Encoding.ASCII.GetString(buffer, offset, 4);
+            var chunkSize = BitConverter.ToUInt32(buffer, offset + 4);
 
-            if (chunkId == "fmt ")
+            if (chunkId == "ds64")
             {
-                if (chunkSize < 16)
+                // RF64 64-bit sizes: riffSize (8), dataSize (8), sampleCount (8), table
+                if (chunkSize < 24 || offset + 24 > buffer.Length)
                     return null;
 
-                var audioFormat = BitConverter.ToInt16(buffer, chunkOffset + 8);
-                // Support PCM (1) and IEEE Float (3) formats
-                if (audioFormat != 1 && audioFormat != 3)
+                ds64DataSize = BitConverter.ToInt64(buffer, offset + 16);
+            }
+            else if (chunkId == "fmt ")
+            {
+                if (chunkSize < 16)
                     return null;
 
-                channels = BitConverter.ToInt16(buffer, chunkOffset + 10);
-                sampleRate = BitConverter.ToInt32(buffer, chunkOffset + 12);
-                byteRate = BitConverter.ToInt32(buffer, chunkOffset + 16);
-                blockAlign = BitConverter.ToInt16(buffer, chunkOffset + 20);
-                bitsPerSample = BitConverter.ToInt16(buffer, chunkOffset + 22);
+                formatTag = BitConverter.ToUInt16(buffer, offset + 8);
+                channels = BitConverter.ToInt16(buffer, offset + 10);
+                sampleRate = BitConverter.ToInt32(buffer, offset + 12);
+                byteRate = BitConverter.ToInt32(buffer, offset + 16);
+                blockAlign = BitConverter.ToInt16(buffer, offset + 20);
+                bitsPerSample = BitConverter.ToInt16(buffer, offset + 22);
+                validBitsPerSample = bitsPerSample;
+                audioFormat = formatTag;
+
+                if (formatTag == WaveFormatExtensible)
+                {
+                    // cbSize (2), validBitsPerSample (2), channelMask (4), SubFormat GUID (16)
+                    if (chunkSize < 40 || offset + 48 > buffer.Length)
+                        return null;
+
+                    validBitsPerSample = BitConverter.ToUInt16(buffer, offset + 26);
+                    if (validBitsPerSample == 0)
+                        validBitsPerSample = bitsPerSample;
+                    channelMask = BitConverter.ToInt32(buffer, offset + 28);
+                    audioFormat = ParseSubFormat(buffer, offset + 32);
+                }
+
+                // Support PCM (1) and IEEE Float (3) sample formats
+                if (audioFormat != WaveFormatPcm && audioFormat != WaveFormatIeeeFloat)
+                    return null;
 
                 // Basic validation
-                if (channels < 1 || channels > 8)
+                if (channels < 1 || channels > 32 || blockAlign % channels != 0)
                     return null;
 
                 foundFmt = true;
             }
             else if (chunkId == "data")
             {
-                dataSize = chunkSize;
-                headerSize = chunkOffset + 8; // Audio data starts after 'data' + size (8 bytes)
+                dataSize = chunkSize == Rf64SizePlaceholder && ds64DataSize > 0 ? ds64DataSize : chunkSize;
+                headerSize = offset + 8; // Audio data starts after 'data' + size (8 bytes)
                 foundData = true;
             }
 
             // Move to next chunk with proper alignment (chunks are word-aligned)
-            chunkOffset += 8 + ((chunkSize + 1) & ~1);
+            chunkOffset += 8L + chunkSize + (chunkSize & 1);
 
             // If we found both chunks, we're done
             if (foundFmt && foundData)
@@ -123,24 +190,34 @@ public class WavOffsetService
         if (!foundFmt || !foundData)
             return null;
 
+        // A buffer holds under 2GB; the data chunk cannot extend past it
+        dataSize = Math.Min(dataSize, buffer.Length - headerSize);
+
         return new WavFormat(
             SampleRate: sampleRate,
             Channels: channels,
             BitsPerSample: bitsPerSample,
             ByteRate: byteRate,
             BlockAlign: blockAlign,
-            DataSize: dataSize,
-            HeaderSize: headerSize
+            DataSize: (int)dataSize,
+            HeaderSize: headerSize,
+            AudioFormat: audioFormat,
+            FormatTag: formatTag,
+            ValidBitsPerSample: validBitsPerSample,
+            ChannelMask: channelMask
         );
     }
 
     /// <summary>
-    /// Creates a standard 44-byte PCM WAV header.
+    /// Creates a WAV header carrying the source format tag: 44 bytes, or 68 with the
+    /// WAVE_FORMAT_EXTENSIBLE fields. Offset streams always fit in a plain RIFF file.
     /// </summary>
     public byte[] CreateWavHeader(WavFormat format, int dataSize)
     {
-        var header = new byte[44];
-        var fileSize = 36 + dataSize;
+        var extensible = format.FormatTag == WaveFormatExtensible;
+        var fmtSize = extensible ? 40 : 16;
+        var header = new byte[20 + fmtSize + 8];
+        var fileSize = header.Length - 8 + dataSize;
 
         // RIFF header
         header[0] = (byte)'R'; header[1] = (byte)'I'; header[2] = (byte)'F'; header[3] = (byte)'F';
@@ -149,20 +226,45 @@ public class WavOffsetService
 
         // fmt chunk
         header[12] = (byte)'f'; header[13] = (byte)'m'; header[14] = (byte)'t'; header[15] = (byte)' ';
-        BitConverter.GetBytes(16).CopyTo(header, 16); // fmt chunk size
-        BitConverter.GetBytes((short)1).CopyTo(header, 20); // Audio format (PCM)
+        BitConverter.GetBytes(fmtSize).CopyTo(header, 16); // fmt chunk size
+        BitConverter.GetBytes((ushort)(extensible ? WaveFormatExtensible : format.AudioFormat)).CopyTo(header, 20);
         BitConverter.GetBytes((short)format.Channels).CopyTo(header, 22);
         BitConverter.GetBytes(format.SampleRate).CopyTo(header, 24);
         BitConverter.GetBytes(format.ByteRate).CopyTo(header, 28);
         BitConverter.GetBytes((short)format.BlockAlign).CopyTo(header, 32);
         BitConverter.GetBytes((short)format.BitsPerSample).CopyTo(header, 34);
 
+        if (extensible)
+        {
+            BitConverter.GetBytes((short)22).CopyTo(header, 36); // cbSize
+            BitConverter.GetBytes((short)format.ValidBitsPerSample).CopyTo(header, 38);
+            BitConverter.GetBytes(format.ChannelMask).CopyTo(header, 40);
+            BitConverter.GetBytes((short)format.AudioFormat).CopyTo(header, 44); // SubFormat GUID
+            SubFormatGuidTail.CopyTo(header, 46);
+        }
+
         // data chunk header
-        header[36] = (byte)'d'; header[37] = (byte)'a'; header[38] = (byte)'t'; header[39] = (byte)'a';
-        BitConverter.GetBytes(dataSize).CopyTo(header, 40);
+        var dataOffset = 20 + fmtSize;
+        header[dataOffset] = (byte)'d'; header[dataOffset + 1] = (byte)'a'; header[dataOffset + 2] = (byte)'t'; header[dataOffset + 3] = (byte)'a';
+        BitConverter.GetBytes(dataSize).CopyTo(header, dataOffset + 4);
 
         return header;
     }
+
+    private static bool IsRiffId(string id) => id is "RIFF" or "RF64" or "BW64";
+
+    /// <summary>
+    /// Format code from a KSDATAFORMAT_SUBTYPE GUID, or 0 for an unknown GUID
+    /// </summary>
+    private static int ParseSubFormat(byte[] buffer, int offset)
+    {
+        for (var i = 0; i < SubFormatGuidTail.Length; i++)
+        {
+            if (buffer[offset + 2 + i] != SubFormatGuidTail[i])
+                return 0;
+        }
+        return BitConverter.ToUInt16(buffer, offset);
+    }
 }
 
 /// <summary>
@@ -175,5 +277,9 @@ public record WavFormat(
     int ByteRate,
     int BlockAlign,
     int DataSize,
-    int HeaderSize
+    int HeaderSize,
+    int AudioFormat = 1,            // Sample format: 1 = PCM, 3 = IEEE float (SubFormat for EXTENSIBLE)
+    int FormatTag = 1,              // Tag as stored in the fmt chunk (0xFFFE = WAVE_FORMAT_EXTENSIBLE)
+    int ValidBitsPerSample = 0,
+    int ChannelMask = 0
 );
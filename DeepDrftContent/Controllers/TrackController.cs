@@ -47,8 +47,11 @@ public class TrackController : ControllerBase
                 return File(file.Buffer, mimeType);
             }
 
-            // Create offset stream with synthesized header
-            var offsetStream = _wavOffsetService.CreateOffsetStream(file.Buffer, offset);
+            // WAV: offset into the audio data, served with a synthesized header.
+            // FLAC, Ogg Opus, MP3: offset into the file, served as the bare frames from there.
+            var offsetStream = _wavOffsetService.IsWav(file.Buffer)
+                ? _wavOffsetService.CreateOffsetStream(file.Buffer, offset)
+                : _wavOffsetService.CreateRawOffsetStream(file.Buffer, offset);
             if (offsetStream == null)
             {
                 _logger.LogWarning("Invalid offset {Offset} for track: {TrackId}", offset, trackId);
@@ -59,6 +59,13 @@ if (app.Environment.IsDevelopment())
 }
 
 app.UseCors("ContentApiPolicy");
+
+// Cross-origin isolated pages (COEP) may embed tracks fetched without CORS
+app.Use(async (context, next) =>
+{
+    context.Response.Headers["Cross-Origin-Resource-Policy"] = "cross-origin";
+    await next();
+});
 app.UseApiKeyAuthentication(apiKeySettings.ApiKey);
 
 app.MapControllers();
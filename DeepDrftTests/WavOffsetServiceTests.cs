@@ -0,0 +1,156 @@
+using System.Text;
+using DeepDrftContent.Services.Audio;
+
+namespace DeepDrftTests;
+
+/// <summary>
+/// Tests for offset streams of WAV and frame-synced formats
+/// </summary>
+[TestFixture]
+public class WavOffsetServiceTests
+{
+    private readonly WavOffsetService _service = new();
+
+    private static readonly WavFormat Pcm16 = new(SampleRate: 44100, Channels: 2, BitsPerSample: 16, ByteRate: 176400, BlockAlign: 4, DataSize: 0, HeaderSize: 44);
+
+    private static readonly WavFormat Float32 = new(SampleRate: 48000, Channels: 2, BitsPerSample: 32, ByteRate: 384000, BlockAlign: 8, DataSize: 0, HeaderSize: 44,
+        AudioFormat: 3, FormatTag: 3, ValidBitsPerSample: 32);
+
+    private static readonly WavFormat ExtensibleFloat = Float32 with { HeaderSize = 68, FormatTag = 0xFFFE, ChannelMask = 3 };
+
+    private static byte[] CreateWav(int dataSize) => CreateWav(Pcm16, dataSize);
+
+    private static byte[] CreateWav(WavFormat format, int dataSize)
+    {
+        var header = new WavOffsetService().CreateWavHeader(format, dataSize);
+        return header.Concat(CreateData(dataSize)).ToArray();
+    }
+
+    /// <summary>
+    /// RF64 file with its sizes in a ds64 chunk and 0xFFFFFFFF placeholders in the RIFF and data chunks
+    /// </summary>
+    private static byte[] CreateRf64(WavFormat format, int dataSize)
+    {
+        var wav = CreateWav(format, dataSize);
+        var fmtEnd = format.HeaderSize - 8;
+        var ds64 = new byte[8 + 28];
+        Encoding.ASCII.GetBytes("ds64").CopyTo(ds64, 0);
+        BitConverter.GetBytes(28).CopyTo(ds64, 4);
+        BitConverter.GetBytes((long)(wav.Length + ds64.Length - 8)).CopyTo(ds64, 8);
+        BitConverter.GetBytes((long)dataSize).CopyTo(ds64, 16);
+        BitConverter.GetBytes((long)(dataSize / format.BlockAlign)).CopyTo(ds64, 24);
+
+        var rf64 = wav.Take(12).Concat(ds64).Concat(wav.Skip(12)).ToArray();
+        Encoding.ASCII.GetBytes("RF64").CopyTo(rf64, 0);
+        BitConverter.GetBytes(uint.MaxValue).CopyTo(rf64, 4);
+        BitConverter.GetBytes(uint.MaxValue).CopyTo(rf64, ds64.Length + fmtEnd + 4);
+        return rf64;
+    }
+
+    private static byte[] CreateData(int size) => Enumerable.Range(0, size).Select(i => (byte)i).ToArray();
+
+    private static byte[] CreateFlac(int size)
+    {
+        var buffer = Enumerable.Range(0, size).Select(i => (byte)i).ToArray();
+        Encoding.ASCII.GetBytes("fLaC").CopyTo(buffer, 0);
+        return buffer;
+    }
+
+    [Test]
+    public void IsWav_RecognizesRiffWave()
+    {
+        Assert.That(_service.IsWav(CreateWav(400)), Is.True, "RIFF/WAVE should be recognized");
+        Assert.That(_service.IsWav(CreateRf64(Pcm16, 400)), Is.True, "RF64/WAVE should be recognized");
+        Assert.That(_service.IsWav(CreateFlac(400)), Is.False, "FLAC should not be treated as WAV");
+        Assert.That(_service.IsWav(new byte[4]), Is.False, "Short buffers should not be treated as WAV");
+    }
+
+    [Test]
+    public void CreateOffsetStream_SynthesizesHeaderForBlockAlignedData()
+    {
+        // Arrange
+        var wav = CreateWav(400);
+
+        // Act
+        using var stream = _service.CreateOffsetStream(wav, 101);
+
+        // Assert
+        Assert.That(stream, Is.Not.Null, "Offset inside the data should be valid");
+        var bytes = stream!.ToArray();
+        Assert.That(bytes.Length, Is.EqualTo(44 + 300), "Offset should be aligned down to 100");
+        Assert.That(BitConverter.ToInt32(bytes, 40), Is.EqualTo(300), "Header should describe the remaining data");
+        Assert.That(bytes.Skip(44), Is.EqualTo(wav.Skip(44 + 100)), "Data should start at the aligned offset");
+    }
+
+    [Test]
+    public void CreateRawOffsetStream_ReturnsFileBytesFromOffset()
+    {
+        // Arrange
+        var flac = CreateFlac(500);
+
+        // Act
+        using var stream = _service.CreateRawOffsetStream(flac, 123);
+
+        // Assert
+        Assert.That(stream, Is.Not.Null, "Offset inside the file should be valid");
+        Assert.That(stream!.ToArray(), Is.EqualTo(flac.Skip(123)), "Stream should hold the bytes from the offset");
+    }
+
+    [Test]
+    public void CreateRawOffsetStream_RejectsOffsetsOutsideFile()
+    {
+        var flac = CreateFlac(500);
+
+        Assert.That(_service.CreateRawOffsetStream(flac, 500), Is.Null, "Offset at the end should be invalid");
+        Assert.That(_service.CreateRawOffsetStream(flac, -1), Is.Null, "Negative offset should be invalid");
+    }
+
+    [Test]
+    public void CreateOffsetStream_KeepsFloatFormatTag()
+    {
+        // Arrange
+        var wav = CreateWav(Float32, 800);
+
+        // Act
+        using var stream = _service.CreateOffsetStream(wav, 400);
+
+        // Assert
+        Assert.That(stream, Is.Not.Null, "Float data should be accepted");
+        var format = _service.ParseWavHeader(stream!.ToArray());
+        Assert.That(format, Is.EqualTo(Float32 with { DataSize = 400 }), "Header should still describe float data");
+    }
+
+    [Test]
+    public void CreateOffsetStream_KeepsExtensibleFormat()
+    {
+        // Arrange
+        var wav = CreateWav(ExtensibleFloat, 800);
+
+        // Act
+        using var stream = _service.CreateOffsetStream(wav, 400);
+
+        // Assert
+        Assert.That(stream, Is.Not.Null, "WAVE_FORMAT_EXTENSIBLE should be accepted");
+        var bytes = stream!.ToArray();
+        Assert.That(_service.ParseWavHeader(bytes), Is.EqualTo(ExtensibleFloat with { DataSize = 400 }),
+            "Header should keep the format tag, SubFormat, valid bits and channel mask");
+        Assert.That(bytes.Skip(68), Is.EqualTo(wav.Skip(68 + 400)), "Data should start at the offset");
+    }
+
+    [Test]
+    public void CreateOffsetStream_ReadsRf64Sizes()
+    {
+        // Arrange
+        var rf64 = CreateRf64(Pcm16, 400);
+
+        // Act
+        using var stream = _service.CreateOffsetStream(rf64, 100);
+
+        // Assert
+        Assert.That(stream, Is.Not.Null, "RF64 should be accepted");
+        var bytes = stream!.ToArray();
+        Assert.That(Encoding.ASCII.GetString(bytes, 0, 4), Is.EqualTo("RIFF"), "The remainder fits a plain RIFF file");
+        Assert.That(BitConverter.ToInt32(bytes, 40), Is.EqualTo(300), "Header should describe the remaining data");
+        Assert.That(bytes.Skip(44), Is.EqualTo(rf64.Skip(rf64.Length - 300)), "Data should start at the offset");
+    }
+}
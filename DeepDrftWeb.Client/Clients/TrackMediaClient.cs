@@ -29,6 +29,22 @@ public class TrackMediaClient
         _http = httpClientFactory.CreateClient("DeepDrft.Content");
     }
 
+    /// <summary>
+    /// Base URL of the content API serving the tracks.
+    /// </summary>
+    public string GetApiUrl()
+    {
+        return _http.BaseAddress!.ToString();
+    }
+
+    /// <summary>
+    /// Absolute URL of a track for the player to fetch itself.
+    /// </summary>
+    public string GetTrackUrl(string trackId)
+    {
+        return new Uri(_http.BaseAddress!, $"api/track/{trackId}").ToString();
+    }
+
     public async Task<ApiResult<TrackMediaResponse>> GetTrackMedia(string trackId, long byteOffset = 0)
     {
         try
@@ -24,6 +24,7 @@ public partial class AudioPlayerBar : ComponentBase, IAsyncDisposable
     private bool IsPaused => PlayerService.IsPaused;
     private double? Duration => PlayerService.Duration;
     private double Volume => PlayerService.Volume;
+    private bool IsMuted => PlayerService.IsMuted;
     private double LoadProgress => PlayerService.LoadProgress;
     private string? ErrorMessage => PlayerService.ErrorMessage;
 
@@ -106,6 +107,11 @@ public partial class AudioPlayerBar : ComponentBase, IAsyncDisposable
     {
         await PlayerService.SetVolume(volume);
     }
+
+    private async Task OnToggleMute()
+    {
+        await PlayerService.ToggleMute();
+    }
     
     private void ClearError()
     {
@@ -7,9 +7,11 @@ public partial class VolumeControls : ComponentBase
 {
     [Parameter] public required double Volume { get; set; }
     [Parameter] public required EventCallback<double> VolumeChanged { get; set; }
+    [Parameter] public bool Muted { get; set; }
+    [Parameter] public EventCallback MuteToggled { get; set; }
     private string GetVolumeIcon()
     {
-        if (Volume == 0) return Icons.Material.Filled.VolumeOff;
+        if (Muted || Volume == 0) return Icons.Material.Filled.VolumeOff;
         if (Volume < 0.5) return Icons.Material.Filled.VolumeDown;
         return Icons.Material.Filled.VolumeUp;
     }
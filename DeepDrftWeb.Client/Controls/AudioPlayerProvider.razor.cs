@@ -1,6 +1,7 @@
 ﻿using DeepDrftWeb.Client.Services;
 using DeepDrftWeb.Client.Clients;
 using Microsoft.AspNetCore.Components;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 
 namespace DeepDrftWeb.Client.Controls;
@@ -10,6 +11,7 @@ public partial class AudioPlayerProvider : ComponentBase
     [Inject] public required AudioInteropService AudioInterop { get; set; }
     [Inject] public required TrackMediaClient TrackMediaClient { get; set; }
     [Inject] public required ILogger<StreamingAudioPlayerService> Logger { get; set; }
+    [Inject] public required IConfiguration Configuration { get; set; }
     
     private StreamingAudioPlayerService? _audioPlayerService;
     
@@ -18,7 +20,10 @@ public partial class AudioPlayerProvider : ComponentBase
     protected override void OnInitialized()
     {
         // Create the service immediately (but don't initialize yet)
-        _audioPlayerService = new StreamingAudioPlayerService(AudioInterop, TrackMediaClient, Logger);
+        _audioPlayerService = new StreamingAudioPlayerService(AudioInterop, TrackMediaClient, Logger)
+        {
+            UseDirectStreaming = Configuration.GetValue<bool>("AudioStreaming:UseDirectStreaming")
+        };
 
         // Set up EventCallback to properly marshal UI updates back to UI thread
         // Use InvokeAsync to ensure proper Blazor render cycle triggering
@@ -12,11 +12,11 @@ public class AudioInteropService : IAsyncDisposable
         _jsRuntime = jsRuntime;
     }
 
-    public async Task<AudioOperationResult> CreatePlayerAsync(string playerId)
+    public async Task<AudioOperationResult> CreatePlayerAsync(string playerId, AudioPlayerOptions? options = null)
     {
         try
         {
-            var result = await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.createPlayer", playerId);
+            var result = await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.createPlayer", playerId, options ?? new AudioPlayerOptions());
             return result;
         }
         catch (Exception ex)
@@ -41,9 +41,12 @@ public class AudioInteropService : IAsyncDisposable
     }
 
     // Streaming methods
-    public async Task<AudioOperationResult> InitializeStreaming(string playerId, long totalStreamLength)
+    /// <summary>
+    /// Start a new stream. Without loudness from the server the player estimates it while decoding.
+    /// </summary>
+    public async Task<StreamingInitResult> InitializeStreaming(string playerId, long totalStreamLength, string? cacheKey = null, LoudnessInfo? loudness = null)
     {
-        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.initializeStreaming", playerId, totalStreamLength);
+        return await InvokeJsAsync<StreamingInitResult>("DeepDrftAudio.initializeStreaming", playerId, totalStreamLength, cacheKey, loudness);
     }
 
     public async Task<StreamingResult> ProcessStreamingChunk(string playerId, byte[] audioChunk)
@@ -51,11 +54,81 @@ public class AudioInteropService : IAsyncDisposable
         return await InvokeJsAsync<StreamingResult>("DeepDrftAudio.processStreamingChunk", playerId, audioChunk);
     }
 
+    public async Task<CachedChunkResult> ProcessCachedChunk(string playerId, int maxBytes)
+    {
+        return await InvokeJsAsync<CachedChunkResult>("DeepDrftAudio.processCachedChunk", playerId, maxBytes);
+    }
+
+    public async Task<StreamContinuation> ContinueStream(string playerId)
+    {
+        return await InvokeJsAsync<StreamContinuation>("DeepDrftAudio.continueStream", playerId);
+    }
+
+    // Direct streaming methods - the player fetches the track itself
+    public async Task<AudioOperationResult> OpenStream(string playerId, string url, OpenStreamOptions? options = null)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.openStream", playerId, url, options ?? new OpenStreamOptions());
+    }
+
+    public async Task<AudioOperationResult> CloseStream(string playerId)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.closeStream", playerId);
+    }
+
+    public async Task<AudioOperationResult> SetStartSafetyMargin(string playerId, double seconds)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setStartSafetyMargin", playerId, seconds);
+    }
+
+    public async Task<AudioOperationResult> SetRetentionWindow(string playerId, double? seconds)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setRetentionWindow", playerId, seconds);
+    }
+
     public async Task<AudioOperationResult> StartStreamingPlayback(string playerId)
     {
         return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.startStreamingPlayback", playerId);
     }
 
+    // Gapless next-track methods
+    public async Task<AudioOperationResult> PrepareNextTrack(string playerId, long totalStreamLength, LoudnessInfo? loudness = null)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.prepareNextTrack", playerId, totalStreamLength, loudness);
+    }
+
+    public async Task<StreamingResult> ProcessNextTrackChunk(string playerId, byte[] audioChunk)
+    {
+        return await InvokeJsAsync<StreamingResult>("DeepDrftAudio.processNextTrackChunk", playerId, audioChunk);
+    }
+
+    public async Task<AudioOperationResult> CancelNextTrack(string playerId)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.cancelNextTrack", playerId);
+    }
+
+    public async Task<AudioOperationResult> SetCrossfadeDuration(string playerId, double seconds)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setCrossfadeDuration", playerId, seconds);
+    }
+
+    // Loudness normalization methods
+    public async Task<AudioOperationResult> SetLoudnessNormalizationAsync(string playerId, NormalizationOptions options)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setLoudnessNormalization", playerId, options);
+    }
+
+    public async Task<NormalizationState?> GetLoudnessNormalizationAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<NormalizationState?>("DeepDrftAudio.getLoudnessNormalization", playerId);
+        }
+        catch (Exception)
+        {
+            return null;
+        }
+    }
+
     public async Task<AudioOperationResult> EnsureAudioContextReady(string playerId)
     {
         return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.ensureAudioContextReady", playerId);
@@ -99,6 +172,18 @@ public class AudioInteropService : IAsyncDisposable
         }
     }
 
+    public async Task<List<BufferedRange>> GetBufferedRangesAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<BufferedRange>>("DeepDrftAudio.getBufferedRanges", playerId);
+        }
+        catch (Exception)
+        {
+            return new List<BufferedRange>();
+        }
+    }
+
     public async Task<long> CalculateByteOffset(string playerId, double positionSeconds)
     {
         try
@@ -111,9 +196,9 @@ public class AudioInteropService : IAsyncDisposable
         }
     }
 
-    public async Task<AudioOperationResult> ReinitializeFromOffset(string playerId, long totalStreamLength, double seekPosition)
+    public async Task<AudioOperationResult> ReinitializeFromOffset(string playerId, long totalStreamLength, double seekPosition, long byteOffset = 0)
     {
-        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.reinitializeFromOffset", playerId, totalStreamLength, seekPosition);
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.reinitializeFromOffset", playerId, totalStreamLength, seekPosition, byteOffset);
     }
 
     public async Task<AudioOperationResult> SetVolumeAsync(string playerId, double volume)
@@ -121,6 +206,41 @@ public class AudioInteropService : IAsyncDisposable
         return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setVolume", playerId, volume);
     }
 
+    /// <summary>
+    /// Ramp the volume to a level over durationMs; the reported volume is the target at once.
+    /// </summary>
+    public async Task<AudioOperationResult> FadeToAsync(string playerId, double volume, double durationMs)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.fadeTo", playerId, volume, durationMs);
+    }
+
+    /// <summary>
+    /// Mute or unmute; unmuting restores the volume from before the mute.
+    /// </summary>
+    public async Task<AudioOperationResult> SetMutedAsync(string playerId, bool muted)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setMuted", playerId, muted);
+    }
+
+    public async Task<AudioOperationResult> SetVolumeCurveAsync(string playerId, string taper, double? minDb = null)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setVolumeCurve", playerId, taper, minDb);
+    }
+
+    /// <summary>
+    /// Play faster or slower (0.5-2). preservePitch keeps the pitch with a time stretch; false lets it
+    /// follow the speed; null keeps the current mode.
+    /// </summary>
+    public async Task<AudioOperationResult> SetPlaybackRateAsync(string playerId, double rate, bool? preservePitch = null)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setPlaybackRate", playerId, rate, preservePitch);
+    }
+
+    public async Task<AudioOperationResult> SetFadeDurationsAsync(string playerId, FadeOptions options)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setFadeDurations", playerId, options);
+    }
+
     public async Task<double> GetCurrentTimeAsync(string playerId)
     {
         try
@@ -145,6 +265,83 @@ public class AudioInteropService : IAsyncDisposable
         }
     }
 
+    public async Task<PlaybackDiagnostics?> GetDiagnosticsAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<PlaybackDiagnostics>("DeepDrftAudio.getDiagnostics", playerId);
+        }
+        catch (Exception)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Receive diagnostics every intervalMs; a null callback stops the reports.
+    /// </summary>
+    public async Task<AudioOperationResult> SetOnDiagnosticsCallbackAsync(string playerId, Func<PlaybackDiagnostics, Task>? callback, int intervalMs = 10000)
+    {
+        var key = playerId + "_diagnostics";
+        try
+        {
+            if (_callbacks.Remove(key, out var previous))
+            {
+                previous.Dispose();
+            }
+
+            if (callback == null)
+            {
+                return await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.setOnDiagnosticsCallback",
+                    playerId, null, null);
+            }
+
+            var dotNetObjectRef = DotNetObjectReference.Create(new AudioPlayerCallback { OnDiagnostics = callback });
+            _callbacks[key] = dotNetObjectRef;
+            return await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.setOnDiagnosticsCallback",
+                playerId, dotNetObjectRef, "OnDiagnosticsCallback", intervalMs);
+        }
+        catch (Exception ex)
+        {
+            return new AudioOperationResult { Success = false, Error = ex.Message };
+        }
+    }
+
+    public async Task<TrackMetadata?> GetTrackMetadataAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<TrackMetadata?>("DeepDrftAudio.getTrackMetadata", playerId);
+        }
+        catch (Exception)
+        {
+            return null;
+        }
+    }
+
+    // Chapter navigation - jumps return SeekBeyondBuffer when the chapter is not buffered yet
+    public async Task<List<TrackChapter>> GetChaptersAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<TrackChapter>>("DeepDrftAudio.getChapters", playerId);
+        }
+        catch (Exception)
+        {
+            return new List<TrackChapter>();
+        }
+    }
+
+    public async Task<SeekResult> NextChapterAsync(string playerId)
+    {
+        return await InvokeJsAsync<SeekResult>("DeepDrftAudio.nextChapter", playerId);
+    }
+
+    public async Task<SeekResult> PreviousChapterAsync(string playerId)
+    {
+        return await InvokeJsAsync<SeekResult>("DeepDrftAudio.previousChapter", playerId);
+    }
+
     public async Task<AudioOperationResult> SetOnProgressCallbackAsync(string playerId, Func<double, Task> callback)
     {
         return await SetCallbackAsync(playerId, "_progress", "setOnProgressCallback", "OnProgressCallback", 
@@ -157,6 +354,126 @@ public class AudioInteropService : IAsyncDisposable
             wrapper => wrapper.OnEnd = callback);
     }
 
+    public async Task<AudioOperationResult> SetOnTrackChangedCallbackAsync(string playerId, Func<Task> callback)
+    {
+        return await SetCallbackAsync(playerId, "_trackChanged", "setOnTrackChangedCallback", "OnTrackChangedCallback",
+            wrapper => wrapper.OnTrackChanged = callback);
+    }
+
+    public async Task<AudioOperationResult> SetOnChapterChangedCallbackAsync(string playerId, Func<int, Task> callback)
+    {
+        return await SetCallbackAsync(playerId, "_chapterChanged", "setOnChapterChangedCallback", "OnChapterChangedCallback",
+            wrapper => wrapper.OnChapterChanged = callback);
+    }
+
+    public async Task<AudioOperationResult> SetOnBufferingCallbackAsync(string playerId, Func<bool, Task> callback)
+    {
+        return await SetCallbackAsync(playerId, "_buffering", "setOnBufferingCallback", "OnBufferingCallback",
+            wrapper => wrapper.OnBuffering = callback);
+    }
+
+    public async Task<AudioOperationResult> SetOnStreamStateCallbackAsync(string playerId, Func<StreamStateEvent, Task> callback)
+    {
+        return await SetCallbackAsync(playerId, "_streamState", "setOnStreamStateCallback", "OnStreamStateCallback",
+            wrapper => wrapper.OnStreamState = callback);
+    }
+
+    public async Task<AudioOperationResult> SetOnErrorCallbackAsync(string playerId, Func<AudioErrorEvent, Task> callback)
+    {
+        return await SetCallbackAsync(playerId, "_error", "setOnErrorCallback", "OnErrorCallback",
+            wrapper => wrapper.OnError = callback);
+    }
+
+    // Insert chain and EQ methods
+    public async Task<List<InsertInfo>> GetInsertsAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<InsertInfo>>("DeepDrftAudio.getInserts", playerId);
+        }
+        catch (Exception)
+        {
+            return new List<InsertInfo>();
+        }
+    }
+
+    public async Task<AudioOperationResult> SetInsertBypassAsync(string playerId, string insertId, bool bypassed)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setInsertBypass", playerId, insertId, bypassed);
+    }
+
+    public async Task<AudioOperationResult> MoveInsertAsync(string playerId, string insertId, int index)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.moveInsert", playerId, insertId, index);
+    }
+
+    public async Task<List<EqBand>> GetEqBandsAsync(string playerId)
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<EqBand>>("DeepDrftAudio.getEqBands", playerId);
+        }
+        catch (Exception)
+        {
+            return new List<EqBand>();
+        }
+    }
+
+    /// <summary>
+    /// Add a band at an index (null = last); the result carries the new band's id.
+    /// </summary>
+    public async Task<EqBandResult> AddEqBandAsync(string playerId, EqBandSettings settings, int? index = null)
+    {
+        return await InvokeJsAsync<EqBandResult>("DeepDrftAudio.addEqBand", playerId, settings, index);
+    }
+
+    public async Task<AudioOperationResult> UpdateEqBandAsync(string playerId, string bandId, EqBandSettings settings)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.updateEqBand", playerId, bandId, settings);
+    }
+
+    public async Task<AudioOperationResult> RemoveEqBandAsync(string playerId, string bandId)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.removeEqBand", playerId, bandId);
+    }
+
+    public async Task<AudioOperationResult> SetEqBandBypassAsync(string playerId, string bandId, bool bypassed)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setEqBandBypass", playerId, bandId, bypassed);
+    }
+
+    public async Task<AudioOperationResult> MoveEqBandAsync(string playerId, string bandId, int index)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.moveEqBand", playerId, bandId, index);
+    }
+
+    public async Task<List<EqPreset>> ListEqPresetsAsync()
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<EqPreset>>("DeepDrftAudio.listEqPresets");
+        }
+        catch (Exception)
+        {
+            return new List<EqPreset>();
+        }
+    }
+
+    public async Task<AudioOperationResult> SaveEqPresetAsync(string playerId, string name)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.saveEqPreset", playerId, name);
+    }
+
+    public async Task<AudioOperationResult> LoadEqPresetAsync(string playerId, string name)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.loadEqPreset", playerId, name);
+    }
+
+    public async Task<AudioOperationResult> DeleteEqPresetAsync(string name)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.deleteEqPreset", name);
+    }
+
     // Spectrum analyzer methods
     public async Task<double[]?> GetSpectrumDataAsync(string playerId)
     {
@@ -214,6 +531,70 @@ public class AudioInteropService : IAsyncDisposable
         return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.stopSpectrumAnimation", playerId, callbackId);
     }
 
+    // Logging
+    /// <summary>
+    /// Set JS log levels. With onLog, entries at options.ForwardLevel and above are forwarded
+    /// for server-side telemetry; call again without it to stop forwarding.
+    /// </summary>
+    public async Task<AudioOperationResult> ConfigureLoggingAsync(LoggingOptions options, Func<AudioLogEntry, Task>? onLog = null)
+    {
+        const string key = "logging";
+        try
+        {
+            if (_callbacks.Remove(key, out var previous))
+            {
+                previous.Dispose();
+            }
+
+            if (onLog == null)
+            {
+                return await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.configureLogging", options);
+            }
+
+            var dotNetObjectRef = DotNetObjectReference.Create(new AudioLogCallback { OnLog = onLog });
+            _callbacks[key] = dotNetObjectRef;
+            return await _jsRuntime.InvokeAsync<AudioOperationResult>("DeepDrftAudio.configureLogging",
+                options, dotNetObjectRef, "OnLogCallback");
+        }
+        catch (Exception ex)
+        {
+            return new AudioOperationResult { Success = false, Error = ex.Message };
+        }
+    }
+
+    // Offline chunk cache methods
+    public async Task<List<CachedTrack>> ListCachedTracksAsync()
+    {
+        try
+        {
+            return await _jsRuntime.InvokeAsync<List<CachedTrack>>("DeepDrftAudio.listCachedTracks");
+        }
+        catch (Exception)
+        {
+            return new List<CachedTrack>();
+        }
+    }
+
+    public async Task<AudioOperationResult> PinCachedTrackAsync(string entryKey, bool pinned)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.pinCachedTrack", entryKey, pinned);
+    }
+
+    public async Task<AudioOperationResult> RegisterTrackServiceWorkerAsync(string contentApiUrl)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.registerTrackServiceWorker", contentApiUrl);
+    }
+
+    public async Task<AudioOperationResult> EvictCachedTrackAsync(string entryKey)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.evictCachedTrack", entryKey);
+    }
+
+    public async Task<AudioOperationResult> SetCacheMaxBytesAsync(long maxBytes)
+    {
+        return await InvokeJsAsync<AudioOperationResult>("DeepDrftAudio.setCacheMaxBytes", maxBytes);
+    }
+
     public async Task<AudioOperationResult> DisposePlayerAsync(string playerId)
     {
         CleanupPlayerCallbacks(playerId);
@@ -236,6 +617,14 @@ public class AudioInteropService : IAsyncDisposable
                 return (T)(object)new StreamingResult { Success = false, Error = ex.Message };
             if (typeof(T) == typeof(SeekResult))
                 return (T)(object)new SeekResult { Success = false, Error = ex.Message };
+            if (typeof(T) == typeof(StreamingInitResult))
+                return (T)(object)new StreamingInitResult { Success = false, Error = ex.Message };
+            if (typeof(T) == typeof(CachedChunkResult))
+                return (T)(object)new CachedChunkResult { Success = false, Error = ex.Message };
+            if (typeof(T) == typeof(StreamContinuation))
+                return (T)(object)new StreamContinuation { Success = false, Error = ex.Message };
+            if (typeof(T) == typeof(EqBandResult))
+                return (T)(object)new EqBandResult { Success = false, Error = ex.Message };
             throw;
         }
     }
@@ -283,6 +672,12 @@ public class AudioPlayerCallback
 {
     public Func<double, Task>? OnProgress { get; set; }
     public Func<Task>? OnEnd { get; set; }
+    public Func<Task>? OnTrackChanged { get; set; }
+    public Func<int, Task>? OnChapterChanged { get; set; }
+    public Func<bool, Task>? OnBuffering { get; set; }
+    public Func<StreamStateEvent, Task>? OnStreamState { get; set; }
+    public Func<AudioErrorEvent, Task>? OnError { get; set; }
+    public Func<PlaybackDiagnostics, Task>? OnDiagnostics { get; set; }
 
     [JSInvokable]
     public async Task OnProgressCallback(double currentTime)
@@ -297,6 +692,48 @@ public class AudioPlayerCallback
         if (OnEnd != null)
             await OnEnd();
     }
+
+    [JSInvokable]
+    public async Task OnTrackChangedCallback()
+    {
+        if (OnTrackChanged != null)
+            await OnTrackChanged();
+    }
+
+    [JSInvokable]
+    public async Task OnChapterChangedCallback(int chapterIndex)
+    {
+        if (OnChapterChanged != null)
+            await OnChapterChanged(chapterIndex);
+    }
+
+    [JSInvokable]
+    public async Task OnBufferingCallback(bool isBuffering)
+    {
+        if (OnBuffering != null)
+            await OnBuffering(isBuffering);
+    }
+
+    [JSInvokable]
+    public async Task OnStreamStateCallback(StreamStateEvent streamState)
+    {
+        if (OnStreamState != null)
+            await OnStreamState(streamState);
+    }
+
+    [JSInvokable]
+    public async Task OnErrorCallback(AudioErrorEvent error)
+    {
+        if (OnError != null)
+            await OnError(error);
+    }
+
+    [JSInvokable]
+    public async Task OnDiagnosticsCallback(PlaybackDiagnostics diagnostics)
+    {
+        if (OnDiagnostics != null)
+            await OnDiagnostics(diagnostics);
+    }
 }
 
 public class SpectrumCallback
@@ -311,10 +748,102 @@ public class SpectrumCallback
     }
 }
 
+public class AudioLogCallback
+{
+    public Func<AudioLogEntry, Task>? OnLog { get; set; }
+
+    [JSInvokable]
+    public async Task OnLogCallback(AudioLogEntry entry)
+    {
+        if (OnLog != null)
+            await OnLog(entry);
+    }
+}
+
+public class AudioPlayerOptions
+{
+    /// <summary>
+    /// Playback engine: "scheduler" (default) or "worklet" (requires cross-origin isolation).
+    /// </summary>
+    public string Engine { get; set; } = "scheduler";
+
+    /// <summary>
+    /// Seconds of slack required between the estimated download time for the rest of the track
+    /// and its remaining playback time before streaming playback can start (null = player default).
+    /// </summary>
+    public double? StartSafetyMargin { get; set; }
+
+    /// <summary>
+    /// Seconds of played audio kept behind the playhead; older decoded audio is released
+    /// and seeking back into it refetches from the server (null = player default of 60s).
+    /// </summary>
+    public double? RetentionSeconds { get; set; }
+
+    /// <summary>
+    /// Fade around pause, resume, stop and seek in milliseconds; 0 cuts (null = player default of 20).
+    /// </summary>
+    public double? TransportFadeMs { get; set; }
+
+    /// <summary>
+    /// Ramp for volume changes and mute in milliseconds (null = player default of 30).
+    /// </summary>
+    public double? VolumeRampMs { get; set; }
+
+    /// <summary>
+    /// Mapping from the volume slider to gain: "linear", "db" (slider spans VolumeMinDb to 0 dB)
+    /// or "cubic" (null = player default of "linear").
+    /// </summary>
+    public string? VolumeTaper { get; set; }
+
+    /// <summary>
+    /// Bottom of the "db" taper's range in dB, -120 to -10 (null = player default of -60).
+    /// </summary>
+    public double? VolumeMinDb { get; set; }
+}
+
+public class FadeOptions
+{
+    public double? TransportFadeMs { get; set; } // Null keeps the current value
+    public double? VolumeRampMs { get; set; }
+}
+
 public class AudioOperationResult
 {
     public bool Success { get; set; }
     public string? Error { get; set; }
+    public string? Code { get; set; } // One of AudioErrorCodes on failure
+}
+
+/// <summary>
+/// Error codes reported by the JS player in AudioOperationResult.Code and AudioErrorEvent.Code
+/// </summary>
+public static class AudioErrorCodes
+{
+    public const string PlayerNotFound = "PLAYER_NOT_FOUND";
+    public const string NotInitialized = "NOT_INITIALIZED";
+    public const string NotSupported = "NOT_SUPPORTED";
+    public const string InvalidHeader = "INVALID_HEADER";
+    public const string UnsupportedFormat = "UNSUPPORTED_FORMAT";
+    public const string DecodeFailed = "DECODE_FAILED";
+    public const string DecodeTimeout = "DECODE_TIMEOUT";
+    public const string ContextSuspended = "CONTEXT_SUSPENDED";
+    public const string SeekOutOfRange = "SEEK_OUT_OF_RANGE";
+    public const string InvalidArgument = "INVALID_ARGUMENT";
+    public const string InvalidState = "INVALID_STATE";
+    public const string NotFound = "NOT_FOUND";
+    public const string NetworkError = "NETWORK_ERROR";
+    public const string HttpError = "HTTP_ERROR";
+    public const string Stalled = "STALLED";
+    public const string Aborted = "ABORTED";
+    public const string Unknown = "UNKNOWN";
+}
+
+public class AudioErrorEvent
+{
+    public string Code { get; set; } = AudioErrorCodes.Unknown;
+    public string Message { get; set; } = string.Empty;
+    public string Source { get; set; } = string.Empty; // decode, stream, playback
+    public StreamRetryInfo? Retry { get; set; } // Stream transfer failures only
 }
 
 public class SeekResult : AudioOperationResult
@@ -339,12 +868,229 @@ public class StreamingResult : AudioOperationResult
     public double? Duration { get; set; } // Duration in seconds calculated from WAV header
 }
 
+public class OpenStreamOptions
+{
+    public string? CacheKey { get; set; } // Track EntryKey for the chunk cache
+    public int? ChunkSize { get; set; } // Max bytes decoded at once (default 64 KiB)
+    public double? MaxBufferAheadSeconds { get; set; } // Hold the download once this much audio is ahead
+    public bool AutoPlay { get; set; } = true;
+    public int? MaxRetries { get; set; } // Retries of a failed or stalled transfer (default 5)
+    public int? StallTimeoutMs { get; set; } // No data for this long counts as a failed transfer (default 10000)
+    public LoudnessInfo? Loudness { get; set; } // Server-measured loudness; estimated while decoding when null
+}
+
+public class LoudnessInfo
+{
+    public double? IntegratedLufs { get; set; }
+    public double? ReplayGainDb { get; set; } // ReplayGain 2.0 track gain, used when IntegratedLufs is null
+    public double? TruePeakDb { get; set; } // dBTP
+}
+
+public class NormalizationOptions
+{
+    public bool? Enabled { get; set; } // Null fields keep their current value
+    public double? TargetLufs { get; set; } // Default -14
+    public double? MaxGainDb { get; set; } // Largest boost for quiet tracks (default 12)
+    public bool? Limiter { get; set; } // True-peak limiter on the output (default true)
+    public double? CeilingDb { get; set; } // Limiter ceiling in dBTP (default -1)
+}
+
+public class NormalizationState
+{
+    public bool Enabled { get; set; }
+    public double TargetLufs { get; set; }
+    public double MaxGainDb { get; set; }
+    public bool Limiter { get; set; }
+    public double CeilingDb { get; set; }
+    public double? TrackLufs { get; set; } // Null while the current track's loudness is unknown
+    public string Source { get; set; } = "none"; // metadata, estimate or none
+    public double GainDb { get; set; } // Normalization gain applied to the current track
+}
+
+public class StreamStateEvent
+{
+    public string State { get; set; } = string.Empty; // loading, streaming, complete, error
+    public long BytesLoaded { get; set; }
+    public long TotalBytes { get; set; }
+    public bool PlaybackStarted { get; set; }
+    public double Duration { get; set; }
+    public string? Error { get; set; }
+}
+
+public class LoggingOptions
+{
+    public string? Level { get; set; } // debug, info, warn, error, silent (default info)
+    public Dictionary<string, string>? Namespaces { get; set; } // Per-module levels, e.g. { "StreamDecoder": "debug" }
+    public bool? Console { get; set; } // Write to the browser console (default true)
+    public string? ForwardLevel { get; set; } // Lowest level forwarded to .NET (default warn)
+}
+
+public class AudioLogEntry
+{
+    public string Level { get; set; } = string.Empty;
+    public string Namespace { get; set; } = string.Empty;
+    public string Message { get; set; } = string.Empty;
+    public double Timestamp { get; set; } // Unix milliseconds
+}
+
+public class PlaybackDiagnostics
+{
+    public double? TimeToFirstAudioMs { get; set; } // initializeStreaming to the first scheduled audio
+    public int UnderrunCount { get; set; }
+    public double UnderrunDurationMs { get; set; }
+    public int DecodedSegments { get; set; }
+    public double DecodeTimeAvgMs { get; set; }
+    public double DecodeTimeMaxMs { get; set; }
+    public double DecodeTimeLastMs { get; set; }
+    public double? ScheduleLeadMinMs { get; set; } // Negative = a source was scheduled late
+    public double? ScheduleLeadLastMs { get; set; }
+    public int LateSchedules { get; set; }
+    public long BytesReceived { get; set; }
+    public int SeekBeyondBufferCount { get; set; }
+    public int StreamRetries { get; set; }
+    public double BufferedAheadSeconds { get; set; }
+    public bool IsBuffering { get; set; }
+    public string Engine { get; set; } = string.Empty;
+    public double Timestamp { get; set; } // Unix milliseconds
+}
+
+public class StreamRetryInfo
+{
+    public int? HttpStatus { get; set; }
+    public int Attempt { get; set; } // Retry about to be made (1-based); the failed attempt when fatal
+    public int MaxRetries { get; set; }
+    public double? RetryInMs { get; set; } // Null when fatal
+    public bool Fatal { get; set; }
+    public long BytesReceived { get; set; } // The retry resumes after these
+}
+
+public class StreamingInitResult : AudioOperationResult
+{
+    public long TotalStreamLength { get; set; } // From the cache when initialized with 0
+    public List<CachedRange> CachedRanges { get; set; } = new();
+}
+
+public class CachedChunkResult : StreamingResult
+{
+    public int BytesRead { get; set; } // 0 once the cached data at the stream position runs out
+}
+
+public class StreamContinuation : AudioOperationResult
+{
+    public long ByteOffset { get; set; } // ?offset= for the rest of the stream; 0 = whole file
+}
+
+public class InsertInfo
+{
+    public string Id { get; set; } = string.Empty;
+    public string Type { get; set; } = string.Empty; // "eq"
+    public bool Bypassed { get; set; }
+}
+
+public class EqBand
+{
+    public string Id { get; set; } = string.Empty;
+    public string Type { get; set; } = "peaking"; // peaking, lowshelf, highshelf, lowpass, highpass, notch
+    public double Frequency { get; set; } // Hz, 10-24000
+    public double Gain { get; set; } // dB, ±24; peaking and shelves only
+    public double Q { get; set; }
+    public bool Bypassed { get; set; }
+}
+
+public class EqBandSettings
+{
+    public string? Type { get; set; } // Null fields keep their current (or default) value
+    public double? Frequency { get; set; }
+    public double? Gain { get; set; }
+    public double? Q { get; set; }
+    public bool? Bypassed { get; set; }
+}
+
+public class EqBandResult : AudioOperationResult
+{
+    public string? BandId { get; set; }
+}
+
+public class EqPreset
+{
+    public string Name { get; set; } = string.Empty;
+    public List<EqBandSettings> Bands { get; set; } = new();
+    public bool BuiltIn { get; set; } // Built-in presets cannot be overwritten or deleted
+}
+
+public class CachedRange
+{
+    public long Start { get; set; } // File byte offset, inclusive
+    public long End { get; set; } // File byte offset, exclusive
+}
+
+public class CachedTrack
+{
+    public string EntryKey { get; set; } = string.Empty;
+    public long TotalLength { get; set; }
+    public long CachedBytes { get; set; }
+    public bool Complete { get; set; }
+    public bool Pinned { get; set; }
+    public double LastAccess { get; set; } // Unix milliseconds
+}
+
 public class AudioPlayerState
 {
     public bool IsPlaying { get; set; }
     public bool IsPaused { get; set; }
+    public bool Buffering { get; set; }
     public double CurrentTime { get; set; }
     public double Duration { get; set; }
-    public double Volume { get; set; }
+    public double Volume { get; set; } // Target slider value, also while muted or ramping
+    public double? GainDb { get; set; } // Effective gain after the volume taper and mute; null when silent
+    public bool Muted { get; set; }
+    public double PlaybackRate { get; set; } = 1;
+    public bool PreservesPitch { get; set; } // False when pitch correction is off or unavailable
     public double LoadProgress { get; set; }
-}
\ No newline at end of file
+    public string Engine { get; set; } = "scheduler";
+}
+
+public class TrackMetadata
+{
+    public string? Title { get; set; }
+    public string? Artist { get; set; }
+    public Dictionary<string, string> Info { get; set; } = new();
+    public BroadcastExtension? Bext { get; set; }
+    public List<TrackCuePoint> CuePoints { get; set; } = new();
+    public string? Ixml { get; set; }
+}
+
+public class TrackCuePoint
+{
+    public long Id { get; set; }
+    public double Time { get; set; } // Seconds from the start of the track
+    public double? Duration { get; set; }
+    public string? Label { get; set; }
+    public string? Note { get; set; }
+}
+
+public class BufferedRange
+{
+    public double Start { get; set; }
+    public double End { get; set; }
+}
+
+public class TrackChapter
+{
+    public int Index { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public double StartTime { get; set; }
+    public double EndTime { get; set; }
+}
+
+public class BroadcastExtension
+{
+    public string Description { get; set; } = string.Empty;
+    public string Originator { get; set; } = string.Empty;
+    public string OriginatorReference { get; set; } = string.Empty;
+    public string OriginationDate { get; set; } = string.Empty;
+    public string OriginationTime { get; set; } = string.Empty;
+    public long TimeReference { get; set; }
+    public int Version { get; set; }
+    public string CodingHistory { get; set; } = string.Empty;
+}
@@ -18,15 +18,18 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
     public bool IsLoading { get; protected set; } = false;
     public bool IsPlaying { get; protected set; } = false;
     public bool IsPaused { get; protected set; } = false;
+    public bool IsBuffering { get; protected set; } = false;
     public double CurrentTime { get; protected set; } = 0;
     public double? Duration { get; protected set; } = null;
     public double Volume { get; protected set; } = 0.8;
+    public bool IsMuted { get; protected set; } = false;
     public double LoadProgress { get; protected set; } = 0;
     public string? ErrorMessage { get; protected set; }
 
     // Events
     public EventCallback? OnStateChanged { get; set; }
     public EventCallback? OnTrackSelected { get; set; }
+    public EventCallback<PlaybackDiagnostics>? OnDiagnostics { get; set; }
 
     protected AudioPlayerService(AudioInteropService audioInterop, TrackMediaClient trackMediaClient)
     {
@@ -40,7 +43,7 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
 
         try
         {
-            var result = await _audioInterop.CreatePlayerAsync(PlayerId);
+            var result = await _audioInterop.CreatePlayerAsync(PlayerId, new AudioPlayerOptions { VolumeTaper = "db" });
             if (!result.Success)
             {
                 ErrorMessage = $"Failed to initialize audio player: {result.Error}";
@@ -50,6 +53,11 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
 
             await _audioInterop.SetOnProgressCallbackAsync(PlayerId, OnProgressCallback);
             await _audioInterop.SetOnEndCallbackAsync(PlayerId, OnPlaybackEndCallback);
+            await _audioInterop.SetOnBufferingCallbackAsync(PlayerId, OnBufferingCallback);
+            await RegisterCallbacksAsync();
+
+            // Offline playback is optional; a failed registration leaves the player working online
+            await _audioInterop.RegisterTrackServiceWorkerAsync(_trackMediaClient.GetApiUrl());
             
             await _audioInterop.SetVolumeAsync(PlayerId, Volume);
             
@@ -327,6 +335,7 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
     public async Task SetVolume(double volume)
     {
         Volume = volume;
+        IsMuted = false; // Changing the volume unmutes
 
         if (IsLoaded)
         {
@@ -351,6 +360,54 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
         await NotifyStateChanged();
     }
 
+    public async Task ToggleMute()
+    {
+        IsMuted = !IsMuted;
+
+        if (IsInitialized) // The player keeps its mute state across tracks
+        {
+            try
+            {
+                var result = await _audioInterop.SetMutedAsync(PlayerId, IsMuted);
+                ErrorMessage = result.Success ? null : $"Mute error: {result.Error}";
+            }
+            catch (Exception ex)
+            {
+                ErrorMessage = $"Error toggling mute: {ex.Message}";
+            }
+        }
+
+        await NotifyStateChanged();
+    }
+
+    public async Task<PlaybackDiagnostics?> GetDiagnosticsAsync()
+    {
+        return IsInitialized ? await _audioInterop.GetDiagnosticsAsync(PlayerId) : null;
+    }
+
+    /// <summary>
+    /// Report diagnostics to OnDiagnostics at the given interval, e.g. for posting to analytics; null stops reporting.
+    /// </summary>
+    public async Task SetDiagnosticsIntervalAsync(TimeSpan? interval)
+    {
+        if (!IsInitialized) return;
+
+        var result = interval.HasValue
+            ? await _audioInterop.SetOnDiagnosticsCallbackAsync(PlayerId, OnDiagnosticsCallback, (int)interval.Value.TotalMilliseconds)
+            : await _audioInterop.SetOnDiagnosticsCallbackAsync(PlayerId, null);
+        if (!result.Success)
+        {
+            ErrorMessage = $"Diagnostics error: {result.Error}";
+            await NotifyStateChanged();
+        }
+    }
+
+    private async Task OnDiagnosticsCallback(PlaybackDiagnostics diagnostics)
+    {
+        if (OnDiagnostics.HasValue)
+            await OnDiagnostics.Value.InvokeAsync(diagnostics);
+    }
+
     public async Task ClearError()
     {
         ErrorMessage = null;
@@ -371,6 +428,17 @@ public abstract class AudioPlayerService : IPlayerService, IAsyncDisposable
         await NotifyStateChanged();
     }
 
+    private async Task OnBufferingCallback(bool isBuffering)
+    {
+        IsBuffering = isBuffering;
+        await NotifyStateChanged();
+    }
+
+
+    /// <summary>
+    /// Register player callbacks specific to a derived service, after the player is created.
+    /// </summary>
+    protected virtual Task RegisterCallbacksAsync() => Task.CompletedTask;
 
     protected async Task EnsureInitializedAsync()
     {
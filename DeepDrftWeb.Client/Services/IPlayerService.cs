@@ -12,15 +12,18 @@ public interface IPlayerService
     bool IsLoading { get; }
     bool IsPlaying { get; }
     bool IsPaused { get; }
+    bool IsBuffering { get; }
     double CurrentTime { get; }
     double? Duration { get; }
     double Volume { get; }
+    bool IsMuted { get; }
     double LoadProgress { get; }
     string? ErrorMessage { get; }
     
     // Events for UI updates
     EventCallback? OnStateChanged { get; set; }
     EventCallback? OnTrackSelected { get; set; }
+    EventCallback<PlaybackDiagnostics>? OnDiagnostics { get; set; }
     
     // Control methods
     Task InitializeAsync();
@@ -30,7 +33,12 @@ public interface IPlayerService
     Task TogglePlayPause();
     Task Seek(double position);
     Task SetVolume(double volume);
+    Task ToggleMute();
     Task ClearError();
+
+    // QoS diagnostics
+    Task<PlaybackDiagnostics?> GetDiagnosticsAsync();
+    Task SetDiagnosticsIntervalAsync(TimeSpan? interval);
 }
 
 public interface IStreamingPlayerService : IPlayerService
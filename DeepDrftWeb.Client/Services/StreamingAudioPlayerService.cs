@@ -25,6 +25,19 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
     public int BufferedChunks { get; private set; } = 0;
     public bool IsSeekingBeyondBuffer { get; private set; } = false;
 
+    /// <summary>
+    /// Play cached track bytes from IndexedDB and write streamed bytes to the cache.
+    /// </summary>
+    public bool UseTrackCache { get; set; } = true;
+
+    /// <summary>
+    /// Let the JS player fetch the track itself and report state events, instead of
+    /// relaying every chunk through interop. The browser then requests the content API
+    /// directly, so the site's origin must be listed in the content API's
+    /// CorsSettings.AllowedOrigins. Set from AudioStreaming:UseDirectStreaming.
+    /// </summary>
+    public bool UseDirectStreaming { get; set; } = false;
+
     private bool _streamingPlaybackStarted = false;
     private CancellationTokenSource? _streamingCancellation;
     private DateTime _lastNotification = DateTime.MinValue;
@@ -85,34 +98,46 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
 
             await NotifyStateChanged();
 
+            if (UseDirectStreaming)
+            {
+                await OpenDirectStream(track.EntryKey);
+                return;
+            }
+
+            // A cached head of the track plays without a request; the server sends the rest
+            if (UseTrackCache && await TryStreamFromCache(track.EntryKey, _streamingCancellation.Token))
+            {
+                return;
+            }
+
             var mediaResult = await _trackMediaClient.GetTrackMedia(track.EntryKey);
             if (!mediaResult.Success)
             {
                 var technicalError = mediaResult.GetMessage();
                 _logger.LogError("Failed to get track media for {TrackId}: {Error}",
                     track.EntryKey, technicalError);
-                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(technicalError);
+                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(AudioErrorCodes.NetworkError);
                 return;
             }
 
             if (mediaResult.Value == null)
             {
-                const string technicalError = "No audio returned from server";
                 _logger.LogError("No audio data returned for track {TrackId}", track.EntryKey);
-                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(technicalError);
+                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(AudioErrorCodes.NetworkError);
                 return;
             }
 
             using var audio = mediaResult.Value;
 
             // Initialize streaming mode with content length
-            var streamingResult = await _audioInterop.InitializeStreaming(PlayerId, audio.ContentLength);
+            var streamingResult = await _audioInterop.InitializeStreaming(PlayerId, audio.ContentLength,
+                UseTrackCache ? track.EntryKey : null);
             if (!streamingResult.Success)
             {
                 var technicalError = $"Failed to initialize streaming: {streamingResult.Error}";
                 _logger.LogError("Streaming initialization failed for track {TrackId}: {Error}",
                     track.EntryKey, technicalError);
-                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(technicalError);
+                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(streamingResult.Code);
                 return;
             }
 
@@ -128,7 +153,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
         catch (Exception ex)
         {
             StreamingErrorHandler.LogError(_logger, ex, "LoadTrackStreaming", track.EntryKey);
-            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex.Message);
+            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex);
             LoadProgress = 0;
             IsLoaded = false;
             IsStreamingMode = false;
@@ -140,12 +165,180 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
         }
     }
 
-    private async Task StreamAudioWithEarlyPlayback(TrackMediaResponse audio, CancellationToken cancellationToken)
+    /// <summary>
+    /// Hand the track URL to the JS player; progress arrives through OnStreamState.
+    /// </summary>
+    private async Task OpenDirectStream(string entryKey)
+    {
+        var options = new OpenStreamOptions { CacheKey = UseTrackCache ? entryKey : null };
+        var result = await _audioInterop.OpenStream(PlayerId, _trackMediaClient.GetTrackUrl(entryKey), options);
+        if (!result.Success)
+        {
+            var technicalError = $"Failed to open stream: {result.Error}";
+            _logger.LogError("Direct stream failed for track {TrackId}: {Error}", entryKey, technicalError);
+            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(result.Code);
+            IsStreamingMode = false;
+        }
+    }
+
+    protected override async Task RegisterCallbacksAsync()
+    {
+        await _audioInterop.SetOnStreamStateCallbackAsync(PlayerId, OnStreamState);
+        await _audioInterop.SetOnErrorCallbackAsync(PlayerId, OnPlayerError);
+        await _audioInterop.ConfigureLoggingAsync(new LoggingOptions { ForwardLevel = "warn" }, OnJsLog);
+    }
+
+    private Task OnJsLog(AudioLogEntry entry)
+    {
+        var level = entry.Level == "error" ? LogLevel.Error : LogLevel.Warning;
+        _logger.Log(level, "[JS {Namespace}] {Message}", entry.Namespace, entry.Message);
+        return Task.CompletedTask;
+    }
+
+    private async Task OnPlayerError(AudioErrorEvent error)
+    {
+        if (error.Source == "decode")
+        {
+            // Decode failures skip a segment and playback carries on
+            _logger.LogWarning("Audio player decode error {Code}: {Message}", error.Code, error.Message);
+            return;
+        }
+
+        if (error.Retry is { Fatal: false } retry)
+        {
+            _logger.LogWarning("Direct stream interrupted at {Bytes} bytes ({Code}: {Message}), retry {Attempt}/{MaxRetries} in {Delay}ms",
+                retry.BytesReceived, error.Code, error.Message, retry.Attempt, retry.MaxRetries, retry.RetryInMs);
+            return;
+        }
+
+        if (error.Retry != null)
+        {
+            _logger.LogError("Direct stream failed after {Attempt} attempts ({Code}): {Message}",
+                error.Retry.Attempt, error.Code, error.Message);
+        }
+        else
+        {
+            _logger.LogError("Audio player {Source} error {Code}: {Message}", error.Source, error.Code, error.Message);
+        }
+        ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(error.Code);
+        await NotifyStateChanged();
+    }
+
+    private async Task OnStreamState(StreamStateEvent streamState)
+    {
+        if (!IsStreamingMode) return;
+
+        if (streamState.TotalBytes > 0)
+        {
+            LoadProgress = Math.Min(1.0, (double)streamState.BytesLoaded / streamState.TotalBytes);
+        }
+
+        if (streamState.Duration > 0 && Duration == null)
+        {
+            Duration = streamState.Duration;
+        }
+
+        if (streamState.PlaybackStarted && !_streamingPlaybackStarted)
+        {
+            _streamingPlaybackStarted = true;
+            CanStartStreaming = true;
+            IsPlaying = true;
+            IsPaused = false;
+            IsLoaded = true; // Track is loaded and ready to play (even if still downloading)
+            ErrorMessage = null;
+        }
+        else if (!streamState.PlaybackStarted)
+        {
+            _streamingPlaybackStarted = false;
+        }
+
+        switch (streamState.State)
+        {
+            case "complete":
+                LoadProgress = 1.0;
+                break;
+            case "error":
+                // The error event that follows carries the code and sets ErrorMessage
+                _logger.LogDebug("Direct stream stopped: {Error}", streamState.Error);
+                break;
+            case "streaming":
+                await ThrottledNotifyStateChanged();
+                return;
+        }
+
+        await NotifyStateChanged();
+    }
+
+    /// <summary>
+    /// Stream the cached start of a track, then continue from the server after the cached bytes.
+    /// Returns false when the cache holds nothing from the start of the track.
+    /// </summary>
+    private async Task<bool> TryStreamFromCache(string entryKey, CancellationToken cancellationToken)
+    {
+        var initResult = await _audioInterop.InitializeStreaming(PlayerId, 0, entryKey);
+        var head = initResult.CachedRanges.FirstOrDefault();
+        if (!initResult.Success || head == null || head.Start != 0)
+        {
+            return false;
+        }
+
+        _logger.LogInformation("Playing {Bytes} cached bytes of {Total} for track {TrackId}",
+            head.End, initResult.TotalStreamLength, entryKey);
+
+        long cachedBytesRead = 0;
+        while (true)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var chunkResult = await _audioInterop.ProcessCachedChunk(PlayerId, MaxBufferSize);
+            if (!chunkResult.Success)
+            {
+                throw new StreamingException(chunkResult.Code ?? AudioErrorCodes.Unknown, $"Failed to process cached chunk: {chunkResult.Error}");
+            }
+            if (chunkResult.BytesRead == 0) break;
+
+            cachedBytesRead += chunkResult.BytesRead;
+            await ApplyChunkResult(chunkResult);
+
+            LoadProgress = Math.Min(1.0, (double)cachedBytesRead / initResult.TotalStreamLength);
+            await ThrottledNotifyStateChanged();
+        }
+
+        if (cachedBytesRead >= initResult.TotalStreamLength)
+        {
+            LoadProgress = 1.0;
+            await NotifyStateChanged();
+            return true;
+        }
+
+        var continuation = await _audioInterop.ContinueStream(PlayerId);
+        if (!continuation.Success)
+        {
+            throw new StreamingException(continuation.Code ?? AudioErrorCodes.Unknown, $"Failed to continue stream: {continuation.Error}");
+        }
+
+        var mediaResult = await _trackMediaClient.GetTrackMedia(entryKey, continuation.ByteOffset);
+        if (!mediaResult.Success || mediaResult.Value == null)
+        {
+            throw new StreamingException(AudioErrorCodes.NetworkError, mediaResult.GetMessage() ?? "No audio returned from server");
+        }
+
+        using var audio = mediaResult.Value;
+        await StreamAudioWithEarlyPlayback(audio, cancellationToken, initResult.TotalStreamLength);
+        return true;
+    }
+
+    /// <summary>
+    /// Stream audio chunks to the player. totalLength is the full track length when the
+    /// stream continues after bytes already loaded, for load progress.
+    /// </summary>
+    private async Task StreamAudioWithEarlyPlayback(TrackMediaResponse audio, CancellationToken cancellationToken, long totalLength = 0)
     {
         byte[]? buffer = null;
         try
         {
-            long totalBytesRead = 0;
+            var progressLength = totalLength > 0 ? totalLength : audio.ContentLength;
+            long totalBytesRead = Math.Max(0, progressLength - audio.ContentLength);
             buffer = ArrayPool<byte>.Shared.Rent(MaxBufferSize); // Rent larger buffer to accommodate adaptive sizing
             int currentBytes;
             var readTimer = System.Diagnostics.Stopwatch.StartNew();
@@ -172,46 +365,15 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
                     {
                         var error = $"Failed to process streaming chunk: {chunkResult.Error}";
                         _logger.LogWarning("Chunk processing failed: {Error}", error);
-                        throw new Exception(error);
+                        throw new StreamingException(chunkResult.Code ?? AudioErrorCodes.Unknown, error);
                     }
-                    
-                    // Update streaming state
-                    CanStartStreaming = chunkResult.CanStartStreaming;
-                    HeaderParsed = chunkResult.HeaderParsed;
-                    BufferedChunks = chunkResult.BufferCount;
 
-                    // Set duration from WAV header when available (only set once)
-                    if (chunkResult.Duration.HasValue && Duration == null)
-                    {
-                        Duration = chunkResult.Duration.Value;
-                        _logger.LogInformation("Duration set from WAV header: {Duration:F2} seconds", Duration);
-                    }
-                    
-                    // Start playback as soon as we can
-                    if (!_streamingPlaybackStarted && CanStartStreaming)
-                    {
-                        var playbackResult = await _audioInterop.StartStreamingPlayback(PlayerId);
-                        if (playbackResult.Success)
-                        {
-                            _streamingPlaybackStarted = true;
-                            IsPlaying = true;
-                            IsPaused = false;
-                            IsLoaded = true; // Track is loaded and ready to play (even if still downloading)
-                            ErrorMessage = null;
-                            await NotifyStateChanged(); // Immediate notification for critical state change
-                        }
-                        else
-                        {
-                            var technicalError = $"Failed to start streaming playback: {playbackResult.Error}";
-                            _logger.LogError("Failed to start playback: {Error}", technicalError);
-                            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(technicalError);
-                        }
-                    }
+                    await ApplyChunkResult(chunkResult);
                     
                     // Update progress
-                    if (audio.ContentLength > 0)
+                    if (progressLength > 0)
                     {
-                        LoadProgress = Math.Min(1.0, (double)totalBytesRead / audio.ContentLength);
+                        LoadProgress = Math.Min(1.0, (double)totalBytesRead / progressLength);
                     }
                     
                     await ThrottledNotifyStateChanged();
@@ -225,7 +387,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
         catch (Exception ex)
         {
             StreamingErrorHandler.LogError(_logger, ex, "StreamAudioWithEarlyPlayback");
-            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex.Message);
+            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex);
             LoadProgress = 0;
             IsLoaded = false;
             IsStreamingMode = false;
@@ -241,6 +403,42 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
         }
     }
 
+    /// <summary>
+    /// Update streaming state from a processed chunk and start playback as soon as we can.
+    /// </summary>
+    private async Task ApplyChunkResult(StreamingResult chunkResult)
+    {
+        CanStartStreaming = chunkResult.CanStartStreaming;
+        HeaderParsed = chunkResult.HeaderParsed;
+        BufferedChunks = chunkResult.BufferCount;
+
+        // Set duration from WAV header when available (only set once)
+        if (chunkResult.Duration.HasValue && Duration == null)
+        {
+            Duration = chunkResult.Duration.Value;
+            _logger.LogInformation("Duration set from WAV header: {Duration:F2} seconds", Duration);
+        }
+
+        if (_streamingPlaybackStarted || !CanStartStreaming) return;
+
+        var playbackResult = await _audioInterop.StartStreamingPlayback(PlayerId);
+        if (playbackResult.Success)
+        {
+            _streamingPlaybackStarted = true;
+            IsPlaying = true;
+            IsPaused = false;
+            IsLoaded = true; // Track is loaded and ready to play (even if still downloading)
+            ErrorMessage = null;
+            await NotifyStateChanged(); // Immediate notification for critical state change
+        }
+        else
+        {
+            var technicalError = $"Failed to start streaming playback: {playbackResult.Error}";
+            _logger.LogError("Failed to start playback: {Error}", technicalError);
+            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(playbackResult.Code);
+        }
+    }
+
     /// <summary>
     /// In streaming mode, Stop fully resets to Idle state since audio data is consumed.
     /// This is equivalent to Unload for streaming playback.
@@ -272,7 +470,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
 
             if (result.Success)
             {
-                if (result.SeekBeyondBuffer && result.ByteOffset > 0)
+                if (result.SeekBeyondBuffer && result.ByteOffset >= 0)
                 {
                     // Need to load new stream from offset
                     _logger.LogInformation("Seeking beyond buffer to {Position:F2}s, byte offset: {ByteOffset}",
@@ -331,7 +529,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
             {
                 var technicalError = mediaResult.GetMessage() ?? "Failed to load audio from position";
                 _logger.LogError("Failed to get track media from offset {Offset}: {Error}", byteOffset, technicalError);
-                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(technicalError);
+                ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(AudioErrorCodes.NetworkError);
                 IsSeekingBeyondBuffer = false;
                 return;
             }
@@ -339,7 +537,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
             using var audio = mediaResult.Value;
 
             // Reinitialize JS player for offset streaming
-            var reinitResult = await _audioInterop.ReinitializeFromOffset(PlayerId, audio.ContentLength, seekPosition);
+            var reinitResult = await _audioInterop.ReinitializeFromOffset(PlayerId, audio.ContentLength, seekPosition, byteOffset);
             if (!reinitResult.Success)
             {
                 _logger.LogError("Failed to reinitialize for offset streaming: {Error}", reinitResult.Error);
@@ -368,7 +566,7 @@ public class StreamingAudioPlayerService : AudioPlayerService, IStreamingPlayerS
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error during seek beyond buffer to position {Position}", seekPosition);
-            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex.Message);
+            ErrorMessage = StreamingErrorHandler.GetUserFriendlyMessage(ex);
             IsSeekingBeyondBuffer = false;
             await NotifyStateChanged();
         }
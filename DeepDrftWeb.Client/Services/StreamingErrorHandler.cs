@@ -4,27 +4,66 @@ namespace DeepDrftWeb.Client.Services;
 
 public static class StreamingErrorHandler
 {
-    public static string GetUserFriendlyMessage(string technicalError)
+    /// <summary>
+    /// Message for a failure, chosen by its AudioErrorCodes code.
+    /// </summary>
+    public static string GetUserFriendlyMessage(string? code)
     {
-        var lowerError = technicalError.ToLowerInvariant();
-        
-        return lowerError switch
+        return code switch
         {
-            _ when lowerError.Contains("network") || lowerError.Contains("connection") || lowerError.Contains("timeout") => 
+            AudioErrorCodes.NetworkError or AudioErrorCodes.HttpError or AudioErrorCodes.Stalled or AudioErrorCodes.DecodeTimeout =>
                 "Unable to load audio. Please check your connection and try again.",
-            
-            _ when lowerError.Contains("audio") || lowerError.Contains("decode") || lowerError.Contains("format") => 
+
+            AudioErrorCodes.InvalidHeader or AudioErrorCodes.UnsupportedFormat or AudioErrorCodes.DecodeFailed =>
                 "This audio file may be corrupted or in an unsupported format.",
-            
-            _ when lowerError.Contains("cancel") || lowerError.Contains("abort") => 
+
+            AudioErrorCodes.ContextSuspended =>
+                "Audio is blocked by the browser. Press play to start playback.",
+
+            AudioErrorCodes.NotSupported =>
+                "This browser does not support audio playback.",
+
+            AudioErrorCodes.Aborted =>
                 "Audio loading was cancelled.",
-            
+
             _ => "Unable to play audio. Please try again."
         };
     }
-    
+
+    /// <summary>
+    /// Message for an exception caught while streaming, by the code it carries or its type.
+    /// </summary>
+    public static string GetUserFriendlyMessage(Exception exception)
+    {
+        return GetUserFriendlyMessage(GetErrorCode(exception));
+    }
+
+    public static string GetErrorCode(Exception exception)
+    {
+        return exception switch
+        {
+            StreamingException streaming => streaming.Code,
+            HttpRequestException or IOException or TimeoutException => AudioErrorCodes.NetworkError,
+            OperationCanceledException => AudioErrorCodes.Aborted,
+            _ => AudioErrorCodes.Unknown
+        };
+    }
+
     public static void LogError(ILogger logger, Exception ex, string operation, string trackId = "")
     {
         logger.LogError(ex, "Streaming error in {Operation} for track {TrackId}", operation, trackId);
     }
-}
\ No newline at end of file
+}
+
+/// <summary>
+/// Streaming failure carrying one of AudioErrorCodes, so the message shown does not depend on the error text.
+/// </summary>
+public class StreamingException : Exception
+{
+    public string Code { get; }
+
+    public StreamingException(string code, string message) : base(message)
+    {
+        Code = code;
+    }
+}
@@ -3,77 +3,175 @@
  *
  * Single Responsibility: AudioContext lifecycle and audio routing.
  *
- * Audio chain: Source → GainNode → AnalyserNode → destination
+ * Audio chain: Source → TrackGain (per scheduler) → GainNode → TransportGain → TimeStretcher → InsertChain
+ *              → AnalyserNode → destination
+ * GainNode carries the user volume through a taper (linear, dB range or cubic); TransportGain the
+ * short declicking fades around pause and seek, ahead of the TimeStretcher's latency so they stay
+ * intact; TimeStretcher undoes the pitch change of playback rates.
+ * Volume, the time stretch settings and the insert chain (EQ, then the true-peak limiter) survive
+ * context recreation.
  */
 
 import { SpectrumAnalyzer } from './SpectrumAnalyzer.js';
+import { InsertChain } from './InsertChain.js';
+import { ParametricEqualizer } from './ParametricEqualizer.js';
+import { TruePeakLimiter } from './TruePeakLimiter.js';
+import { TimeStretcher } from './TimeStretcher.js';
+import { AudioError } from './AudioError.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('AudioContextManager');
+
+export type VolumeTaper = 'linear' | 'db' | 'cubic';
+
+export interface VolumeCurve {
+    taper: VolumeTaper;
+    minDb: number;          // Gain at the bottom of the slider for the 'db' taper; 0 is always silent
+}
+
+const volumeTapers: VolumeTaper[] = ['linear', 'db', 'cubic'];
+const VOLUME_RAMP_SEGMENTS = 16;    // Linear pieces a volume ramp follows the taper with
 
 export class AudioContextManager {
     private audioContext: AudioContext | null = null;
     private gainNode: GainNode | null = null;
+    private transportGain: GainNode | null = null;
+    private volume: number = 1;             // Target slider value, reported instead of a mid-ramp gain value
+    private muted: boolean = false;
+    private volumeCurve: VolumeCurve = { taper: 'linear', minDb: -60 };
     private spectrumAnalyzer: SpectrumAnalyzer;
+    private insertChain: InsertChain;
+    private equalizer: ParametricEqualizer;
+    private limiter: TruePeakLimiter;
+    private timeStretcher: TimeStretcher;
+    private workletModules: string[] = [];
 
     constructor() {
         this.spectrumAnalyzer = new SpectrumAnalyzer();
+        this.insertChain = new InsertChain();
+        this.equalizer = new ParametricEqualizer();
+        this.limiter = new TruePeakLimiter();
+        this.timeStretcher = new TimeStretcher();
+        this.insertChain.add(this.equalizer);
+        this.insertChain.add(this.limiter);
     }
 
     async initialize(sampleRate: number = 44100): Promise<void> {
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         if (!AudioContextClass) {
-            throw new Error('Web Audio API not supported');
+            throw new AudioError('NOT_SUPPORTED', 'Web Audio API not supported');
         }
 
         this.audioContext = new AudioContextClass({ sampleRate });
         this.gainNode = this.audioContext.createGain();
+        this.gainNode.gain.value = this.muted ? 0 : this.volumeToGain(this.volume);
+        this.transportGain = this.audioContext.createGain();
+
+        // Worklet modules are per-context, so reload them whenever the context is (re)created
+        for (const moduleUrl of this.workletModules) {
+            await this.audioContext.audioWorklet.addModule(moduleUrl);
+        }
+        await this.loadOptionalModules(this.audioContext);
 
-        // Initialize spectrum analyzer and insert into chain
-        // Chain: Source → GainNode → AnalyserNode → destination
+        // Chain: Source → GainNode → TransportGain → TimeStretcher → inserts → AnalyserNode → destination
+        const stretch = this.timeStretcher.build(this.audioContext);
+        const inserts = this.insertChain.initialize(this.audioContext);
         const analyserNode = this.spectrumAnalyzer.initialize(this.audioContext);
-        this.gainNode.connect(analyserNode);
+        this.gainNode.connect(this.transportGain);
+        this.transportGain.connect(stretch);
+        stretch.connect(inserts.input);
+        inserts.output.connect(analyserNode);
         analyserNode.connect(this.audioContext.destination);
 
-        console.log(`AudioContext initialized: sampleRate=${this.audioContext.sampleRate}Hz, state=${this.audioContext.state}`);
+        log.info(`AudioContext initialized: sampleRate=${this.audioContext.sampleRate}Hz, state=${this.audioContext.state}`);
+    }
+
+    /**
+     * Register an AudioWorklet module; loaded now if a context exists and on every recreation
+     */
+    async addWorkletModule(moduleUrl: string): Promise<void> {
+        if (!this.workletModules.includes(moduleUrl)) {
+            this.workletModules.push(moduleUrl);
+        }
+        if (this.audioContext) {
+            await this.audioContext.audioWorklet.addModule(moduleUrl);
+        }
+    }
+
+    /**
+     * The limiter and time stretch are optional: without their modules they build as pass-throughs
+     */
+    private async loadOptionalModules(context: AudioContext): Promise<void> {
+        if (!AudioContextManager.supportsAudioWorklet()) return;
+        const modules = [
+            { url: TruePeakLimiter.moduleUrl, name: 'true-peak limiter' },
+            { url: TimeStretcher.moduleUrl, name: 'time stretch' }
+        ];
+        for (const worklet of modules) {
+            try {
+                await context.audioWorklet.addModule(worklet.url);
+            } catch (error) {
+                log.warn(`Failed to load the ${worklet.name} module`, error);
+            }
+        }
+    }
+
+    static supportsAudioWorklet(): boolean {
+        return typeof AudioWorkletNode !== 'undefined';
     }
 
     async ensureReady(): Promise<void> {
         if (!this.audioContext) {
-            throw new Error('AudioContext not initialized');
+            throw new AudioError('NOT_INITIALIZED', 'AudioContext not initialized');
         }
         if (this.audioContext.state === 'suspended') {
-            console.log('🔊 Resuming AudioContext');
+            log.debug('🔊 Resuming AudioContext');
             await this.audioContext.resume();
-            console.log(`✅ AudioContext resumed: state=${this.audioContext.state}`);
+            log.info(`✅ AudioContext resumed: state=${this.audioContext.state}`);
+        }
+        if (this.audioContext.state === 'suspended') {
+            // Browsers keep the context suspended until a user gesture allows audio
+            throw new AudioError('CONTEXT_SUSPENDED', `AudioContext is ${this.audioContext.state}`);
         }
     }
 
     async recreateWithSampleRate(sampleRate: number): Promise<void> {
         if (!this.audioContext) {
-            throw new Error('AudioContext not initialized');
+            throw new AudioError('NOT_INITIALIZED', 'AudioContext not initialized');
         }
 
         if (this.audioContext.sampleRate === sampleRate) {
             return; // Already correct sample rate
         }
 
-        console.log(`🔄 Recreating AudioContext: ${this.audioContext.sampleRate}Hz -> ${sampleRate}Hz`);
+        log.info(`🔄 Recreating AudioContext: ${this.audioContext.sampleRate}Hz -> ${sampleRate}Hz`);
         await this.audioContext.close();
         await this.initialize(sampleRate);
     }
 
     getContext(): AudioContext {
         if (!this.audioContext) {
-            throw new Error('AudioContext not initialized');
+            throw new AudioError('NOT_INITIALIZED', 'AudioContext not initialized');
         }
         return this.audioContext;
     }
 
     getGainNode(): GainNode {
         if (!this.gainNode) {
-            throw new Error('GainNode not initialized');
+            throw new AudioError('NOT_INITIALIZED', 'GainNode not initialized');
         }
         return this.gainNode;
     }
 
+    /**
+     * Create a per-track gain stage feeding the master GainNode (used for crossfades)
+     */
+    createTrackGain(): GainNode {
+        const trackGain = this.getContext().createGain();
+        trackGain.connect(this.getGainNode());
+        return trackGain;
+    }
+
     get currentTime(): number {
         return this.audioContext?.currentTime ?? 0;
     }
@@ -86,27 +184,176 @@ export class AudioContextManager {
         return this.audioContext?.state ?? 'uninitialized';
     }
 
-    setVolume(volume: number): void {
-        if (!this.gainNode || !this.audioContext) return;
-        const clampedVolume = Math.max(0, Math.min(1, volume));
-        this.gainNode.gain.setValueAtTime(clampedVolume, this.audioContext.currentTime);
+    /**
+     * Set the volume slider value (0-1), ramping over rampSeconds; also unmutes
+     */
+    setVolume(volume: number, rampSeconds: number = 0): void {
+        this.volume = Math.max(0, Math.min(1, volume));
+        this.muted = false;
+        this.rampVolume(this.volume, rampSeconds);
     }
 
+    /**
+     * Target slider value, even while a ramp towards it is running
+     */
     getVolume(): number {
-        return this.gainNode?.gain.value ?? 0;
+        return this.volume;
+    }
+
+    /**
+     * Effective target gain in dB after the taper and mute; null when silent
+     */
+    getGainDb(): number | null {
+        const gain = this.muted ? 0 : this.volumeToGain(this.volume);
+        return gain > 0 ? 20 * Math.log10(gain) : null;
+    }
+
+    /**
+     * Silence the output and restore the remembered volume on unmute
+     */
+    setMuted(muted: boolean, rampSeconds: number = 0): void {
+        this.muted = muted;
+        this.rampVolume(muted ? 0 : this.volume, rampSeconds);
+    }
+
+    /**
+     * Choose how the slider value maps to gain; the current volume moves to the new curve
+     */
+    setVolumeCurve(curve: VolumeCurve, rampSeconds: number = 0): void {
+        if (!volumeTapers.includes(curve.taper)) {
+            throw new AudioError('INVALID_ARGUMENT', `Invalid volume taper '${curve.taper}'`);
+        }
+        if (!Number.isFinite(curve.minDb) || curve.minDb < -120 || curve.minDb > -10) {
+            throw new AudioError('INVALID_ARGUMENT', 'Volume range must bottom out at -120 to -10 dB');
+        }
+
+        this.volumeCurve = { ...curve };
+        this.rampVolume(this.muted ? 0 : this.volume, rampSeconds);
+        log.info(`🔊 Volume taper: ${curve.taper}${curve.taper === 'db' ? ` (${curve.minDb} dB to 0 dB)` : ''}`);
+    }
+
+    getVolumeCurve(): VolumeCurve {
+        return { ...this.volumeCurve };
+    }
+
+    isMuted(): boolean {
+        return this.muted;
+    }
+
+    /**
+     * Ramp the transport gain to a level, starting from `from` when given (e.g. 0 for a fade-in)
+     */
+    rampTransportGain(target: number, rampSeconds: number, from?: number): void {
+        this.rampGain(this.transportGain, target, rampSeconds, from);
+    }
+
+    /**
+     * Ramp the master gain to a slider value along the taper, so fades sound even across the range
+     */
+    private rampVolume(target: number, rampSeconds: number): void {
+        if (!this.gainNode || !this.audioContext || rampSeconds <= 0) {
+            this.rampGain(this.gainNode, this.volumeToGain(target), 0);
+            return;
+        }
+
+        const gain = this.gainNode.gain;
+        const now = this.audioContext.currentTime;
+        const from = this.gainToVolume(gain.value);     // Slider position now, also mid-ramp
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        for (let segment = 1; segment <= VOLUME_RAMP_SEGMENTS; segment++) {
+            const progress = segment / VOLUME_RAMP_SEGMENTS;
+            gain.linearRampToValueAtTime(this.volumeToGain(from + (target - from) * progress), now + rampSeconds * progress);
+        }
+    }
+
+    private volumeToGain(volume: number): number {
+        switch (this.volumeCurve.taper) {
+            case 'db':
+                return volume > 0 ? Math.pow(10, this.volumeCurve.minDb * (1 - volume) / 20) : 0;
+            case 'cubic':
+                return volume * volume * volume;
+            default:
+                return volume;
+        }
+    }
+
+    private gainToVolume(gain: number): number {
+        if (gain <= 0) return 0;
+        switch (this.volumeCurve.taper) {
+            case 'db':
+                return Math.max(0, Math.min(1, 1 - 20 * Math.log10(gain) / this.volumeCurve.minDb));
+            case 'cubic':
+                return Math.min(1, Math.cbrt(gain));
+            default:
+                return Math.min(1, gain);
+        }
+    }
+
+    /**
+     * Linear ramp from the gain's current value (or `from`); a new ramp replaces one still running
+     */
+    private rampGain(node: GainNode | null, target: number, rampSeconds: number, from?: number): void {
+        if (!node || !this.audioContext) return;
+        const gain = node.gain;
+        const now = this.audioContext.currentTime;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(from ?? gain.value, now);
+        if (rampSeconds > 0) {
+            gain.linearRampToValueAtTime(target, now + rampSeconds);
+        } else {
+            gain.setValueAtTime(target, now);
+        }
     }
 
     async decodeAudioData(buffer: ArrayBuffer): Promise<AudioBuffer> {
         if (!this.audioContext) {
-            throw new Error('AudioContext not initialized');
+            throw new AudioError('NOT_INITIALIZED', 'AudioContext not initialized');
         }
         return this.audioContext.decodeAudioData(buffer);
     }
 
+    /**
+     * Build an AudioBuffer directly from planar channel data (bypasses decodeAudioData)
+     */
+    createAudioBuffer(channels: Float32Array<ArrayBuffer>[], sampleRate: number): AudioBuffer {
+        if (!this.audioContext) {
+            throw new AudioError('NOT_INITIALIZED', 'AudioContext not initialized');
+        }
+        const buffer = this.audioContext.createBuffer(channels.length, channels[0].length, sampleRate);
+        channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+        return buffer;
+    }
+
+    /**
+     * Copy of a buffer without its first startFrame frames
+     */
+    sliceAudioBuffer(buffer: AudioBuffer, startFrame: number): AudioBuffer {
+        const channels = Array.from({ length: buffer.numberOfChannels },
+            (_, channel) => buffer.getChannelData(channel).slice(startFrame));
+        return this.createAudioBuffer(channels, buffer.sampleRate);
+    }
+
     getSpectrumAnalyzer(): SpectrumAnalyzer {
         return this.spectrumAnalyzer;
     }
 
+    getInsertChain(): InsertChain {
+        return this.insertChain;
+    }
+
+    getEqualizer(): ParametricEqualizer {
+        return this.equalizer;
+    }
+
+    getLimiter(): TruePeakLimiter {
+        return this.limiter;
+    }
+
+    getTimeStretcher(): TimeStretcher {
+        return this.timeStretcher;
+    }
+
     dispose(): void {
         this.spectrumAnalyzer.dispose();
         if (this.audioContext && this.audioContext.state !== 'closed') {
@@ -114,5 +361,6 @@ export class AudioContextManager {
         }
         this.audioContext = null;
         this.gainNode = null;
+        this.transportGain = null;
     }
 }
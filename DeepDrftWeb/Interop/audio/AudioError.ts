@@ -0,0 +1,98 @@
+/**
+ * AudioError - Error codes for player failures.
+ *
+ * Single Responsibility: Give every failure a stable code that .NET can switch on instead of
+ * matching message strings, both in failed AudioResults and in asynchronous error events.
+ */
+
+import { StreamFetchError } from './StreamFetcher.js';
+
+export type AudioErrorCode =
+    | 'PLAYER_NOT_FOUND'        // No player with the given ID
+    | 'NOT_INITIALIZED'         // AudioContext not created yet
+    | 'NOT_SUPPORTED'           // Browser lacks a required API (Web Audio, IndexedDB)
+    | 'INVALID_HEADER'          // Stream header present but unreadable
+    | 'UNSUPPORTED_FORMAT'      // Stream is not a format the player decodes
+    | 'DECODE_FAILED'           // A segment failed to decode
+    | 'DECODE_TIMEOUT'          // A segment took too long to decode
+    | 'CONTEXT_SUSPENDED'       // AudioContext could not be resumed (no user gesture yet)
+    | 'SEEK_OUT_OF_RANGE'       // Seek target outside the track
+    | 'INVALID_ARGUMENT'
+    | 'INVALID_STATE'           // Operation not valid in the current player state
+    | 'NOT_FOUND'               // Requested item (cached track, chapter, next track) does not exist
+    | 'NETWORK_ERROR'           // Connection failed or dropped mid-stream
+    | 'HTTP_ERROR'              // Server answered with an error status
+    | 'STALLED'                 // No stream data arrived within the stall timeout
+    | 'ABORTED'                 // Superseded by a newer stream or track
+    | 'UNKNOWN';
+
+export class AudioError extends Error {
+    readonly code: AudioErrorCode;
+
+    constructor(code: AudioErrorCode, message: string) {
+        super(message);
+        this.code = code;
+    }
+
+    /**
+     * Rethrow a failed result, keeping its code
+     */
+    static fromResult(result: { error?: string; code?: AudioErrorCode }): AudioError {
+        return new AudioError(result.code ?? 'UNKNOWN', result.error ?? 'Unknown error');
+    }
+}
+
+export interface AudioErrorEvent {
+    code: AudioErrorCode;
+    message: string;
+    source: 'decode' | 'stream' | 'playback';
+    retry: StreamRetryInfo | null;  // Stream transfer failures; null for other errors
+}
+
+export interface StreamRetryInfo {
+    httpStatus: number | null;
+    attempt: number;                // Retry about to be made (1-based); the failed attempt when fatal
+    maxRetries: number;
+    retryInMs: number | null;       // Backoff before the retry, null when fatal
+    fatal: boolean;                 // No more retries; the stream has stopped
+    bytesReceived: number;          // Stream bytes received so far; the retry resumes after them
+}
+
+export interface AudioFailure {
+    success: false;
+    error: string;
+    code: AudioErrorCode;
+}
+
+export function failure(code: AudioErrorCode, message: string): AudioFailure {
+    return { success: false, error: message, code };
+}
+
+/**
+ * Failed result for a caught error, keeping the code of AudioErrors and recognizable
+ * browser exceptions; anything else gets the fallback code
+ */
+export function errorResult(error: unknown, fallback: AudioErrorCode = 'UNKNOWN'): AudioFailure {
+    const message = error instanceof Error ? error.message : String(error);
+    return failure(getErrorCode(error, fallback), message);
+}
+
+export function getErrorCode(error: unknown, fallback: AudioErrorCode = 'UNKNOWN'): AudioErrorCode {
+    if (error instanceof AudioError) return error.code;
+    if (error instanceof StreamFetchError) {
+        switch (error.kind) {
+            case 'http': return 'HTTP_ERROR';
+            case 'stalled': return 'STALLED';
+            default: return 'NETWORK_ERROR';
+        }
+    }
+    if (error instanceof DOMException) {
+        switch (error.name) {
+            case 'AbortError': return 'ABORTED';
+            case 'EncodingError': return 'DECODE_FAILED';
+            case 'NotSupportedError': return 'UNSUPPORTED_FORMAT';
+            case 'InvalidStateError': return 'INVALID_STATE';
+        }
+    }
+    return fallback;
+}
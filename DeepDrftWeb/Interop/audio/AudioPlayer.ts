@@ -3,17 +3,46 @@
  *
  * Composes specialized managers following Single Responsibility Principle:
  * - AudioContextManager: Web Audio API context and routing
- * - StreamDecoder: WAV parsing and decoding
- * - PlaybackScheduler: Buffer storage and playback scheduling
+ * - StreamDecoder: Stream parsing and decoding - WAV (PCM via PcmDecoder worker), FLAC, Opus, MP3
+ * - PlaybackEngine: Buffer storage and playback - PlaybackScheduler (default) or WorkletPlaybackEngine
+ * - StartThreshold: When buffered audio and the arrival rate allow streaming playback to start
+ * - BufferedRangeMap: Audio downloaded outside the engine's active range, kept across seeks
+ * - TrackChunkCache: Raw stream bytes persisted in IndexedDB across sessions (optional)
+ * - StreamFetcher: Track bytes pulled over fetch for openStream, instead of pushed from Blazor
+ * - LoudnessNormalizer: Per-track loudness (server metadata or estimate) and normalization gain
  */
 
-import { AudioContextManager } from './AudioContextManager.js';
+import { AudioContextManager, VolumeTaper } from './AudioContextManager.js';
 import { StreamDecoder } from './StreamDecoder.js';
 import { PlaybackScheduler } from './PlaybackScheduler.js';
+import { WorkletPlaybackEngine } from './WorkletPlaybackEngine.js';
+import { PlaybackEngine, PlaybackEngineType } from './PlaybackEngine.js';
+import { PcmDecoder } from './PcmDecoder.js';
+import { StartThreshold } from './StartThreshold.js';
+import { BufferedRange, BufferedRangeMap, StoredRange } from './BufferedRangeMap.js';
+import { CachedRange, CachedTrackRanges, TrackChunkCache } from './TrackChunkCache.js';
+import { StreamFetchError, StreamFetcher } from './StreamFetcher.js';
+import { AudioError, AudioErrorCode, AudioErrorEvent, StreamRetryInfo, errorResult, failure, getErrorCode } from './AudioError.js';
+import { WavBroadcastExtension, WavUtils } from '../wavutils.js';
+import { createLogger } from './Logger.js';
+import { DiagnosticsCollector, PlaybackDiagnostics } from './DiagnosticsCollector.js';
+import { InsertInfo } from './InsertChain.js';
+import { EqBand, EqBandSettings } from './ParametricEqualizer.js';
+import {
+    defaultNormalizationSettings,
+    LoudnessInfo,
+    LoudnessNormalizer,
+    NormalizationOptions,
+    NormalizationSettings,
+    NormalizationState
+} from './LoudnessNormalizer.js';
+
+const log = createLogger('AudioPlayer');
 
 export interface AudioResult {
     success: boolean;
     error?: string;
+    code?: AudioErrorCode;          // Set on failure
     seekBeyondBuffer?: boolean;
     byteOffset?: number;
 }
@@ -25,25 +54,139 @@ export interface StreamingResult extends AudioResult {
     duration?: number;
 }
 
+export interface StreamingInitResult extends AudioResult {
+    totalStreamLength?: number;     // Stream length used, from the cache when none was given
+    cachedRanges?: CachedRange[];   // File byte ranges of the track already in the cache
+}
+
+export interface CachedChunkResult extends StreamingResult {
+    bytesRead?: number;             // 0 once the cached data at the stream position runs out
+}
+
+export interface EqBandResult extends AudioResult {
+    bandId?: string;
+}
+
+export interface StreamContinuation extends AudioResult {
+    byteOffset?: number;            // ?offset= for the rest of the stream; 0 = whole file
+}
+
+interface StreamContinuationState {
+    stripHeader: boolean;           // Drop the synthesized WAV header of an offset stream
+    skipBytes: number;              // Then drop bytes already received
+    pending: Uint8Array;            // Header bytes held until the header is complete
+}
+
 export interface AudioState {
     isPlaying: boolean;
     isPaused: boolean;
+    buffering: boolean;         // Stalled on an underrun, resumes once enough audio arrives
     currentTime: number;
     duration: number;
-    volume: number;
+    volume: number;             // Target slider value, also while muted or ramping
+    gainDb: number | null;      // Effective gain after the volume taper and mute, null when silent
+    muted: boolean;
+    playbackRate: number;
+    preservesPitch: boolean;    // False when pitch correction is off or unavailable
+    engine: PlaybackEngineType;
+}
+
+export interface TrackCuePoint {
+    id: number;
+    time: number;               // Seconds from the start of the track
+    duration: number | null;    // Region length in seconds, if the cue marks a region
+    label: string | null;
+    note: string | null;
+}
+
+export interface TrackMetadata {
+    title: string | null;
+    artist: string | null;
+    info: Record<string, string>;
+    bext: WavBroadcastExtension | null;
+    cuePoints: TrackCuePoint[];
+    ixml: string | null;
+}
+
+export interface TrackChapter {
+    index: number;
+    title: string;
+    startTime: number;
+    endTime: number;
+}
+
+export interface OpenStreamOptions {
+    cacheKey?: string | null;               // Track EntryKey for the chunk cache
+    chunkSize?: number;                     // Max bytes decoded at once (default 64 KiB)
+    maxBufferAheadSeconds?: number | null;  // Hold the download once this much audio is ahead (default: no limit)
+    autoPlay?: boolean;                     // Start playback once enough is buffered (default true)
+    maxRetries?: number;                    // Retries of a failed or stalled transfer (default 5)
+    stallTimeoutMs?: number;                // No data for this long counts as a failed transfer (default 10000)
+    loudness?: LoudnessInfo | null;         // Server-measured loudness; estimated while decoding when absent
+}
+
+export type StreamLoadState = 'loading' | 'streaming' | 'complete' | 'error';
+
+export interface StreamStateEvent {
+    state: StreamLoadState;
+    bytesLoaded: number;
+    totalBytes: number;             // Full track length (0 = unknown)
+    playbackStarted: boolean;
+    duration: number;
+    error?: string;
+}
+
+export interface AudioPlayerOptions {
+    engine?: PlaybackEngineType;
+    startSafetyMargin?: number;     // Seconds of slack required when deciding to start (default 2)
+    retentionSeconds?: number;      // Seconds of played audio kept behind the playhead (default 60)
+    transportFadeMs?: number;       // Fade around pause, resume, stop and seek (default 20, 0 = cut)
+    volumeRampMs?: number;          // Ramp for setVolume and mute (default 30)
+    volumeTaper?: VolumeTaper;      // Slider to gain mapping (default 'linear')
+    volumeMinDb?: number;           // Bottom of the 'db' taper's range (default -60)
+}
+
+export interface FadeOptions {
+    transportFadeMs?: number | null;
+    volumeRampMs?: number | null;
 }
 
 type ProgressCallback = (currentTime: number) => void;
 type EndCallback = () => void;
+type TrackChangedCallback = () => void;
+type ChapterChangedCallback = (chapterIndex: number) => void;
+type BufferingCallback = (isBuffering: boolean) => void;
+type StreamStateCallback = (event: StreamStateEvent) => void;
+type ErrorCallback = (event: AudioErrorEvent) => void;
+type DiagnosticsCallback = (diagnostics: PlaybackDiagnostics) => void;
+
+/**
+ * Pre-buffered stream for the following track. Decoded alongside the current track
+ * and scheduled to start exactly where the current track's last buffer ends.
+ */
+interface NextTrack {
+    decoder: StreamDecoder;
+    scheduler: PlaybackEngine;
+    startThreshold: StartThreshold;
+    loudness: LoudnessNormalizer;
+    duration: number;
+    streamLength: number;       // Expected length of the next track's stream
+    bytesReceived: number;      // Bytes of it fed to the decoder, carried over on promotion
+    streamingCompleted: boolean;
+    isScheduled: boolean;
+}
 
 export class AudioPlayer {
     private contextManager: AudioContextManager;
+    private pcmDecoder: PcmDecoder;
     private streamDecoder: StreamDecoder;
-    private scheduler: PlaybackScheduler;
+    private scheduler: PlaybackEngine;
+    private engineType: PlaybackEngineType;
 
     // Playback state
     private isPlaying: boolean = false;
     private isPaused: boolean = false;
+    private isBuffering: boolean = false;   // Buffers ran out before the stream completed
     private pausePosition: number = 0;
     private duration: number = 0;
 
@@ -51,30 +194,120 @@ export class AudioPlayer {
     private isStreamingMode: boolean = false;
     private streamingStarted: boolean = false;
     private streamingCompleted: boolean = false;
-    private minBuffersForPlayback: number = 6;
+    private startThreshold: StartThreshold;
+
+    // Played audio kept for seeking back; older buffers are released (Infinity keeps everything)
+    private retentionSeconds: number;
+
+    // Buffered ranges outside the engine's active range, and where the current stream writes
+    private bufferedRanges: BufferedRangeMap;
+    private streamTime: number | null = null;       // Track time of the stream's next decoded audio, null until known
+    private streamRequestedTime: number = 0;        // Track time the stream was requested from
+    private streamFeedsActive: boolean = true;      // False while the stream fills a stored range
+    private activeRangeFinal: boolean = false;      // Active range was joined with audio running to the track end
+
+    // Persistent chunk cache, written while the stream is in file coordinates
+    private chunkCache: TrackChunkCache | null;
+    private cacheKey: string | null = null;
+    private cacheTotalLength: number = 0;
+    private streamFilePosition: number | null = null;   // File offset of the next stream byte, null for offset streams
+    private streamPosition: number = 0;                 // Bytes of the current stream received, spliced across resumes
+    private streamLength: number = 0;                   // Expected length of the current stream
+    private streamByteOffset: number = 0;               // ?offset= the current stream was requested from
+    private continuation: StreamContinuationState | null = null;
+
+    // Direct streaming: openStream pulls the track itself instead of Blazor pushing chunks
+    private streamFetcher: StreamFetcher;
+    private streamUrl: string | null = null;        // Set while a direct stream is open
+    private streamSession: number = 0;              // Bumped on close and reopen; stale feeders stop
+    private streamChunkSize: number = 64 * 1024;
+    private streamAutoPlay: boolean = true;
+    private maxBufferAheadSeconds: number | null = null;
+    private streamTotalBytes: number = 0;
+    private streamBytesBase: number = 0;            // Track bytes before the offset stream's data
+    private maxStreamRetries: number = 5;
+    private readonly retryBaseDelayMs: number = 500;
+    private readonly retryMaxDelayMs: number = 15000;
+    private lastStreamStateTime: number = 0;
+    private lastStreamStateStarted: boolean = false;
+    private readonly streamStateIntervalMs: number = 250;
+
+    // Crossfade between consecutive tracks (0 = gapless)
+    private crossfadeDuration: number = 0;
+    private readonly minCrossfadeDuration: number = 0.05;
+
+    // Playback speed; positions stay in track time, the engines scale AudioContext time by the rate
+    private playbackRate: number = 1;
+    private preservePitch: boolean = true;
+
+    // Loudness normalization, applied per track separately from the user volume
+    private normalization: NormalizationSettings = { ...defaultNormalizationSettings };
+    private loudness: LoudnessNormalizer = new LoudnessNormalizer();
+
+    // Gapless next-track state
+    private nextTrack: NextTrack | null = null;
+    private nextTrackPromoted: boolean = false;   // Next-track chunks now feed the current track
+    private autoStartWhenReady: boolean = false;  // Promoted before any buffers arrived
 
     // Callbacks
     private onProgressCallback: ProgressCallback | null = null;
     private onEndCallback: EndCallback | null = null;
+    private onTrackChangedCallback: TrackChangedCallback | null = null;
+    private onChapterChangedCallback: ChapterChangedCallback | null = null;
+    private onBufferingCallback: BufferingCallback | null = null;
+    private onStreamStateCallback: StreamStateCallback | null = null;
+    private onErrorCallback: ErrorCallback | null = null;
+    private currentChapterIndex: number = -1;
     private progressInterval: number | null = null;
 
-    constructor() {
+    // QoS metrics, reported on request and optionally on an interval
+    private diagnostics: DiagnosticsCollector = new DiagnosticsCollector();
+    private diagnosticsInterval: number | null = null;
+
+    // Declicking: transport changes wait for a fade-out; starts fade in from silence
+    private transportFadeMs: number;
+    private volumeRampMs: number;
+    private pendingTransport: { timer: number; action: () => void } | null = null;
+    private readonly transportSettleMarginMs: number = 10;     // Audio clock lag behind the timer
+
+    constructor(options: AudioPlayerOptions = {}, chunkCache: TrackChunkCache | null = null) {
+        this.engineType = options.engine ?? 'scheduler';
+        if (this.engineType === 'worklet' && !WorkletPlaybackEngine.isSupported()) {
+            log.warn('Worklet playback engine unavailable (needs AudioWorklet and cross-origin isolation), using scheduler');
+            this.engineType = 'scheduler';
+        }
+
         this.contextManager = new AudioContextManager();
-        this.streamDecoder = new StreamDecoder(this.contextManager);
-        this.scheduler = new PlaybackScheduler(this.contextManager);
+        this.contextManager.setVolumeCurve({
+            taper: options.volumeTaper ?? 'linear',
+            minDb: options.volumeMinDb ?? -60
+        });
+        this.pcmDecoder = new PcmDecoder();
+        this.streamDecoder = this.createDecoder();
+        this.scheduler = this.createEngine();
+        this.startThreshold = new StartThreshold(options.startSafetyMargin ?? undefined);
+        this.retentionSeconds = options.retentionSeconds ?? 60;
+        this.transportFadeMs = options.transportFadeMs ?? 20;
+        this.volumeRampMs = options.volumeRampMs ?? 30;
+        this.bufferedRanges = new BufferedRangeMap(this.contextManager);
+        this.chunkCache = chunkCache;
+        this.streamFetcher = new StreamFetcher(this.streamChunkSize);
 
         // Wire up scheduler callbacks
-        this.scheduler.onPlaybackEnded = () => this.handlePlaybackEnded();
+        this.attachScheduler(this.scheduler);
     }
 
     // ==================== Initialization ====================
 
     async initialize(): Promise<AudioResult> {
         try {
+            if (this.engineType === 'worklet') {
+                await this.contextManager.addWorkletModule(WorkletPlaybackEngine.moduleUrl);
+            }
             await this.contextManager.initialize();
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
@@ -83,155 +316,510 @@ export class AudioPlayer {
             await this.contextManager.ensureReady();
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
     // ==================== Streaming ====================
 
-    initializeStreaming(totalStreamLength: number): AudioResult {
+    /**
+     * Start a new stream. With a cacheKey (track EntryKey) the stream is written to the chunk
+     * cache and the result lists the ranges already cached; a totalStreamLength of 0 takes
+     * the length from the cache. Without server loudness the track's loudness is estimated.
+     */
+    async initializeStreaming(totalStreamLength: number, cacheKey: string | null = null,
+                              loudness: LoudnessInfo | null = null): Promise<StreamingInitResult> {
         try {
             // Full cleanup before starting new stream
+            this.settleTransport();
             this.stopProgressTracking();
+            this.cancelNextTrack();
             this.scheduler.clear();
             this.streamDecoder.reset();
+            this.startThreshold.reset();
             this.resetState();
 
+            const cached = cacheKey && this.chunkCache ? await this.readCachedRanges(cacheKey) : null;
+            const streamLength = totalStreamLength > 0 ? totalStreamLength : cached?.totalLength ?? 0;
+
             // Initialize new stream
             this.isStreamingMode = true;
-            this.streamDecoder.initialize(totalStreamLength);
-            console.log(`Streaming initialized: ${totalStreamLength} bytes expected`);
-            return { success: true };
+            this.cacheKey = this.chunkCache ? cacheKey : null;
+            this.cacheTotalLength = streamLength;
+            this.streamFilePosition = 0;
+            this.streamPosition = 0;
+            this.streamLength = streamLength;
+            this.streamByteOffset = 0;
+            this.streamDecoder.initialize(streamLength);
+            this.loudness = new LoudnessNormalizer(loudness);
+            this.loudness.apply(this.scheduler, this.normalization);
+            this.diagnostics.startSession();
+            log.info(`Streaming initialized: ${streamLength} bytes expected`);
+            return {
+                success: true,
+                totalStreamLength: streamLength,
+                cachedRanges: cached && cached.totalLength === streamLength ? cached.ranges : []
+            };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
     async processStreamingChunk(chunk: Uint8Array): Promise<StreamingResult> {
         try {
-            const result = await this.streamDecoder.processChunk(chunk);
+            this.startThreshold.recordChunk(chunk.length);
+            this.diagnostics.addBytesReceived(chunk.length);
+            const data = this.stripContinuationPrefix(chunk);
+            this.writeToCache(data);
+            return await this.decodeStreamingChunk(data);
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
 
-            if (result) {
-                this.scheduler.addBuffer(result.buffer);
+    /**
+     * Feed the next cached bytes at the stream position, as processStreamingChunk would
+     * with bytes from the network. bytesRead is 0 when the cache has no data there.
+     */
+    async processCachedChunk(maxBytes: number): Promise<CachedChunkResult> {
+        if (!this.chunkCache || !this.cacheKey || this.streamFilePosition === null) {
+            return failure('NOT_FOUND', 'No cached stream');
+        }
 
-                // Update duration estimate
-                const estimatedDuration = this.streamDecoder.getEstimatedDuration();
-                if (estimatedDuration) {
-                    this.duration = estimatedDuration;
-                }
+        try {
+            const data = await this.chunkCache.read(this.cacheKey, this.streamFilePosition, maxBytes) ?? new Uint8Array(0);
+            const result = await this.decodeStreamingChunk(data);
+            return { ...result, bytesRead: data.length };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
 
-                // Schedule new buffers if already playing
-                if (this.streamingStarted && this.isPlaying) {
-                    this.scheduler.scheduleNewBuffers();
-                }
+    /**
+     * Prepare for fetching the rest of the current stream after the bytes received so far,
+     * whether it is the whole file or an offset stream. WAV continues from the server's
+     * ?offset= stream at the last block-aligned byte, with its synthesized header and the
+     * bytes before the resume point stripped; other formats, and WAV with chunks after the
+     * audio data (which offset streams leave out), refetch the stream and skip what arrived.
+     */
+    continueStream(): StreamContinuation {
+        if (!this.isStreamingMode) {
+            return failure('INVALID_STATE', 'Not in streaming mode');
+        }
+
+        const position = this.streamPosition;
+        const header = this.streamDecoder.getWavHeader();
+        const offsetStreamable = this.streamDecoder.getFormat() === 'wav' && header !== null &&
+            header.blockAlign > 0 && header.headerSize + header.dataSize >= this.streamLength;
+        if (offsetStreamable) {
+            const streamDataOffset = position - header.headerSize;
+            const dataOffset = this.streamByteOffset + streamDataOffset;
+            const alignedOffset = Math.floor(dataOffset / header.blockAlign) * header.blockAlign;
+            if (alignedOffset > 0 && streamDataOffset >= 0 && streamDataOffset < header.dataSize) {
+                this.continuation = { stripHeader: true, skipBytes: dataOffset - alignedOffset, pending: new Uint8Array(0) };
+                log.info(`Continuing stream at ${position} bytes from offset ${alignedOffset}`);
+                return { success: true, byteOffset: alignedOffset };
+            }
+        }
+
+        this.continuation = { stripHeader: false, skipBytes: position, pending: new Uint8Array(0) };
+        log.info(`Continuing stream at ${position} bytes by refetching from offset ${this.streamByteOffset}`);
+        return { success: true, byteOffset: this.streamByteOffset };
+    }
+
+    /**
+     * Decode a chunk of the current stream and report the streaming state
+     */
+    private async decodeStreamingChunk(chunk: Uint8Array): Promise<StreamingResult> {
+        this.streamPosition += chunk.length;
+        if (this.streamFilePosition !== null) {
+            this.streamFilePosition += chunk.length;
+        }
+
+        const decodeStart = performance.now();
+        const result = chunk.length > 0 ? await this.streamDecoder.processChunk(chunk) : null;
+
+        if (result) {
+            this.diagnostics.recordDecode(performance.now() - decodeStart);
+            this.appendDecodedBuffer(result.buffer);
+
+            // Update duration estimate
+            const estimatedDuration = this.streamDecoder.getEstimatedDuration();
+            if (estimatedDuration) {
+                this.duration = estimatedDuration;
+            }
+
+            // Schedule new buffers if already playing
+            if (this.streamingStarted && this.isPlaying) {
+                this.scheduler.scheduleNewBuffers();
             }
+        }
 
-            // Check if streaming is complete
-            if (this.streamDecoder.isComplete) {
-                this.streamingCompleted = true;
-                console.log('Stream complete');
+        // Check if streaming is complete
+        if (this.streamDecoder.isComplete) {
+            this.streamingCompleted = true;
+            if (!this.streamFeedsActive && this.streamTime !== null) {
+                this.bufferedRanges.markFinal(this.streamTime);
             }
+            log.info('Stream complete');
+            this.tryScheduleNextTrack();
+        }
 
-            const canStart = this.streamDecoder.headerParsed &&
-                this.scheduler.hasMinimumBuffers(this.minBuffersForPlayback);
+        const canStart = this.canStartPlayback(this.streamDecoder, this.scheduler, this.startThreshold, this.duration, this.pausePosition);
 
-            return {
-                success: true,
-                canStartStreaming: canStart,
-                headerParsed: this.streamDecoder.headerParsed,
-                bufferCount: this.scheduler.getBufferCount(),
-                duration: this.duration
-            };
-        } catch (error) {
-            return { success: false, error: (error as Error).message };
+        // A next track promoted before it had buffers starts itself once ready
+        if (this.autoStartWhenReady && canStart) {
+            this.autoStartWhenReady = false;
+            this.startStreamingPlayback();
+        }
+
+        if (this.isBuffering) {
+            this.tryResumeFromBuffering();
+        }
+
+        return {
+            success: true,
+            canStartStreaming: canStart,
+            headerParsed: this.streamDecoder.headerParsed,
+            bufferCount: this.scheduler.getBufferCount(),
+            duration: this.duration
+        };
+    }
+
+    /**
+     * Seconds of slack the start decision requires between the estimated download time
+     * for the rest of the track and its remaining playback time
+     */
+    setStartSafetyMargin(seconds: number): AudioResult {
+        if (!Number.isFinite(seconds) || seconds < 0) {
+            return failure('INVALID_ARGUMENT', 'Invalid safety margin');
+        }
+
+        this.startThreshold.setSafetyMargin(seconds);
+        this.nextTrack?.startThreshold.setSafetyMargin(seconds);
+        return { success: true };
+    }
+
+    /**
+     * Seconds of played audio to keep behind the playhead; null keeps the whole track.
+     * Seeking into released audio fetches it again like any unbuffered position.
+     */
+    setRetentionWindow(seconds: number | null): AudioResult {
+        if (seconds !== null && (!Number.isFinite(seconds) || seconds < 0)) {
+            return failure('INVALID_ARGUMENT', 'Invalid retention window');
         }
+
+        this.retentionSeconds = seconds ?? Infinity;
+        return { success: true };
     }
 
     startStreamingPlayback(): AudioResult {
         if (!this.scheduler.hasBuffers()) {
-            return { success: false, error: 'No buffers available' };
+            return failure('INVALID_STATE', 'No buffers available');
         }
 
         try {
-            console.log('\n=== Starting streaming playback ===');
+            this.settleTransport();
+            log.debug('\n=== Starting streaming playback ===');
             this.streamingStarted = true;
             this.isPlaying = true;
             this.isPaused = false;
-            this.pausePosition = 0;
+            this.setBuffering(false);
 
-            this.scheduler.playFromPosition(0);
+            // Start of the track, or the seek position within an offset stream or stored range
+            this.playFromTrackPosition(this.pausePosition);
             this.startProgressTracking();
 
-            console.log('✅ Streaming playback started');
+            log.info('✅ Streaming playback started');
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    // ==================== Direct Streaming ====================
+
+    /**
+     * Stream a track by URL from this side: cached bytes first when a cacheKey is given,
+     * then fetch, reading only as fast as chunks are decoded (and buffered audio allows).
+     * Seeks beyond the buffer re-request with ?offset= here; Blazor only gets state events.
+     * Resolves once the stream is set up; loading continues in the background.
+     */
+    async openStream(url: string, options: OpenStreamOptions = {}): Promise<AudioResult> {
+        try {
+            await this.closeStream();
+            const session = this.streamSession;
+            const cacheKey = options.cacheKey ?? null;
+
+            this.streamChunkSize = options.chunkSize ?? 64 * 1024;
+            this.streamFetcher.setChunkSize(this.streamChunkSize);
+            this.maxBufferAheadSeconds = options.maxBufferAheadSeconds ?? null;
+            this.streamAutoPlay = options.autoPlay ?? true;
+            this.maxStreamRetries = options.maxRetries ?? 5;
+            this.streamFetcher.setStallTimeout(options.stallTimeoutMs ?? 10000);
+
+            // A cached start of the track plays without waiting for the network
+            const loudness = options.loudness ?? null;
+            const cached = cacheKey && this.chunkCache ? await this.initializeStreaming(0, cacheKey, loudness) : null;
+            const fromCache = cached?.success === true && cached.cachedRanges?.[0]?.start === 0;
+            if (fromCache) {
+                this.streamTotalBytes = cached.totalStreamLength ?? 0;
+            } else {
+                const contentLength = await this.streamFetcher.open(url);
+                const init = await this.initializeStreaming(contentLength, cacheKey, loudness);
+                if (!init.success) {
+                    throw AudioError.fromResult(init);
+                }
+                this.streamTotalBytes = contentLength;
+            }
+
+            if (session !== this.streamSession) {
+                return failure('ABORTED', 'Stream superseded');
+            }
+
+            this.streamUrl = url;
+            this.streamBytesBase = 0;
+            this.autoStartWhenReady = this.streamAutoPlay;
+            this.emitStreamState('loading');
+
+            void this.feedStream(session, url, fromCache);
+            log.info(`🌐 Opened stream ${url}${fromCache ? ' from cache' : ''}`);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            await this.streamFetcher.close();
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Stop downloading the direct stream; decoded audio stays playable
+     */
+    async closeStream(): Promise<AudioResult> {
+        this.streamSession++;
+        this.streamUrl = null;
+        await this.streamFetcher.close();
+        return { success: true };
+    }
+
+    // ==================== Gapless Next Track ====================
+
+    /**
+     * Prepare a second decoder/scheduler pair for the following track.
+     * Its first buffer is scheduled at the AudioContext time where the current track ends.
+     */
+    prepareNextTrack(totalStreamLength: number, loudness: LoudnessInfo | null = null): AudioResult {
+        try {
+            this.cancelNextTrack();
+
+            const decoder = this.createDecoder();
+            decoder.initialize(totalStreamLength, false);
+
+            const scheduler = this.createEngine();
+            const trackLoudness = new LoudnessNormalizer(loudness);
+            trackLoudness.apply(scheduler, this.normalization);
+
+            this.nextTrack = {
+                decoder,
+                scheduler,
+                startThreshold: new StartThreshold(this.startThreshold.getSafetyMargin()),
+                loudness: trackLoudness,
+                duration: 0,
+                streamLength: totalStreamLength,
+                bytesReceived: 0,
+                streamingCompleted: false,
+                isScheduled: false
+            };
+            this.nextTrackPromoted = false;
+
+            log.info(`⏭️ Next track prepared: ${totalStreamLength} bytes expected`);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Feed a chunk of the next track's stream.
+     * Once the next track has taken over playback, chunks go to the current track.
+     */
+    async processNextTrackChunk(chunk: Uint8Array): Promise<StreamingResult> {
+        if (!this.nextTrack) {
+            if (this.nextTrackPromoted) {
+                return this.processStreamingChunk(chunk);
+            }
+            return failure('NOT_FOUND', 'No next track prepared');
+        }
+
+        try {
+            const next = this.nextTrack;
+            next.startThreshold.recordChunk(chunk.length);
+            next.bytesReceived += chunk.length;
+            const result = await next.decoder.processChunk(chunk);
+
+            // Track may have been promoted or cancelled while decoding
+            if (this.nextTrack !== next) {
+                if (result && this.nextTrackPromoted && next.scheduler === this.scheduler) {
+                    this.appendDecodedBuffer(result.buffer);
+                    if (this.streamingStarted && this.isPlaying) {
+                        this.scheduler.scheduleNewBuffers();
+                    }
+                    this.streamingCompleted = next.decoder.isComplete;
+                }
+                return this.buildNextTrackResult(next);
+            }
+
+            if (result) {
+                next.loudness.measure(result.buffer, next.scheduler, this.normalization);
+                next.scheduler.addBuffer(result.buffer);
+                next.duration = next.decoder.getEstimatedDuration() ?? next.duration;
+
+                if (next.isScheduled) {
+                    next.scheduler.scheduleNewBuffers();
+                }
+            }
+
+            if (next.decoder.isComplete) {
+                next.streamingCompleted = true;
+                log.debug('Next track stream complete');
+            }
+
+            this.tryScheduleNextTrack();
+            return this.buildNextTrackResult(next);
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Discard the pre-buffered next track
+     */
+    cancelNextTrack(): AudioResult {
+        if (this.nextTrack) {
+            this.unscheduleNextTrack();
+            this.nextTrack.scheduler.clear();
+            this.nextTrack.scheduler.disconnect();
+            this.nextTrack.decoder.reset();
+            this.nextTrack = null;
+            log.info('⏭️ Next track cancelled');
         }
+        this.nextTrackPromoted = false;
+        this.autoStartWhenReady = false;
+        return { success: true };
+    }
+
+    hasNextTrack(): boolean {
+        return this.nextTrack !== null;
+    }
+
+    /**
+     * Set the crossfade length between consecutive tracks; 0 keeps gapless transitions
+     */
+    setCrossfadeDuration(seconds: number): AudioResult {
+        if (!Number.isFinite(seconds) || seconds < 0) {
+            return failure('INVALID_ARGUMENT', 'Invalid crossfade duration');
+        }
+
+        // Re-plan a queued transition with the new duration
+        this.unscheduleNextTrack();
+        this.crossfadeDuration = seconds;
+        this.tryScheduleNextTrack();
+
+        log.info(`🔀 Crossfade duration set to ${seconds.toFixed(2)}s`);
+        return { success: true };
+    }
+
+    getCrossfadeDuration(): number {
+        return this.crossfadeDuration;
     }
 
     // ==================== Playback Control ====================
 
     play(): AudioResult {
         if (!this.isStreamingMode) {
-            return { success: false, error: 'Not in streaming mode' };
+            return failure('INVALID_STATE', 'Not in streaming mode');
         }
 
         if (!this.streamingStarted || !this.scheduler.hasBuffers()) {
-            return { success: false, error: 'Streaming not ready' };
+            return failure('INVALID_STATE', 'Streaming not ready');
         }
 
-        // Don't restart if already playing
-        if (this.isPlaying) {
-            console.log('Already playing, ignoring play()');
+        this.settleTransport();
+
+        // Don't restart if already playing, or waiting to resume after an underrun
+        if (this.isPlaying || this.isBuffering) {
+            log.debug('Already playing, ignoring play()');
             return { success: true };
         }
 
         try {
-            this.contextManager.ensureReady();
+            this.contextManager.ensureReady().catch(error => this.emitError(error, 'playback'));
 
             this.isPlaying = true;
             this.isPaused = false;
 
             // Resume from pause position
-            this.scheduler.playFromPosition(this.pausePosition);
+            this.playFromTrackPosition(this.pausePosition);
             this.startProgressTracking();
 
-            console.log(`▶️ Resumed from ${this.pausePosition.toFixed(3)}s`);
+            log.info(`▶️ Resumed from ${this.pausePosition.toFixed(3)}s`);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
+    /**
+     * Pause at the current position; the audio stops after the transport fade-out
+     */
     pause(): AudioResult {
+        this.settleTransport();
+
+        // Pausing while stalled cancels the automatic resume
+        if (this.isBuffering) {
+            this.setBuffering(false);
+            this.isPaused = true;
+            log.info(`⏸️ Paused while buffering at ${this.pausePosition.toFixed(3)}s`);
+            return { success: true };
+        }
+
         if (!this.isPlaying) {
-            return { success: false, error: 'Not playing' };
+            return failure('INVALID_STATE', 'Not playing');
         }
 
         try {
-            this.pausePosition = this.scheduler.pause();
+            this.pausePosition = this.getCurrentTime();
+            this.afterFadeOut(() => {
+                this.scheduler.pause();
+                this.unscheduleNextTrack();
+            });
             this.isPlaying = false;
             this.isPaused = true;
             this.stopProgressTracking();
 
-            console.log(`⏸️ Paused at ${this.pausePosition.toFixed(3)}s`);
+            log.info(`⏸️ Paused at ${this.pausePosition.toFixed(3)}s`);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
+    /**
+     * Stop and unload the track once the transport fade-out has run
+     */
     stop(): AudioResult {
         try {
-            this.scheduler.clear();
-            this.streamDecoder.reset();
-            this.resetState();
-            this.stopProgressTracking();
-
-            console.log('⏹️ Stopped');
+            void this.closeStream();
+            this.afterFadeOut(() => {
+                this.cancelNextTrack();
+                this.scheduler.clear();
+                this.streamDecoder.reset();
+                this.resetState();
+                this.stopProgressTracking();
+                log.info('⏹️ Stopped');
+            });
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
@@ -240,20 +828,33 @@ export class AudioPlayer {
     }
 
     seek(position: number): AudioResult {
+        this.settleTransport();
         if (!this.isStreamingMode || position < 0 || position > this.duration) {
-            return { success: false, error: 'Invalid seek position' };
+            return failure('SEEK_OUT_OF_RANGE', 'Invalid seek position');
         }
 
-        // Get buffered duration (accounting for playback offset)
-        const bufferedDuration = this.scheduler.getTotalDuration() + this.scheduler.getPlaybackOffset();
+        // Buffered range in track time (earlier audio was never fetched or has been released)
+        const bufferedStart = this.scheduler.getPlaybackOffset();
+        const bufferedDuration = this.scheduler.getTotalDuration() + bufferedStart;
 
-        // Check if seeking within buffered content
-        if (position <= bufferedDuration) {
-            return this.seekWithinBuffer(position);
-        } else {
-            // Seeking beyond buffer - signal C# to fetch new stream
-            return this.seekBeyondBuffer(position);
+        // Check if seeking within buffered content; audible jumps wait for the fade-out
+        if (position >= bufferedStart && position <= bufferedDuration) {
+            return this.afterFadeOutResult(() => this.seekWithinBuffer(position));
+        }
+
+        // Stored ranges that need no further download are played directly
+        const stored = this.bufferedRanges.find(position);
+        if (stored && (stored.final || this.isStreamTarget(stored))) {
+            return this.afterFadeOutResult(() => this.seekToStoredRange(position));
+        }
+
+        // Seeking beyond buffer - signal C# to fetch new stream, or refetch here for a direct stream
+        const result = this.seekBeyondBuffer(position);
+        if (result.success && result.seekBeyondBuffer && this.streamUrl !== null) {
+            void this.reopenStream(position, result.byteOffset ?? 0);
+            return { success: true };
         }
+        return result;
     }
 
     /**
@@ -263,33 +864,74 @@ export class AudioPlayer {
         try {
             const wasPlaying = this.isPlaying;
             this.scheduler.stopAllSources();
+            this.unscheduleNextTrack();
 
             // Adjust position relative to buffer start (subtract playback offset)
             const bufferRelativePosition = position - this.scheduler.getPlaybackOffset();
             this.pausePosition = position;
 
             if (wasPlaying) {
-                this.scheduler.playFromPosition(Math.max(0, bufferRelativePosition));
+                this.playFromTrackPosition(position);
+            } else if (this.isBuffering) {
+                this.tryResumeFromBuffering();
+            }
+
+            log.debug(`🔍 Seeked within buffer to ${position.toFixed(3)}s (buffer-relative: ${bufferRelativePosition.toFixed(3)}s)`);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Switch playback to a stored range that is complete or still being downloaded
+     */
+    private seekToStoredRange(position: number): AudioResult {
+        try {
+            const range = this.bufferedRanges.take(position);
+            if (!range) {
+                return failure('SEEK_OUT_OF_RANGE', 'Invalid seek position');
+            }
+
+            const wasPlaying = this.isPlaying || this.isBuffering;
+            const streamTarget = this.isStreamTarget(range);
+            this.unscheduleNextTrack();
+            this.stashActiveRange();
+            this.loadStoredRange(range);
+            this.streamFeedsActive = streamTarget;
+            this.pausePosition = position;
+            this.setBuffering(false);
+
+            if (wasPlaying) {
+                this.isPlaying = true;
+                this.playFromTrackPosition(position);
+                this.startProgressTracking();
             }
 
-            console.log(`🔍 Seeked within buffer to ${position.toFixed(3)}s (buffer-relative: ${bufferRelativePosition.toFixed(3)}s)`);
+            log.debug(`🔍 Seeked to stored range ${range.start.toFixed(3)}s-${(range.start + range.duration).toFixed(3)}s at ${position.toFixed(3)}s`);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
     /**
-     * Seek beyond buffered content - calculate byte offset for server request
+     * Seek beyond buffered content - calculate byte offset for server request.
+     * Inside a stored range the new stream starts where that range ends.
      */
     private seekBeyondBuffer(position: number): AudioResult {
         try {
-            const byteOffset = this.streamDecoder.calculateByteOffset(position);
-            if (byteOffset <= 0) {
-                return { success: false, error: 'Cannot calculate byte offset' };
+            const stored = this.bufferedRanges.find(position);
+            const fetchFrom = stored ? stored.start + stored.duration : position;
+            const byteOffset = this.streamDecoder.calculateByteOffset(fetchFrom);
+            // Offset 0 is valid when seeking back before the buffered range - it refetches the whole track
+            const beforeBuffer = fetchFrom < this.scheduler.getPlaybackOffset();
+            if (byteOffset < 0 || (byteOffset === 0 && !beforeBuffer)) {
+                return failure('INVALID_STATE', 'Cannot calculate byte offset');
             }
 
-            console.log(`🔍 Seek beyond buffer to ${position.toFixed(3)}s requires byte offset ${byteOffset}`);
+            log.info(`🔍 Seek beyond buffer to ${position.toFixed(3)}s requires byte offset ${byteOffset} (${fetchFrom.toFixed(3)}s)`);
+            this.diagnostics.countSeekBeyondBuffer();
 
             // Signal that C# needs to request new stream from offset
             return {
@@ -298,7 +940,7 @@ export class AudioPlayer {
                 byteOffset: byteOffset
             };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
@@ -310,7 +952,30 @@ export class AudioPlayer {
     }
 
     /**
-     * Calculate byte offset for a time position (for C# layer)
+     * Buffered time ranges of the track, sorted and merged (like HTMLMediaElement.buffered)
+     */
+    getBufferedRanges(): BufferedRange[] {
+        const ranges = this.bufferedRanges.getRanges();
+        if (this.scheduler.hasBuffers()) {
+            ranges.push({ start: this.scheduler.getPlaybackOffset(), end: this.getBufferedDuration() });
+        }
+        ranges.sort((a, b) => a.start - b.start);
+
+        const merged: BufferedRange[] = [];
+        for (const range of ranges) {
+            const last = merged[merged.length - 1];
+            if (last && range.start <= last.end + 0.001) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Calculate byte offset for a time position (for C# layer); positions are track time,
+     * so the offset does not depend on the playback rate
      */
     calculateByteOffset(positionSeconds: number): number {
         return this.streamDecoder.calculateByteOffset(positionSeconds);
@@ -318,21 +983,39 @@ export class AudioPlayer {
 
     /**
      * Reinitialize for offset streaming after seek-beyond-buffer
-     * Called by C# after receiving new stream from server
+     * Called by C# after receiving new stream from server; byteOffset is the ?offset= it requested
      */
-    reinitializeFromOffset(totalStreamLength: number, seekPosition: number): AudioResult {
+    reinitializeFromOffset(totalStreamLength: number, seekPosition: number, byteOffset: number = 0): AudioResult {
         try {
-            console.log(`\n=== Reinitializing for offset stream ===`);
-            console.log(`Seek position: ${seekPosition.toFixed(3)}s, Stream length: ${totalStreamLength}`);
+            log.debug(`\n=== Reinitializing for offset stream ===`);
+            log.debug(`Seek position: ${seekPosition.toFixed(3)}s, Stream length: ${totalStreamLength}`);
 
             // Stop current playback
             this.stopProgressTracking();
             const wasPlaying = this.isPlaying;
             this.isPlaying = false;
+            this.setBuffering(false);
+            this.unscheduleNextTrack();
+
+            // Keep the downloaded audio as a stored range; inside another stored range
+            // the new stream continues where that range ends
+            const stored = this.bufferedRanges.take(seekPosition);
+            this.stashActiveRange();
+            if (stored) {
+                this.loadStoredRange(stored);
+            } else {
+                this.scheduler.setPlaybackOffset(seekPosition);
+            }
+            this.streamRequestedTime = stored ? stored.start + stored.duration : seekPosition;
+            this.streamTime = null;
+            this.streamFeedsActive = true;
 
-            // Clear buffers and set new offset
-            this.scheduler.clearForSeek();
-            this.scheduler.setPlaybackOffset(seekPosition);
+            // Offset streams are in track time, not file coordinates; they are not cached
+            this.streamFilePosition = null;
+            this.continuation = null;
+            this.streamPosition = 0;
+            this.streamLength = totalStreamLength;
+            this.streamByteOffset = byteOffset;
 
             // Reinitialize decoder for new stream
             this.streamDecoder.reinitializeForOffset(totalStreamLength);
@@ -342,74 +1025,422 @@ export class AudioPlayer {
             this.streamingStarted = false; // Will restart when new buffers arrive
             this.streamingCompleted = false;
 
-            console.log(`✅ Reinitialized for offset, was playing: ${wasPlaying}`);
+            log.info(`✅ Reinitialized for offset, was playing: ${wasPlaying}`);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
-    // ==================== Volume ====================
+    // ==================== Chapters ====================
 
-    setVolume(volume: number): AudioResult {
-        try {
-            this.contextManager.setVolume(volume);
-            return { success: true };
-        } catch (error) {
-            return { success: false, error: (error as Error).message };
-        }
+    /**
+     * Chapters from the track's cue points, each running until the next cue point
+     */
+    getChapters(): TrackChapter[] {
+        const cuePoints = this.getTrackMetadata()?.cuePoints ?? [];
+        const sorted = [...cuePoints].sort((a, b) => a.time - b.time);
+
+        return sorted.map((cue, index) => ({
+            index,
+            title: cue.label ?? cue.note ?? `Chapter ${index + 1}`,
+            startTime: cue.time,
+            endTime: index + 1 < sorted.length ? sorted[index + 1].time : this.duration
+        }));
     }
 
-    // ==================== State ====================
-
-    getCurrentTime(): number {
-        if (this.isPlaying) {
-            return this.scheduler.getCurrentPosition();
+    /**
+     * Seek to the start of the following chapter
+     */
+    nextChapter(): AudioResult {
+        const currentTime = this.getCurrentTime();
+        const next = this.getChapters().find(chapter => chapter.startTime > currentTime + 0.01);
+        if (!next) {
+            return failure('NOT_FOUND', 'No next chapter');
         }
-        return this.pausePosition;
+        return this.seekToChapter(next);
     }
 
-    getState(): AudioState {
-        return {
-            isPlaying: this.isPlaying,
-            isPaused: this.isPaused,
-            currentTime: this.getCurrentTime(),
-            duration: this.duration,
-            volume: this.contextManager.getVolume()
-        };
-    }
-
-    // ==================== Callbacks ====================
+    /**
+     * Restart the current chapter, or go to the previous one when within
+     * the first few seconds of the current chapter
+     */
+    previousChapter(): AudioResult {
+        const restartThreshold = 3;
+        const currentTime = this.getCurrentTime();
+        const chapters = this.getChapters();
+        const current = this.findChapterIndex(chapters, currentTime);
+        if (current < 0) {
+            return failure('NOT_FOUND', 'No previous chapter');
+        }
 
-    setOnProgressCallback(callback: ProgressCallback): void {
-        this.onProgressCallback = callback;
+        const target = currentTime - chapters[current].startTime > restartThreshold || current === 0
+            ? chapters[current]
+            : chapters[current - 1];
+        return this.seekToChapter(target);
     }
 
-    setOnEndCallback(callback: EndCallback): void {
-        this.onEndCallback = callback;
+    /**
+     * Chapter jumps use the regular seek path, so unbuffered chapters
+     * return seekBeyondBuffer with the byte offset to request
+     */
+    private seekToChapter(chapter: TrackChapter): AudioResult {
+        const result = this.seek(chapter.startTime);
+        if (result.success && !result.seekBeyondBuffer) {
+            this.updateCurrentChapter(chapter.startTime);
+        }
+        return result;
     }
 
-    // ==================== Spectrum Analysis ====================
+    private findChapterIndex(chapters: TrackChapter[], time: number): number {
+        let index = -1;
+        for (const chapter of chapters) {
+            if (chapter.startTime > time + 0.01) break;
+            index = chapter.index;
+        }
+        return index;
+    }
 
-    getSpectrumData(): number[] {
-        return this.contextManager.getSpectrumAnalyzer().getFrequencyData();
+    private updateCurrentChapter(time: number): void {
+        const index = this.findChapterIndex(this.getChapters(), time);
+        if (index !== this.currentChapterIndex) {
+            this.currentChapterIndex = index;
+            this.onChapterChangedCallback?.(index);
+        }
     }
 
-    setSpectrumHighPass(freq: number): AudioResult {
+    // ==================== Volume ====================
+
+    setVolume(volume: number): AudioResult {
         try {
-            this.contextManager.getSpectrumAnalyzer().setHighPass(freq);
+            this.contextManager.setVolume(volume, this.volumeRampMs / 1000);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
-    setSpectrumLowPass(freq: number): AudioResult {
+    /**
+     * Ramp the volume to a level over durationMs; the state reports the target at once
+     */
+    fadeTo(volume: number, durationMs: number): AudioResult {
+        if (!Number.isFinite(volume) || volume < 0 || volume > 1) {
+            return failure('INVALID_ARGUMENT', 'Volume must be 0-1');
+        }
+        if (!Number.isFinite(durationMs) || durationMs < 0) {
+            return failure('INVALID_ARGUMENT', 'Invalid fade duration');
+        }
+
+        try {
+            this.contextManager.setVolume(volume, durationMs / 1000);
+            log.debug(`🔉 Fading to ${volume.toFixed(2)} over ${durationMs}ms`);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Mute or unmute; unmuting restores the volume from before the mute
+     */
+    setMuted(muted: boolean): AudioResult {
+        try {
+            this.contextManager.setMuted(muted, this.volumeRampMs / 1000);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Choose the volume taper; 'db' maps the slider linearly onto minDb..0 dB
+     */
+    setVolumeCurve(taper: VolumeTaper, minDb?: number | null): AudioResult {
+        try {
+            const current = this.contextManager.getVolumeCurve();
+            this.contextManager.setVolumeCurve({ taper, minDb: minDb ?? current.minDb }, this.volumeRampMs / 1000);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    setFadeDurations(options: FadeOptions): AudioResult {
+        const transportFadeMs = options.transportFadeMs ?? this.transportFadeMs;
+        const volumeRampMs = options.volumeRampMs ?? this.volumeRampMs;
+        if (!Number.isFinite(transportFadeMs) || transportFadeMs < 0 || transportFadeMs > 1000 ||
+            !Number.isFinite(volumeRampMs) || volumeRampMs < 0 || volumeRampMs > 1000) {
+            return failure('INVALID_ARGUMENT', 'Fade durations must be 0-1000 ms');
+        }
+
+        this.transportFadeMs = transportFadeMs;
+        this.volumeRampMs = volumeRampMs;
+        return { success: true };
+    }
+
+    // ==================== Playback Rate ====================
+
+    /**
+     * Play faster or slower (0.5-2). With preservePitch a time stretch keeps the pitch;
+     * without it the pitch follows the speed. Null keeps the current pitch mode.
+     */
+    setPlaybackRate(rate: number, preservePitch?: boolean | null): AudioResult {
+        if (!Number.isFinite(rate) || rate < 0.5 || rate > 2) {
+            return failure('INVALID_ARGUMENT', 'Playback rate must be 0.5-2');
+        }
+
+        this.settleTransport();
+        const keepPitch = preservePitch ?? this.preservePitch;
+        if (rate === this.playbackRate && keepPitch === this.preservePitch) {
+            return { success: true };
+        }
+        return this.afterFadeOutResult(() => this.applyPlaybackRate(rate, keepPitch));
+    }
+
+    getPlaybackRate(): number {
+        return this.playbackRate;
+    }
+
+    // ==================== State ====================
+
+    getCurrentTime(): number {
+        if (this.isPlaying) {
+            return this.scheduler.getCurrentPosition();
+        }
+        return this.pausePosition;
+    }
+
+    getDiagnostics(): PlaybackDiagnostics {
+        return this.diagnostics.snapshot({
+            bufferedAheadSeconds: Math.max(0, this.getBufferedDuration() - this.getCurrentTime()),
+            isBuffering: this.isBuffering,
+            engine: this.engineType
+        });
+    }
+
+    getState(): AudioState {
+        return {
+            isPlaying: this.isPlaying,
+            isPaused: this.isPaused,
+            buffering: this.isBuffering,
+            currentTime: this.getCurrentTime(),
+            duration: this.duration,
+            volume: this.contextManager.getVolume(),
+            gainDb: this.contextManager.getGainDb(),
+            muted: this.contextManager.isMuted(),
+            playbackRate: this.playbackRate,
+            preservesPitch: this.preservePitch && this.contextManager.getTimeStretcher().isAvailable(),
+            engine: this.engineType
+        };
+    }
+
+    /**
+     * Metadata embedded in the current track (WAV LIST/INFO, bext, cue/adtl, iXML)
+     */
+    getTrackMetadata(): TrackMetadata | null {
+        const metadata = this.streamDecoder.getWavMetadata();
+        if (!metadata) return null;
+
+        const rate = metadata.sampleRate;
+        return {
+            title: metadata.info['INAM'] ?? null,
+            artist: metadata.info['IART'] ?? null,
+            info: metadata.info,
+            bext: metadata.bext,
+            cuePoints: rate > 0 ? metadata.cuePoints.map(cue => ({
+                id: cue.id,
+                time: cue.position / rate,
+                duration: cue.length !== null ? cue.length / rate : null,
+                label: cue.label,
+                note: cue.note
+            })) : [],
+            ixml: metadata.ixml
+        };
+    }
+
+    // ==================== Callbacks ====================
+
+    setOnProgressCallback(callback: ProgressCallback): void {
+        this.onProgressCallback = callback;
+    }
+
+    setOnEndCallback(callback: EndCallback): void {
+        this.onEndCallback = callback;
+    }
+
+    setOnTrackChangedCallback(callback: TrackChangedCallback): void {
+        this.onTrackChangedCallback = callback;
+    }
+
+    setOnChapterChangedCallback(callback: ChapterChangedCallback): void {
+        this.onChapterChangedCallback = callback;
+    }
+
+    setOnBufferingCallback(callback: BufferingCallback): void {
+        this.onBufferingCallback = callback;
+    }
+
+    setOnStreamStateCallback(callback: StreamStateCallback): void {
+        this.onStreamStateCallback = callback;
+    }
+
+    setOnErrorCallback(callback: ErrorCallback): void {
+        this.onErrorCallback = callback;
+    }
+
+    /**
+     * Report diagnostics every intervalMs; a null callback stops reporting
+     */
+    setOnDiagnosticsCallback(callback: DiagnosticsCallback | null, intervalMs: number = 10000): AudioResult {
+        if (callback && (!Number.isFinite(intervalMs) || intervalMs < 100)) {
+            return failure('INVALID_ARGUMENT', 'Invalid diagnostics interval');
+        }
+
+        this.stopDiagnosticsReporting();
+        if (callback) {
+            this.diagnosticsInterval = window.setInterval(() => callback(this.getDiagnostics()), intervalMs);
+        }
+        return { success: true };
+    }
+
+    // ==================== Loudness Normalization ====================
+
+    /**
+     * Change normalization settings; omitted fields keep their value. Gains move with a short ramp.
+     */
+    setLoudnessNormalization(options: NormalizationOptions): AudioResult {
+        try {
+            const settings = LoudnessNormalizer.resolveSettings(this.normalization, options);
+            this.contextManager.getLimiter().setCeiling(settings.ceilingDb);
+            this.contextManager.getInsertChain().setBypass(this.contextManager.getLimiter().id, !settings.limiter);
+            this.normalization = settings;
+
+            this.loudness.apply(this.scheduler, settings, 0.5);
+            this.nextTrack?.loudness.apply(this.nextTrack.scheduler, settings, 0.5);
+
+            log.info(`🔈 Loudness normalization ${settings.enabled ? `on, target ${settings.targetLufs} LUFS` : 'off'}, ` +
+                `limiter ${settings.limiter ? `${settings.ceilingDb} dBTP` : 'off'}`);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    getLoudnessNormalization(): NormalizationState {
+        return {
+            ...this.normalization,
+            trackLufs: this.loudness.getLoudness(),
+            source: this.loudness.getSource(),
+            gainDb: this.loudness.getAppliedGainDb()
+        };
+    }
+
+    // ==================== Inserts & Equalizer ====================
+
+    getInserts(): InsertInfo[] {
+        return this.contextManager.getInsertChain().list();
+    }
+
+    setInsertBypass(insertId: string, bypassed: boolean): AudioResult {
+        try {
+            this.contextManager.getInsertChain().setBypass(insertId, bypassed);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    moveInsert(insertId: string, index: number): AudioResult {
+        try {
+            this.contextManager.getInsertChain().move(insertId, index);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    getEqBands(): EqBand[] {
+        return this.contextManager.getEqualizer().getBands();
+    }
+
+    addEqBand(settings: EqBandSettings, index?: number): EqBandResult {
+        try {
+            const bandId = this.contextManager.getEqualizer().addBand(settings, index);
+            return { success: true, bandId };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    updateEqBand(bandId: string, settings: EqBandSettings): AudioResult {
+        try {
+            this.contextManager.getEqualizer().updateBand(bandId, settings);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    removeEqBand(bandId: string): AudioResult {
+        try {
+            this.contextManager.getEqualizer().removeBand(bandId);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    setEqBandBypass(bandId: string, bypassed: boolean): AudioResult {
+        try {
+            this.contextManager.getEqualizer().setBandBypass(bandId, bypassed);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    moveEqBand(bandId: string, index: number): AudioResult {
+        try {
+            this.contextManager.getEqualizer().moveBand(bandId, index);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Replace all EQ bands, e.g. from a preset
+     */
+    setEqBands(bands: EqBandSettings[]): AudioResult {
+        try {
+            this.contextManager.getEqualizer().setBands(bands);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    // ==================== Spectrum Analysis ====================
+
+    getSpectrumData(): number[] {
+        return this.contextManager.getSpectrumAnalyzer().getFrequencyData();
+    }
+
+    setSpectrumHighPass(freq: number): AudioResult {
+        try {
+            this.contextManager.getSpectrumAnalyzer().setHighPass(freq);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    setSpectrumLowPass(freq: number): AudioResult {
         try {
             this.contextManager.getSpectrumAnalyzer().setLowPass(freq);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
@@ -418,7 +1449,7 @@ export class AudioPlayer {
             this.contextManager.getSpectrumAnalyzer().setSlopeCorrection(dbPerDecade);
             return { success: true };
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     }
 
@@ -435,14 +1466,272 @@ export class AudioPlayer {
     private resetState(): void {
         this.isPlaying = false;
         this.isPaused = false;
+        this.setBuffering(false);
         this.pausePosition = 0;
         this.duration = 0;
         this.isStreamingMode = false;
         this.streamingStarted = false;
         this.streamingCompleted = false;
+        this.currentChapterIndex = -1;
+        this.bufferedRanges.clear();
+        this.streamTime = null;
+        this.streamRequestedTime = 0;
+        this.streamFeedsActive = true;
+        this.activeRangeFinal = false;
+        this.cacheKey = null;
+        this.streamFilePosition = null;
+        this.continuation = null;
+        this.streamPosition = 0;
+        this.streamLength = 0;
+        this.streamByteOffset = 0;
+    }
+
+    private async readCachedRanges(cacheKey: string): Promise<CachedTrackRanges | null> {
+        try {
+            return await this.chunkCache!.getRanges(cacheKey);
+        } catch (error) {
+            log.warn('⚠️ Chunk cache unavailable:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Write stream bytes to the chunk cache at their file offset, without waiting
+     */
+    private writeToCache(data: Uint8Array): void {
+        if (!this.chunkCache || !this.cacheKey || this.streamFilePosition === null || data.length === 0) return;
+
+        // Copy: the chunk's buffer belongs to the interop layer
+        this.chunkCache.put(this.cacheKey, this.streamFilePosition, data.slice(), this.cacheTotalLength)
+            .catch(error => log.warn('⚠️ Failed to cache stream chunk:', error));
+    }
+
+    /**
+     * Drop what a continued stream repeats: the offset stream's WAV header, then the
+     * bytes before the position the stream continues from
+     */
+    private stripContinuationPrefix(chunk: Uint8Array): Uint8Array {
+        const continuation = this.continuation;
+        if (!continuation) return chunk;
+
+        let data = chunk;
+        if (continuation.stripHeader) {
+            const buffered = new Uint8Array(continuation.pending.length + data.length);
+            buffered.set(continuation.pending);
+            buffered.set(data, continuation.pending.length);
+
+            const header = WavUtils.parseHeader([buffered], buffered.length);
+            if (!header) {
+                continuation.pending = buffered;
+                return new Uint8Array(0);
+            }
+
+            continuation.stripHeader = false;
+            continuation.pending = new Uint8Array(0);
+            data = buffered.subarray(header.headerSize);
+        }
+
+        const skipped = Math.min(continuation.skipBytes, data.length);
+        continuation.skipBytes -= skipped;
+        if (continuation.skipBytes === 0) {
+            this.continuation = null;
+        }
+        return data.subarray(skipped);
+    }
+
+    private createEngine(): PlaybackEngine {
+        const engine = this.engineType === 'worklet'
+            ? new WorkletPlaybackEngine(this.contextManager)
+            : new PlaybackScheduler(this.contextManager);
+        engine.setPlaybackRate(this.playbackRate);
+        return engine;
+    }
+
+    private createDecoder(): StreamDecoder {
+        const decoder = new StreamDecoder(this.contextManager, this.pcmDecoder);
+        decoder.onDecodeError = error => this.emitError(error, 'decode');
+        return decoder;
+    }
+
+    /**
+     * Report a failure that happened outside any call .NET is waiting on
+     */
+    private emitError(error: unknown, source: AudioErrorEvent['source'], retry: StreamRetryInfo | null = null): void {
+        this.onErrorCallback?.({
+            code: getErrorCode(error),
+            message: (error as Error).message,
+            source,
+            retry
+        });
+    }
+
+    private attachScheduler(scheduler: PlaybackEngine): void {
+        scheduler.onPlaybackEnded = () => this.handlePlaybackEnded();
+        scheduler.onBuffersScheduled = () => this.tryScheduleNextTrack();
+        scheduler.onSourceScheduled = leadSeconds => {
+            this.diagnostics.markFirstAudio();
+            this.diagnostics.recordScheduleLead(leadSeconds);
+        };
+    }
+
+    private detachScheduler(scheduler: PlaybackEngine): void {
+        scheduler.onPlaybackEnded = null;
+        scheduler.onBuffersScheduled = null;
+        scheduler.onSourceScheduled = null;
+    }
+
+    /**
+     * Start decision: buffered seconds from the start position against the download time
+     * of the rest of the stream. The start position defaults to the start of the buffers.
+     */
+    private canStartPlayback(decoder: StreamDecoder, scheduler: PlaybackEngine, threshold: StartThreshold, duration: number,
+                             startPosition: number = scheduler.getPlaybackOffset()): boolean {
+        if (!decoder.headerParsed) return false;
+
+        // Track seconds play in seconds / rate of wall-clock time, which the download races against
+        return threshold.canStart({
+            bufferedSeconds: (scheduler.getTotalDuration() + scheduler.getPlaybackOffset() - startPosition) / this.playbackRate,
+            remainingSeconds: Math.max(0, duration - startPosition) / this.playbackRate,
+            remainingBytes: decoder.remainingBytes,
+            streamComplete: decoder.isComplete
+        });
+    }
+
+    private buildNextTrackResult(next: NextTrack): StreamingResult {
+        return {
+            success: true,
+            canStartStreaming: this.canStartPlayback(next.decoder, next.scheduler, next.startThreshold, next.duration),
+            headerParsed: next.decoder.headerParsed,
+            bufferCount: next.scheduler.getBufferCount(),
+            duration: next.duration
+        };
+    }
+
+    /**
+     * Queue the next track once the current one has been fully received.
+     * Gapless: first buffer starts at the exact end time of the current track's last scheduled buffer.
+     * Crossfade: starts crossfadeDuration before the projected end, with equal-power gain ramps.
+     */
+    private tryScheduleNextTrack(): void {
+        const next = this.nextTrack;
+        if (!next || next.isScheduled || !this.isPlaying) return;
+        if (!this.isActiveRangeComplete() || !next.scheduler.hasBuffers()) return;
+
+        const now = this.contextManager.currentTime;
+        let startTime: number;
+        let fadeDuration = 0;
+
+        const projectedEnd = this.scheduler.getProjectedEndTime();
+        const fadeWindow = Math.min(this.crossfadeDuration, projectedEnd - now - 0.01);
+
+        if (this.crossfadeDuration > 0 && this.scheduler.isActive() && fadeWindow >= this.minCrossfadeDuration) {
+            fadeDuration = fadeWindow;
+            startTime = projectedEnd - fadeDuration;
+        } else {
+            if (!this.scheduler.isFullyScheduled()) return;
+            startTime = this.scheduler.getScheduledEndTime();
+            if (startTime <= now) return; // Too late - handled on playback end
+        }
+
+        next.scheduler.playFromPosition(0, startTime);
+        next.isScheduled = true;
+
+        if (fadeDuration > 0) {
+            this.scheduler.fadeOut(startTime, fadeDuration);
+            next.scheduler.fadeIn(startTime, fadeDuration);
+        }
+
+        log.info(`⏭️ Next track scheduled at ${startTime.toFixed(3)}s (crossfade ${fadeDuration.toFixed(3)}s)`);
+    }
+
+    /**
+     * Pull back a queued next track (current track paused or repositioned)
+     */
+    private unscheduleNextTrack(): void {
+        if (this.nextTrack?.isScheduled) {
+            this.nextTrack.scheduler.resetToStart();
+            this.nextTrack.scheduler.cancelFade();
+            this.nextTrack.isScheduled = false;
+            this.scheduler.cancelFade();
+        }
+    }
+
+    /**
+     * Make the next track current when the current track finishes
+     */
+    private promoteNextTrack(next: NextTrack): void {
+        this.nextTrack = null;
+        this.nextTrackPromoted = true;
+
+        this.detachScheduler(this.scheduler);
+        this.scheduler.clear();
+        this.scheduler.disconnect();
+        this.streamDecoder.reset();
+
+        this.streamDecoder = next.decoder;
+        this.scheduler = next.scheduler;
+        this.startThreshold = next.startThreshold;
+        this.loudness = next.loudness;
+        this.attachScheduler(this.scheduler);
+
+        this.duration = next.duration;
+        this.streamingCompleted = next.streamingCompleted;
+        this.bufferedRanges.clear();
+        this.streamTime = next.scheduler.getTotalDuration();
+        this.streamRequestedTime = 0;
+        this.streamFeedsActive = true;
+        this.activeRangeFinal = false;
+        this.cacheKey = null;
+        this.streamFilePosition = null;
+        this.streamPosition = next.bytesReceived;
+        this.streamLength = next.streamLength;
+        this.streamByteOffset = 0;
+        this.streamTotalBytes = next.streamLength;
+        this.streamBytesBase = 0;
+        this.continuation = null;
+        this.isPaused = false;
+        this.setBuffering(false);
+        this.pausePosition = 0;
+
+        if (next.isScheduled) {
+            this.streamingStarted = true;
+            this.isPlaying = true;
+        } else if (next.scheduler.hasBuffers()) {
+            this.streamingStarted = true;
+            this.isPlaying = true;
+            this.scheduler.playFromPosition(0);
+        } else {
+            this.streamingStarted = false;
+            this.isPlaying = false;
+            this.autoStartWhenReady = true;
+        }
+
+        if (this.isPlaying) {
+            this.startProgressTracking();
+        } else {
+            this.stopProgressTracking();
+        }
+
+        log.info('⏭️ Advanced to next track');
+        this.currentChapterIndex = -1;
+        this.onTrackChangedCallback?.();
     }
 
     private handlePlaybackEnded(): void {
+        // Ended during a transport fade-out: the pending pause, stop or seek decides what plays next
+        if (this.pendingTransport) return;
+
+        // Buffers ran out before the end of the track: an underrun
+        if (this.isStreamingMode && !this.isActiveRangeComplete()) {
+            this.enterBuffering();
+            return;
+        }
+
+        if (this.nextTrack) {
+            this.promoteNextTrack(this.nextTrack);
+            return;
+        }
+
         this.isPlaying = false;
         this.isPaused = false;
         this.pausePosition = 0;
@@ -450,11 +1739,245 @@ export class AudioPlayer {
         this.onEndCallback?.();
     }
 
+    /**
+     * Stall at the end of the buffered audio until enough of the stream has arrived
+     */
+    private enterBuffering(): void {
+        // Every received buffer has played, so the playhead sits at the end of the buffered audio
+        this.pausePosition = this.scheduler.getTotalDuration() + this.scheduler.getPlaybackOffset();
+        this.isPlaying = false;
+        this.stopProgressTracking();
+        this.unscheduleNextTrack();
+        this.setBuffering(true);
+
+        log.info(`⏳ Buffer underrun at ${this.pausePosition.toFixed(3)}s, waiting for data`);
+        this.tryResumeFromBuffering();
+    }
+
+    /**
+     * Resume from the stall position once the start threshold is met from that point
+     */
+    private tryResumeFromBuffering(): void {
+        const bufferRelativePosition = this.pausePosition - this.scheduler.getPlaybackOffset();
+        const canResume = this.startThreshold.canStart({
+            bufferedSeconds: (this.scheduler.getTotalDuration() - bufferRelativePosition) / this.playbackRate,
+            remainingSeconds: Math.max(0, this.duration - this.pausePosition) / this.playbackRate,
+            remainingBytes: this.streamDecoder.remainingBytes,
+            streamComplete: this.streamDecoder.isComplete
+        });
+        if (!canResume) return;
+
+        this.isPlaying = true;
+        this.isPaused = false;
+        this.setBuffering(false);
+        this.playFromTrackPosition(this.pausePosition);
+        this.startProgressTracking();
+
+        log.info(`▶️ Resumed after buffering from ${this.pausePosition.toFixed(3)}s`);
+    }
+
+    private setBuffering(isBuffering: boolean): void {
+        if (this.isBuffering === isBuffering) return;
+        this.isBuffering = isBuffering;
+        if (isBuffering) {
+            this.diagnostics.beginUnderrun();
+        } else {
+            this.diagnostics.endUnderrun();
+        }
+        this.onBufferingCallback?.(isBuffering);
+    }
+
+    /**
+     * Play from a track position, converting to the scheduler's buffer-relative timeline
+     */
+    private playFromTrackPosition(position: number): void {
+        this.contextManager.rampTransportGain(1, this.transportFadeMs / 1000, 0);
+        this.scheduler.playFromPosition(Math.max(0, position - this.scheduler.getPlaybackOffset()));
+        this.diagnostics.markFirstAudio();     // Engines without sources (worklet) start here
+    }
+
+    /**
+     * Switch the engines and the time stretch to a new rate, restarting playback where it was
+     */
+    private applyPlaybackRate(rate: number, preservePitch: boolean): AudioResult {
+        try {
+            const wasPlaying = this.isPlaying;
+            const position = this.getCurrentTime();
+            if (wasPlaying) {
+                this.scheduler.stopAllSources();
+                this.unscheduleNextTrack();
+            }
+
+            this.playbackRate = rate;
+            this.preservePitch = preservePitch;
+            this.scheduler.setPlaybackRate(rate);
+            this.nextTrack?.scheduler.setPlaybackRate(rate);
+            const timeStretcher = this.contextManager.getTimeStretcher();
+            timeStretcher.configure(rate, preservePitch);
+            if (preservePitch && rate !== 1 && !timeStretcher.isAvailable()) {
+                log.warn('Time stretch unavailable, pitch follows the playback rate');
+            }
+
+            if (wasPlaying) {
+                this.pausePosition = position;
+                this.playFromTrackPosition(position);
+                this.tryScheduleNextTrack();
+            }
+
+            log.info(`⏩ Playback rate ${rate.toFixed(2)}x${preservePitch ? ', pitch preserved' : ''}`);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    }
+
+    /**
+     * Run a transport change once the transport gain has faded out and the fade has left the
+     * time stretch; at once when nothing is audible
+     */
+    private afterFadeOut(action: () => void): void {
+        this.settleTransport();
+        if (!this.isPlaying || this.transportFadeMs <= 0) {
+            action();
+            return;
+        }
+
+        this.contextManager.rampTransportGain(0, this.transportFadeMs / 1000);
+        const latencyMs = this.contextManager.getTimeStretcher().getLatencySeconds() * 1000;
+        const timer = window.setTimeout(() => this.settleTransport(), this.transportFadeMs + latencyMs + this.transportSettleMarginMs);
+        this.pendingTransport = { timer, action };
+    }
+
+    /**
+     * afterFadeOut for an operation with a result: the result when run at once, success when deferred
+     */
+    private afterFadeOutResult(operation: () => AudioResult): AudioResult {
+        const outcome: { result: AudioResult | null; deferred: boolean } = { result: null, deferred: false };
+        this.afterFadeOut(() => {
+            outcome.result = operation();
+            if (outcome.deferred && !outcome.result.success) {
+                this.emitError(AudioError.fromResult(outcome.result), 'playback');
+            }
+        });
+        outcome.deferred = true;
+        return outcome.result ?? { success: true };
+    }
+
+    /**
+     * Run a transport change still waiting for its fade-out, so later calls see its effect
+     */
+    private settleTransport(): void {
+        const pending = this.pendingTransport;
+        if (!pending) return;
+
+        this.pendingTransport = null;
+        clearTimeout(pending.timer);
+        try {
+            pending.action();
+        } catch (error) {
+            log.error('Deferred transport change failed:', error);
+            this.emitError(error, 'playback');
+        }
+    }
+
+    /**
+     * Release buffers that fell out of the retention window behind the playhead
+     */
+    private releasePlayedAudio(currentTime: number): void {
+        if (!Number.isFinite(this.retentionSeconds)) return;
+        this.scheduler.releaseBefore(currentTime - this.retentionSeconds);
+        this.bufferedRanges.releaseBefore(currentTime - this.retentionSeconds);
+    }
+
+    /**
+     * Place a decoded buffer at its track time: extend the active range, or the stored
+     * range the stream is filling. Audio the active range already holds is trimmed off.
+     */
+    private appendDecodedBuffer(buffer: AudioBuffer): void {
+        this.loudness.measure(buffer, this.scheduler, this.normalization);
+
+        // Compressed offset streams start at a frame boundary, not exactly at the requested position
+        const time = this.streamTime ?? this.streamDecoder.getStreamStartTime() ?? this.streamRequestedTime;
+        this.streamTime = time + buffer.duration;
+
+        if (!this.streamFeedsActive) {
+            // The active range runs from its start to the end of the track
+            if (time < this.scheduler.getPlaybackOffset()) {
+                this.bufferedRanges.store(time, [buffer]);
+            }
+            return;
+        }
+
+        if (!this.scheduler.hasBuffers()) {
+            this.scheduler.setPlaybackOffset(time);
+            this.scheduler.addBuffer(buffer);
+        } else {
+            const overlapFrames = Math.round((this.getBufferedDuration() - time) * buffer.sampleRate);
+            if (overlapFrames >= buffer.length) return;
+            this.scheduler.addBuffer(overlapFrames > 0 ? this.contextManager.sliceAudioBuffer(buffer, overlapFrames) : buffer);
+        }
+
+        this.joinReachedRange();
+    }
+
+    /**
+     * Append a stored range the active range has grown into
+     */
+    private joinReachedRange(): void {
+        const reached = this.bufferedRanges.takeReached(this.scheduler.getPlaybackOffset(), this.getBufferedDuration());
+        if (!reached) return;
+
+        for (const buffer of reached.buffers) {
+            this.scheduler.addBuffer(buffer);
+        }
+        this.activeRangeFinal = this.activeRangeFinal || reached.final;
+        log.debug(`🔗 Joined stored range, buffered to ${this.getBufferedDuration().toFixed(3)}s`);
+    }
+
+    /**
+     * Move the engine's buffers into the range map
+     */
+    private stashActiveRange(): void {
+        const start = this.scheduler.getPlaybackOffset();
+        const final = this.isActiveRangeComplete();
+        this.bufferedRanges.store(start, this.scheduler.clearForSeek(), final);
+        this.activeRangeFinal = false;
+    }
+
+    /**
+     * Make a stored range the engine's active range
+     */
+    private loadStoredRange(range: StoredRange): void {
+        this.scheduler.setPlaybackOffset(range.start);
+        for (const buffer of range.buffers) {
+            this.scheduler.addBuffer(buffer);
+        }
+        this.activeRangeFinal = range.final;
+    }
+
+    /**
+     * Active range runs to the end of the track
+     */
+    private isActiveRangeComplete(): boolean {
+        return this.activeRangeFinal || (this.streamFeedsActive && this.streamingCompleted);
+    }
+
+    /**
+     * Stored range the current stream is still filling
+     */
+    private isStreamTarget(range: StoredRange): boolean {
+        return !this.streamFeedsActive && !this.streamingCompleted && this.streamTime !== null &&
+            Math.abs(range.start + range.duration - this.streamTime) <= 0.001;
+    }
+
     private startProgressTracking(): void {
         this.stopProgressTracking();
         this.progressInterval = window.setInterval(() => {
-            if (this.onProgressCallback && this.isPlaying) {
-                this.onProgressCallback(this.getCurrentTime());
+            if (this.isPlaying) {
+                const currentTime = this.getCurrentTime();
+                this.onProgressCallback?.(currentTime);
+                this.updateCurrentChapter(currentTime);
+                this.releasePlayedAudio(currentTime);
             }
         }, 100);
     }
@@ -466,11 +1989,214 @@ export class AudioPlayer {
         }
     }
 
+    private stopDiagnosticsReporting(): void {
+        if (this.diagnosticsInterval) {
+            clearInterval(this.diagnosticsInterval);
+            this.diagnosticsInterval = null;
+        }
+    }
+
+    // ==================== Direct Streaming Internals ====================
+
+    /**
+     * Feed the cached head (if any), then the rest of the track from the network
+     */
+    private async feedStream(session: number, url: string, fromCache: boolean): Promise<void> {
+        try {
+            if (fromCache) {
+                await this.feedCachedChunks(session);
+                if (session !== this.streamSession) return;
+            }
+
+            // After a cached head the fetcher is not open yet; the retry loop continues the stream
+            if (!this.streamDecoder.isComplete && !await this.pumpWithRetry(session, url)) {
+                return;
+            }
+            if (session === this.streamSession) {
+                this.emitStreamState('complete');
+            }
+        } catch (error) {
+            this.failStream(session, error);
+        }
+    }
+
+    private async feedCachedChunks(session: number): Promise<void> {
+        while (session === this.streamSession) {
+            await this.waitForStreamDemand(session);
+            const result = await this.processCachedChunk(this.streamChunkSize);
+            if (!result.success) {
+                throw AudioError.fromResult(result);
+            }
+            if (!result.bytesRead) return;
+            this.emitStreamState('streaming');
+        }
+    }
+
+    private pumpStream(session: number): Promise<void> {
+        return this.streamFetcher.pump({
+            consume: async chunk => {
+                if (session !== this.streamSession) return;
+                const result = await this.processStreamingChunk(chunk);
+                if (!result.success) {
+                    throw AudioError.fromResult(result);
+                }
+                this.emitStreamState('streaming');
+            },
+            waitForDemand: () => this.waitForStreamDemand(session)
+        });
+    }
+
+    /**
+     * Refetch the direct stream from a byte offset after a seek beyond the buffer
+     */
+    private async reopenStream(position: number, byteOffset: number): Promise<void> {
+        const url = this.streamUrl;
+        if (url === null) return;
+
+        await this.closeStream();
+        const session = this.streamSession;
+
+        try {
+            this.streamUrl = url;
+            this.emitStreamState('loading');
+
+            const contentLength = await this.streamFetcher.open(this.buildStreamUrl(url, byteOffset));
+            if (session !== this.streamSession) return;
+
+            const reinit = this.reinitializeFromOffset(contentLength, position, byteOffset);
+            if (!reinit.success) {
+                throw AudioError.fromResult(reinit);
+            }
+
+            this.streamBytesBase = Math.max(0, this.streamTotalBytes - contentLength);
+            this.autoStartWhenReady = this.streamAutoPlay;
+
+            if (await this.pumpWithRetry(session, url)) {
+                this.emitStreamState('complete');
+            }
+        } catch (error) {
+            this.failStream(session, error);
+        }
+    }
+
+    /**
+     * Pump the stream to its end. Failed or stalled transfers are retried with exponential
+     * backoff, each resuming at the exact byte after the last one received (continueStream);
+     * a transfer that made progress resets the backoff. Resolves false when the stream was
+     * superseded or failed for good; the failure has then been reported with its last attempt.
+     */
+    private async pumpWithRetry(session: number, url: string): Promise<boolean> {
+        let attempt = 0;
+
+        while (session === this.streamSession) {
+            const positionBefore = this.streamPosition;
+            try {
+                if (!this.streamFetcher.isOpen()) {
+                    const continuation = this.continueStream();
+                    if (!continuation.success) {
+                        throw AudioError.fromResult(continuation);
+                    }
+                    await this.streamFetcher.open(this.buildStreamUrl(url, continuation.byteOffset ?? 0));
+                    if (session !== this.streamSession) return false;
+                }
+
+                await this.pumpStream(session);
+
+                // A body that ends cleanly but short is a dropped connection too
+                if (session === this.streamSession && !this.streamDecoder.isComplete &&
+                    this.streamLength > 0 && this.streamPosition < this.streamLength) {
+                    throw new StreamFetchError('network', `Stream ended at ${this.streamPosition} of ${this.streamLength} bytes`);
+                }
+                return session === this.streamSession;
+            } catch (error) {
+                if (session !== this.streamSession) return false;
+                await this.streamFetcher.close();
+
+                attempt = this.streamPosition > positionBefore ? 1 : attempt + 1;
+                const retryable = error instanceof StreamFetchError && error.retryable;
+                if (!retryable || attempt > this.maxStreamRetries) {
+                    this.failStream(session, error, this.createRetryInfo(error, attempt, null));
+                    return false;
+                }
+
+                const delay = Math.min(this.retryBaseDelayMs * 2 ** (attempt - 1), this.retryMaxDelayMs);
+                log.warn(`⚠️ Stream transfer failed at ${this.streamPosition} bytes, retry ${attempt}/${this.maxStreamRetries} in ${delay}ms:`, error);
+                this.emitError(error, 'stream', this.createRetryInfo(error, attempt, delay));
+                this.diagnostics.countStreamRetry();
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+        return false;
+    }
+
+    private createRetryInfo(error: unknown, attempt: number, retryInMs: number | null): StreamRetryInfo {
+        return {
+            httpStatus: error instanceof StreamFetchError ? error.status : null,
+            attempt,
+            maxRetries: this.maxStreamRetries,
+            retryInMs,
+            fatal: retryInMs === null,
+            bytesReceived: this.streamPosition
+        };
+    }
+
+    /**
+     * Hold the download while more than maxBufferAheadSeconds of audio is ahead of the playhead
+     */
+    private async waitForStreamDemand(session: number): Promise<void> {
+        while (session === this.streamSession && this.maxBufferAheadSeconds !== null && this.streamingStarted &&
+            this.getBufferedDuration() - this.getCurrentTime() > this.maxBufferAheadSeconds) {
+            await new Promise(resolve => setTimeout(resolve, this.streamStateIntervalMs));
+        }
+    }
+
+    private buildStreamUrl(url: string, byteOffset: number): string {
+        const streamUrl = new URL(url, document.baseURI);
+        if (byteOffset > 0) {
+            streamUrl.searchParams.set('offset', byteOffset.toString());
+        }
+        return streamUrl.href;
+    }
+
+    private failStream(session: number, error: unknown, retry: StreamRetryInfo | null = null): void {
+        if (session !== this.streamSession) return;
+        log.error('❌ Direct stream failed:', error);
+        this.emitStreamState('error', (error as Error).message);
+        this.emitError(error, 'stream', retry);
+    }
+
+    /**
+     * Report loading state; 'streaming' updates are throttled except when playback starts
+     */
+    private emitStreamState(state: StreamLoadState, error?: string): void {
+        if (!this.onStreamStateCallback) return;
+
+        const now = performance.now();
+        const startedChanged = this.streamingStarted !== this.lastStreamStateStarted;
+        if (state === 'streaming' && !startedChanged && now - this.lastStreamStateTime < this.streamStateIntervalMs) {
+            return;
+        }
+        this.lastStreamStateTime = now;
+        this.lastStreamStateStarted = this.streamingStarted;
+
+        this.onStreamStateCallback({
+            state,
+            bytesLoaded: this.streamBytesBase + this.streamPosition,
+            totalBytes: this.streamTotalBytes,
+            playbackStarted: this.streamingStarted,
+            duration: this.duration,
+            error
+        });
+    }
+
     // ==================== Cleanup ====================
 
     dispose(): void {
         this.stop();
+        this.settleTransport();
         this.stopProgressTracking();
+        this.stopDiagnosticsReporting();
+        this.pcmDecoder.dispose();
         this.contextManager.dispose();
     }
 }
@@ -0,0 +1,161 @@
+/**
+ * AudioRingBuffer - Single-producer/single-consumer lock-free ring of planar Float32 audio.
+ *
+ * Single Responsibility: Move decoded PCM from the main thread (producer) to the
+ * playback AudioWorkletProcessor (consumer) through SharedArrayBuffers.
+ *
+ * Only the producer advances WRITE and requests flushes; only the consumer advances READ,
+ * applies flushes and updates PLAYED. One slot is kept empty to tell full from empty.
+ */
+
+const READ = 0;             // Consumer: next frame index to read
+const WRITE = 1;            // Producer: next frame index to write
+const FLUSH_INDEX = 2;      // Producer: write index at the time of the flush request
+const FLUSH_GEN = 3;        // Producer: incremented per flush request
+const FLUSH_POSITION = 4;   // Producer: timeline frame of the first frame written after the flush
+const PLAYED = 5;           // Consumer: timeline frame of the next frame to be output
+const APPLIED_GEN = 6;      // Consumer: last flush generation applied
+const STATE_SLOTS = 8;
+
+export interface AudioRingBufferInit {
+    state: SharedArrayBuffer;
+    data: SharedArrayBuffer;
+    channels: number;
+    capacity: number;
+}
+
+export class AudioRingBuffer {
+    private state: Int32Array;
+    private channelData: Float32Array[] = [];
+    private capacity: number;
+
+    constructor(init: AudioRingBufferInit) {
+        this.state = new Int32Array(init.state);
+        this.capacity = init.capacity;
+        for (let ch = 0; ch < init.channels; ch++) {
+            this.channelData.push(new Float32Array(init.data, ch * init.capacity * 4, init.capacity));
+        }
+    }
+
+    /**
+     * Allocate shared storage for a ring holding capacity frames per channel
+     */
+    static allocate(channels: number, capacity: number): AudioRingBufferInit {
+        return {
+            state: new SharedArrayBuffer(STATE_SLOTS * 4),
+            data: new SharedArrayBuffer(channels * capacity * 4),
+            channels,
+            capacity
+        };
+    }
+
+    static isSupported(): boolean {
+        return typeof SharedArrayBuffer !== 'undefined' && typeof Atomics !== 'undefined';
+    }
+
+    get channels(): number {
+        return this.channelData.length;
+    }
+
+    availableRead(): number {
+        const read = Atomics.load(this.state, READ);
+        const write = Atomics.load(this.state, WRITE);
+        return (write - read + this.capacity) % this.capacity;
+    }
+
+    availableWrite(): number {
+        return this.capacity - 1 - this.availableRead();
+    }
+
+    // ==================== Producer ====================
+
+    /**
+     * Write up to frames samples per channel from source starting at sourceOffset.
+     * Returns the number of frames written.
+     */
+    write(source: Float32Array[], sourceOffset: number, frames: number): number {
+        const toWrite = Math.min(frames, this.availableWrite());
+        let write = Atomics.load(this.state, WRITE);
+
+        let written = 0;
+        while (written < toWrite) {
+            const span = Math.min(toWrite - written, this.capacity - write);
+            for (let ch = 0; ch < this.channelData.length; ch++) {
+                const input = source[Math.min(ch, source.length - 1)];
+                this.channelData[ch].set(input.subarray(sourceOffset + written, sourceOffset + written + span), write);
+            }
+            written += span;
+            write = (write + span) % this.capacity;
+        }
+
+        Atomics.store(this.state, WRITE, write);
+        return written;
+    }
+
+    /**
+     * Discard everything written so far; the next frame written is timeline frame positionFrames
+     */
+    requestFlush(positionFrames: number): void {
+        Atomics.store(this.state, FLUSH_INDEX, Atomics.load(this.state, WRITE));
+        Atomics.store(this.state, FLUSH_POSITION, positionFrames);
+        Atomics.add(this.state, FLUSH_GEN, 1);
+    }
+
+    get flushGeneration(): number {
+        return Atomics.load(this.state, FLUSH_GEN);
+    }
+
+    get playedFrames(): number {
+        return Atomics.load(this.state, PLAYED);
+    }
+
+    get appliedFlushGeneration(): number {
+        return Atomics.load(this.state, APPLIED_GEN);
+    }
+
+    /**
+     * True until the consumer has applied the latest flush (PLAYED is stale meanwhile)
+     */
+    isFlushPending(): boolean {
+        return this.flushGeneration !== this.appliedFlushGeneration;
+    }
+
+    // ==================== Consumer ====================
+
+    /**
+     * Apply the latest flush request, if any. Returns true when a flush was applied.
+     */
+    applyPendingFlush(): boolean {
+        const generation = Atomics.load(this.state, FLUSH_GEN);
+        if (generation === Atomics.load(this.state, APPLIED_GEN)) return false;
+
+        Atomics.store(this.state, READ, Atomics.load(this.state, FLUSH_INDEX));
+        Atomics.store(this.state, PLAYED, Atomics.load(this.state, FLUSH_POSITION));
+        Atomics.store(this.state, APPLIED_GEN, generation);
+        return true;
+    }
+
+    /**
+     * Read up to frames samples per channel into output starting at outputOffset.
+     * Returns the number of frames read; PLAYED advances by the same amount.
+     */
+    read(output: Float32Array[], outputOffset: number, frames: number): number {
+        const toRead = Math.min(frames, this.availableRead());
+        let read = Atomics.load(this.state, READ);
+
+        let done = 0;
+        while (done < toRead) {
+            const span = Math.min(toRead - done, this.capacity - read);
+            for (let ch = 0; ch < output.length; ch++) {
+                const ring = this.channelData[Math.min(ch, this.channelData.length - 1)];
+                output[ch].set(ring.subarray(read, read + span), outputOffset + done);
+            }
+            done += span;
+            read = (read + span) % this.capacity;
+        }
+
+        Atomics.store(this.state, READ, read);
+        Atomics.add(this.state, PLAYED, toRead);
+        return toRead;
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * BufferedRangeMap - Decoded audio kept outside the playback engine's active range.
+ *
+ * Single Responsibility: Hold sorted, non-overlapping time ranges of decoded buffers
+ * (track time) so audio downloaded before a seek is not thrown away, and merge
+ * ranges when they meet.
+ */
+
+import { AudioContextManager } from './AudioContextManager.js';
+
+export interface BufferedRange {
+    start: number;
+    end: number;
+}
+
+export interface StoredRange {
+    start: number;
+    duration: number;
+    buffers: AudioBuffer[];
+    final: boolean;     // Runs to the end of the track
+}
+
+export class BufferedRangeMap {
+    private static readonly tolerance = 0.001;  // Ranges closer than this meet
+
+    private contextManager: AudioContextManager;
+    private ranges: StoredRange[] = [];
+
+    constructor(contextManager: AudioContextManager) {
+        this.contextManager = contextManager;
+    }
+
+    /**
+     * Store buffers starting at a track time, merging with ranges they overlap or meet
+     */
+    store(start: number, buffers: AudioBuffer[], final: boolean = false): void {
+        if (buffers.length === 0) return;
+
+        let merged: StoredRange = {
+            start,
+            duration: buffers.reduce((sum, b) => sum + b.duration, 0),
+            buffers,
+            final
+        };
+
+        const kept: StoredRange[] = [];
+        for (const range of this.ranges) {
+            const meets = range.start <= merged.start + merged.duration + BufferedRangeMap.tolerance &&
+                range.start + range.duration >= merged.start - BufferedRangeMap.tolerance;
+            if (!meets) {
+                kept.push(range);
+            } else {
+                merged = range.start <= merged.start ? this.join(range, merged) : this.join(merged, range);
+            }
+        }
+
+        kept.push(merged);
+        kept.sort((a, b) => a.start - b.start);
+        this.ranges = kept;
+    }
+
+    /**
+     * Stored range containing a track position
+     */
+    find(position: number): StoredRange | null {
+        return this.ranges.find(range => position >= range.start && position < range.start + range.duration) ?? null;
+    }
+
+    /**
+     * Remove and return the stored range containing a track position
+     */
+    take(position: number): StoredRange | null {
+        const range = this.find(position);
+        if (range) {
+            this.ranges = this.ranges.filter(r => r !== range);
+        }
+        return range;
+    }
+
+    /**
+     * Remove ranges starting inside [start, end] - the active range has reached them.
+     * Returns the audio beyond end, trimmed to start exactly at end, or null.
+     */
+    takeReached(start: number, end: number): StoredRange | null {
+        const reached = this.ranges.filter(range =>
+            range.start >= start - BufferedRangeMap.tolerance && range.start <= end + BufferedRangeMap.tolerance);
+        if (reached.length === 0) return null;
+
+        this.ranges = this.ranges.filter(range => !reached.includes(range));
+
+        const last = reached[reached.length - 1];
+        const lastEnd = last.start + last.duration;
+        if (lastEnd <= end + BufferedRangeMap.tolerance) return null;
+
+        const buffers = this.trimStart(last.buffers, end - last.start);
+        return { start: end, duration: lastEnd - end, buffers, final: last.final };
+    }
+
+    /**
+     * Mark the range ending at a track time as running to the end of the track
+     */
+    markFinal(end: number): void {
+        const range = this.ranges.find(r => Math.abs(r.start + r.duration - end) <= BufferedRangeMap.tolerance);
+        if (range) {
+            range.final = true;
+        }
+    }
+
+    /**
+     * Release buffers that end before a track position
+     */
+    releaseBefore(position: number): void {
+        for (const range of this.ranges) {
+            while (range.buffers.length > 0 && range.start + range.buffers[0].duration <= position) {
+                const released = range.buffers.shift()!;
+                range.start += released.duration;
+                range.duration -= released.duration;
+            }
+        }
+        this.ranges = this.ranges.filter(range => range.buffers.length > 0);
+    }
+
+    getRanges(): BufferedRange[] {
+        return this.ranges.map(range => ({ start: range.start, end: range.start + range.duration }));
+    }
+
+    clear(): void {
+        this.ranges = [];
+    }
+
+    /**
+     * Combine two meeting ranges, earlier.start <= later.start
+     */
+    private join(earlier: StoredRange, later: StoredRange): StoredRange {
+        const earlierEnd = earlier.start + earlier.duration;
+        const laterEnd = later.start + later.duration;
+        if (laterEnd <= earlierEnd + BufferedRangeMap.tolerance) {
+            return { ...earlier, final: earlier.final || later.final };
+        }
+
+        const buffers = [...earlier.buffers, ...this.trimStart(later.buffers, earlierEnd - later.start)];
+        return {
+            start: earlier.start,
+            duration: buffers.reduce((sum, b) => sum + b.duration, 0),
+            buffers,
+            final: later.final
+        };
+    }
+
+    /**
+     * Drop the first seconds of a buffer list, slicing the buffer that straddles the cut
+     */
+    private trimStart(buffers: AudioBuffer[], seconds: number): AudioBuffer[] {
+        const trimmed: AudioBuffer[] = [];
+        let remaining = seconds;
+
+        for (const buffer of buffers) {
+            if (remaining <= 0) {
+                trimmed.push(buffer);
+                continue;
+            }
+
+            const frames = Math.round(remaining * buffer.sampleRate);
+            remaining -= buffer.duration;
+            if (frames >= buffer.length) continue;
+
+            trimmed.push(frames > 0 ? this.contextManager.sliceAudioBuffer(buffer, frames) : buffer);
+            remaining = 0;
+        }
+
+        return trimmed;
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * CompressedStreamParser - Contract for compressed formats decoded through decodeAudioData.
+ *
+ * Single Responsibility: Describe how StreamDecoder splits a compressed stream on page or
+ * frame boundaries and maps seek positions to byte offsets. Byte offsets are relative to
+ * the first audio byte after the stream headers, matching the WAV offset convention.
+ */
+
+export type CompressedFormat = 'opus' | 'mp3';
+
+export interface CompressedSegment {
+    data: Uint8Array;           // Self-contained bytes for decodeAudioData
+    bytesConsumed: number;      // Stream bytes consumed, including skipped unsynced bytes
+    duration: number | null;    // Seconds to keep; decoded audio beyond this is pre-roll, trimmed from the start
+    startTime: number | null;   // Track time of the first kept sample, when known
+}
+
+export interface CompressedStreamParser {
+    readonly format: CompressedFormat;
+
+    /** Bytes before the first audio page/frame, null until the headers are parsed */
+    readonly headerLength: number | null;
+
+    /** Native sample rate of the stream, 0 until the headers are parsed */
+    readonly sampleRate: number;
+
+    /** Parse stream headers from the start of the stream; null when more data is needed */
+    parseHeaders(data: Uint8Array): number | null;
+
+    /** Next group of complete pages/frames at the start of data; null when more data is needed */
+    nextSegment(data: Uint8Array, streamOffset: number, isFinal: boolean, maxBytes: number): CompressedSegment | null;
+
+    getDuration(audioLength: number): number | null;
+
+    calculateByteOffset(positionSeconds: number, audioLength: number): number;
+
+    /** Prepare for an offset stream starting at an arbitrary byte of the audio data */
+    resetForOffset(): void;
+}
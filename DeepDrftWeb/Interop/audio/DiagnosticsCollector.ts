@@ -0,0 +1,147 @@
+/**
+ * DiagnosticsCollector - Quality-of-service metrics for one player.
+ *
+ * Single Responsibility: Count and time the events that shape the listening experience
+ * (startup delay, underruns, decode cost, scheduling headroom, transfer volume, refetches)
+ * and report them as a plain snapshot. Timings use performance.now(); counters run from
+ * the last startSession() call.
+ */
+
+export interface PlaybackDiagnostics {
+    timeToFirstAudioMs: number | null;      // initializeStreaming to the first scheduled audio, null until then
+    underrunCount: number;
+    underrunDurationMs: number;             // Total time stalled, including a stall in progress
+    decodedSegments: number;
+    decodeTimeAvgMs: number;
+    decodeTimeMaxMs: number;
+    decodeTimeLastMs: number;
+    scheduleLeadMinMs: number | null;       // Smallest nextScheduleTime - currentTime; negative = scheduled late
+    scheduleLeadLastMs: number | null;
+    lateSchedules: number;                  // Sources scheduled after their start time had passed
+    bytesReceived: number;                  // Network bytes, excluding chunk cache reads
+    seekBeyondBufferCount: number;
+    streamRetries: number;                  // Direct stream transfers retried after a failure
+    bufferedAheadSeconds: number;           // Decoded audio ahead of the playhead now
+    isBuffering: boolean;
+    engine: string;
+    timestamp: number;                      // Unix milliseconds
+}
+
+export interface DiagnosticsContext {
+    bufferedAheadSeconds: number;
+    isBuffering: boolean;
+    engine: string;
+}
+
+export class DiagnosticsCollector {
+    private sessionStart: number | null = null;
+    private timeToFirstAudio: number | null = null;
+    private underrunCount: number = 0;
+    private underrunTotal: number = 0;
+    private underrunStart: number | null = null;
+    private decodedSegments: number = 0;
+    private decodeTimeTotal: number = 0;
+    private decodeTimeMax: number = 0;
+    private decodeTimeLast: number = 0;
+    private scheduleLeadMin: number | null = null;
+    private scheduleLeadLast: number | null = null;
+    private lateSchedules: number = 0;
+    private bytesReceived: number = 0;
+    private seekBeyondBufferCount: number = 0;
+    private streamRetries: number = 0;
+
+    /**
+     * Reset every metric and start timing time-to-first-audio
+     */
+    startSession(): void {
+        this.sessionStart = performance.now();
+        this.timeToFirstAudio = null;
+        this.underrunCount = 0;
+        this.underrunTotal = 0;
+        this.underrunStart = null;
+        this.decodedSegments = 0;
+        this.decodeTimeTotal = 0;
+        this.decodeTimeMax = 0;
+        this.decodeTimeLast = 0;
+        this.scheduleLeadMin = null;
+        this.scheduleLeadLast = null;
+        this.lateSchedules = 0;
+        this.bytesReceived = 0;
+        this.seekBeyondBufferCount = 0;
+        this.streamRetries = 0;
+    }
+
+    /**
+     * First audio of the session reached the output; later calls are ignored
+     */
+    markFirstAudio(): void {
+        if (this.sessionStart === null || this.timeToFirstAudio !== null) return;
+        this.timeToFirstAudio = performance.now() - this.sessionStart;
+    }
+
+    beginUnderrun(): void {
+        if (this.underrunStart !== null) return;
+        this.underrunCount++;
+        this.underrunStart = performance.now();
+    }
+
+    endUnderrun(): void {
+        if (this.underrunStart === null) return;
+        this.underrunTotal += performance.now() - this.underrunStart;
+        this.underrunStart = null;
+    }
+
+    recordDecode(durationMs: number): void {
+        this.decodedSegments++;
+        this.decodeTimeTotal += durationMs;
+        this.decodeTimeMax = Math.max(this.decodeTimeMax, durationMs);
+        this.decodeTimeLast = durationMs;
+    }
+
+    /**
+     * Seconds between the current time and a newly scheduled source's start
+     */
+    recordScheduleLead(leadSeconds: number): void {
+        const leadMs = leadSeconds * 1000;
+        this.scheduleLeadLast = leadMs;
+        this.scheduleLeadMin = this.scheduleLeadMin === null ? leadMs : Math.min(this.scheduleLeadMin, leadMs);
+        if (leadMs < 0) {
+            this.lateSchedules++;
+        }
+    }
+
+    addBytesReceived(bytes: number): void {
+        this.bytesReceived += bytes;
+    }
+
+    countSeekBeyondBuffer(): void {
+        this.seekBeyondBufferCount++;
+    }
+
+    countStreamRetry(): void {
+        this.streamRetries++;
+    }
+
+    snapshot(context: DiagnosticsContext): PlaybackDiagnostics {
+        const ongoingUnderrun = this.underrunStart !== null ? performance.now() - this.underrunStart : 0;
+        return {
+            timeToFirstAudioMs: this.timeToFirstAudio,
+            underrunCount: this.underrunCount,
+            underrunDurationMs: this.underrunTotal + ongoingUnderrun,
+            decodedSegments: this.decodedSegments,
+            decodeTimeAvgMs: this.decodedSegments > 0 ? this.decodeTimeTotal / this.decodedSegments : 0,
+            decodeTimeMaxMs: this.decodeTimeMax,
+            decodeTimeLastMs: this.decodeTimeLast,
+            scheduleLeadMinMs: this.scheduleLeadMin,
+            scheduleLeadLastMs: this.scheduleLeadLast,
+            lateSchedules: this.lateSchedules,
+            bytesReceived: this.bytesReceived,
+            seekBeyondBufferCount: this.seekBeyondBufferCount,
+            streamRetries: this.streamRetries,
+            bufferedAheadSeconds: context.bufferedAheadSeconds,
+            isBuffering: context.isBuffering,
+            engine: context.engine,
+            timestamp: Date.now()
+        };
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * EqPresetStore - Named EQ presets: built-in ones plus presets saved in localStorage.
+ *
+ * Single Responsibility: Save, load, list and delete EQ band sets by name. Presets are
+ * shared by every player on the page; built-in presets cannot be overwritten or deleted.
+ */
+
+import { AudioError } from './AudioError.js';
+import { EqBandSettings } from './ParametricEqualizer.js';
+
+export interface EqPreset {
+    name: string;
+    bands: EqBandSettings[];
+    builtIn: boolean;
+}
+
+const builtInPresets: Record<string, EqBandSettings[]> = {
+    'Flat': [],
+    'Bass Boost': [
+        { type: 'lowshelf', frequency: 100, gain: 6, q: 0.7 }
+    ],
+    'Treble Boost': [
+        { type: 'highshelf', frequency: 8000, gain: 6, q: 0.7 }
+    ],
+    'Vocal': [
+        { type: 'lowshelf', frequency: 120, gain: -3, q: 0.7 },
+        { type: 'peaking', frequency: 2500, gain: 3, q: 1 },
+        { type: 'highshelf', frequency: 10000, gain: -1, q: 0.7 }
+    ],
+    'Loudness': [
+        { type: 'lowshelf', frequency: 80, gain: 5, q: 0.7 },
+        { type: 'peaking', frequency: 1000, gain: -2, q: 0.8 },
+        { type: 'highshelf', frequency: 10000, gain: 4, q: 0.7 }
+    ]
+};
+
+export class EqPresetStore {
+    private static readonly storageKey = 'deepdrft-eq-presets';
+
+    list(): EqPreset[] {
+        const saved = this.readSaved();
+        return [
+            ...Object.entries(builtInPresets).map(([name, bands]) => ({ name, bands, builtIn: true })),
+            ...Object.entries(saved).map(([name, bands]) => ({ name, bands, builtIn: false }))
+        ];
+    }
+
+    get(name: string): EqBandSettings[] {
+        const bands = builtInPresets[name] ?? this.readSaved()[name];
+        if (!bands) {
+            throw new AudioError('NOT_FOUND', `No EQ preset '${name}'`);
+        }
+        return bands.map(band => ({ ...band }));
+    }
+
+    save(name: string, bands: EqBandSettings[]): void {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            throw new AudioError('INVALID_ARGUMENT', 'EQ preset name is empty');
+        }
+        if (trimmed in builtInPresets) {
+            throw new AudioError('INVALID_ARGUMENT', `'${trimmed}' is a built-in EQ preset`);
+        }
+
+        const saved = this.readSaved();
+        saved[trimmed] = bands.map(({ type, frequency, gain, q, bypassed }) => ({ type, frequency, gain, q, bypassed }));
+        this.writeSaved(saved);
+    }
+
+    delete(name: string): boolean {
+        if (name in builtInPresets) {
+            throw new AudioError('INVALID_ARGUMENT', `'${name}' is a built-in EQ preset`);
+        }
+
+        const saved = this.readSaved();
+        if (!(name in saved)) return false;
+        delete saved[name];
+        this.writeSaved(saved);
+        return true;
+    }
+
+    // ==================== Private Methods ====================
+
+    private readSaved(): Record<string, EqBandSettings[]> {
+        try {
+            const json = localStorage.getItem(EqPresetStore.storageKey);
+            return json ? JSON.parse(json) as Record<string, EqBandSettings[]> : {};
+        } catch {
+            return {};  // Storage unavailable (private mode) or corrupted
+        }
+    }
+
+    private writeSaved(saved: Record<string, EqBandSettings[]>): void {
+        try {
+            localStorage.setItem(EqPresetStore.storageKey, JSON.stringify(saved));
+        } catch (error) {
+            throw new AudioError('NOT_SUPPORTED', `Cannot save EQ presets: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,534 @@
+/**
+ * FlacDecoder - Incremental FLAC metadata parsing and frame decoding.
+ *
+ * Single Responsibility: Turn FLAC bytes into planar Float32 samples.
+ * Frames carry no length field, so a frame is complete when it decodes with a valid
+ * CRC-16; running out of bytes mid-frame means "wait for more data".
+ */
+
+import { AudioError } from './AudioError.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('FlacDecoder');
+
+export interface FlacStreamInfo {
+    minBlockSize: number;
+    maxBlockSize: number;
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+    totalSamples: number;   // 0 = unknown
+}
+
+export interface FlacSeekPoint {
+    sampleNumber: number;
+    offset: number;         // Bytes from the first frame header
+    frameSamples: number;
+}
+
+export interface FlacMetadata {
+    streamInfo: FlacStreamInfo;
+    seekTable: FlacSeekPoint[];
+    metadataLength: number; // Bytes from "fLaC" to the first frame
+}
+
+export interface FlacDecodeResult {
+    channels: Float32Array<ArrayBuffer>[];
+    frames: number;
+    sampleRate: number;
+    firstSampleNumber: number | null;
+    bytesConsumed: number;
+}
+
+interface FlacFrame {
+    samples: Float32Array<ArrayBuffer>[];
+    blockSize: number;
+    sampleRate: number;
+    sampleNumber: number;
+    byteLength: number;
+}
+
+/**
+ * Thrown when a frame or metadata block extends past the available bytes
+ */
+class FlacNeedMoreData extends Error {
+    constructor() {
+        super('FLAC data incomplete');
+    }
+}
+
+const METADATA_STREAMINFO = 0;
+const METADATA_SEEKTABLE = 3;
+const SEEKPOINT_PLACEHOLDER = 0xFFFFFFFFFFFFFFFF;
+
+const CRC8_TABLE = buildCrcTable(0x07, 8);
+const CRC16_TABLE = buildCrcTable(0x8005, 16);
+
+function buildCrcTable(polynomial: number, width: number): Uint16Array {
+    const table = new Uint16Array(256);
+    const topBit = 1 << (width - 1);
+    const mask = (1 << width) - 1;
+    for (let i = 0; i < 256; i++) {
+        let crc = i << (width - 8);
+        for (let bit = 0; bit < 8; bit++) {
+            crc = (crc & topBit) ? ((crc << 1) ^ polynomial) : (crc << 1);
+        }
+        table[i] = crc & mask;
+    }
+    return table;
+}
+
+function crc8(data: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        crc = CRC8_TABLE[crc ^ data[i]];
+    }
+    return crc;
+}
+
+function crc16(data: Uint8Array, start: number, end: number): number {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ data[i]]) & 0xFFFF;
+    }
+    return crc;
+}
+
+/**
+ * MSB-first bit reader; throws FlacNeedMoreData at the end of the available bytes
+ */
+class BitReader {
+    private bytePos: number;
+    private bitPos: number = 0;
+
+    constructor(private data: Uint8Array, start: number, private end: number) {
+        this.bytePos = start;
+    }
+
+    get position(): number {
+        return this.bytePos;
+    }
+
+    readBits(count: number): number {
+        let value = 0;
+        while (count > 0) {
+            if (this.bytePos >= this.end) throw new FlacNeedMoreData();
+            const available = 8 - this.bitPos;
+            const take = Math.min(available, count);
+            const bits = (this.data[this.bytePos] >> (available - take)) & ((1 << take) - 1);
+            value = value * (1 << take) + bits;
+            this.bitPos += take;
+            if (this.bitPos === 8) {
+                this.bitPos = 0;
+                this.bytePos++;
+            }
+            count -= take;
+        }
+        return value;
+    }
+
+    readSigned(count: number): number {
+        if (count === 0) return 0;
+        const value = this.readBits(count);
+        const signBit = Math.pow(2, count - 1);
+        return value >= signBit ? value - signBit * 2 : value;
+    }
+
+    /**
+     * Count zero bits up to and including the terminating one bit
+     */
+    readUnary(): number {
+        let count = 0;
+        for (;;) {
+            if (this.bytePos >= this.end) throw new FlacNeedMoreData();
+            const byte = (this.data[this.bytePos] << this.bitPos) & 0xFF;
+            if (byte === 0) {
+                count += 8 - this.bitPos;
+                this.bitPos = 0;
+                this.bytePos++;
+                continue;
+            }
+            const leadingZeros = Math.clz32(byte) - 24;
+            count += leadingZeros;
+            this.bitPos += leadingZeros + 1;
+            if (this.bitPos >= 8) {
+                this.bitPos -= 8;
+                this.bytePos++;
+            }
+            return count;
+        }
+    }
+
+    readRice(parameter: number): number {
+        const quotient = this.readUnary();
+        const remainder = parameter > 0 ? this.readBits(parameter) : 0;
+        const folded = quotient * Math.pow(2, parameter) + remainder;
+        return folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+    }
+
+    alignToByte(): void {
+        if (this.bitPos !== 0) {
+            this.bitPos = 0;
+            this.bytePos++;
+        }
+    }
+}
+
+export class FlacDecoder {
+    /**
+     * Check for the "fLaC" stream marker
+     */
+    static isFlacStream(data: Uint8Array): boolean {
+        return data.length >= 4 && data[0] === 0x66 && data[1] === 0x4C && data[2] === 0x61 && data[3] === 0x43;
+    }
+
+    /**
+     * Parse metadata blocks. Returns null until every block up to the first frame is available.
+     */
+    static parseMetadata(data: Uint8Array): FlacMetadata | null {
+        if (data.length < 4) return null;
+        if (!FlacDecoder.isFlacStream(data)) {
+            throw new AudioError('INVALID_HEADER', 'Missing fLaC stream marker');
+        }
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        let streamInfo: FlacStreamInfo | null = null;
+        const seekTable: FlacSeekPoint[] = [];
+        let offset = 4;
+        let isLast = false;
+
+        while (!isLast) {
+            if (offset + 4 > data.length) return null;
+            const blockHeader = data[offset];
+            isLast = (blockHeader & 0x80) !== 0;
+            const blockType = blockHeader & 0x7F;
+            const blockLength = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+            const blockStart = offset + 4;
+            if (blockStart + blockLength > data.length) return null;
+
+            if (blockType === METADATA_STREAMINFO) {
+                const reader = new BitReader(data, blockStart, blockStart + blockLength);
+                const minBlockSize = reader.readBits(16);
+                const maxBlockSize = reader.readBits(16);
+                reader.readBits(24); // min frame size
+                reader.readBits(24); // max frame size
+                const sampleRate = reader.readBits(20);
+                const channels = reader.readBits(3) + 1;
+                const bitsPerSample = reader.readBits(5) + 1;
+                const totalSamples = reader.readBits(36);
+                streamInfo = { minBlockSize, maxBlockSize, sampleRate, channels, bitsPerSample, totalSamples };
+            } else if (blockType === METADATA_SEEKTABLE) {
+                for (let point = blockStart; point + 18 <= blockStart + blockLength; point += 18) {
+                    const sampleNumber = Number(view.getBigUint64(point));
+                    if (sampleNumber === SEEKPOINT_PLACEHOLDER) continue;
+                    seekTable.push({
+                        sampleNumber,
+                        offset: Number(view.getBigUint64(point + 8)),
+                        frameSamples: view.getUint16(point + 16)
+                    });
+                }
+            }
+
+            offset = blockStart + blockLength;
+        }
+
+        if (!streamInfo) {
+            throw new AudioError('INVALID_HEADER', 'FLAC stream has no STREAMINFO block');
+        }
+
+        log.info(`FLAC STREAMINFO: ${streamInfo.bitsPerSample}-bit, ${streamInfo.channels}ch, ${streamInfo.sampleRate}Hz, ${streamInfo.totalSamples} samples, ${seekTable.length} seek points`);
+        return { streamInfo, seekTable, metadataLength: offset };
+    }
+
+    /**
+     * Decode consecutive frames from data. Stops at an incomplete frame unless isFinal,
+     * once maxBytes have been consumed, or when no further frame sync is found.
+     * Bytes that do not start a valid frame are skipped by searching for the next sync code.
+     */
+    static decodeFrames(data: Uint8Array, info: FlacStreamInfo, isFinal: boolean, maxBytes: number): FlacDecodeResult {
+        const frames: FlacFrame[] = [];
+        let position = 0;
+
+        while (position < data.length && position < maxBytes) {
+            try {
+                const frame = FlacDecoder.decodeFrame(data, position, info);
+                frames.push(frame);
+                position += frame.byteLength;
+            } catch (error) {
+                if (error instanceof FlacNeedMoreData) {
+                    if (isFinal) position = data.length; // Truncated final frame
+                    break;
+                }
+                // Not at a valid frame (offset stream or corruption) - resynchronise
+                const next = FlacDecoder.findFrameSync(data, position + 1);
+                if (next < 0) {
+                    // Keep the last byte: a sync code may straddle the next chunk
+                    position = isFinal ? data.length : Math.max(position, data.length - 1);
+                    break;
+                }
+                position = next;
+            }
+        }
+
+        return FlacDecoder.concatenateFrames(frames, info, position);
+    }
+
+    /**
+     * Find the next byte offset holding a frame sync code (0xFFF8 / 0xFFF9)
+     */
+    static findFrameSync(data: Uint8Array, from: number): number {
+        for (let i = from; i < data.length - 1; i++) {
+            if (data[i] === 0xFF && (data[i + 1] & 0xFE) === 0xF8) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private static decodeFrame(data: Uint8Array, start: number, info: FlacStreamInfo): FlacFrame {
+        const reader = new BitReader(data, start, data.length);
+
+        if (reader.readBits(14) !== 0x3FFE) throw new Error('Missing frame sync');
+        if (reader.readBits(1) !== 0) throw new Error('Reserved frame bit set');
+        const variableBlocking = reader.readBits(1) === 1;
+        const blockSizeCode = reader.readBits(4);
+        const sampleRateCode = reader.readBits(4);
+        const channelAssignment = reader.readBits(4);
+        const sampleSizeCode = reader.readBits(3);
+        if (reader.readBits(1) !== 0) throw new Error('Reserved frame bit set');
+
+        const codedNumber = FlacDecoder.readCodedNumber(reader);
+        const blockSize = FlacDecoder.readBlockSize(reader, blockSizeCode);
+        const sampleRate = FlacDecoder.readSampleRate(reader, sampleRateCode, info);
+
+        const headerEnd = reader.position;
+        if (reader.readBits(8) !== crc8(data, start, headerEnd)) {
+            throw new Error('Frame header CRC mismatch');
+        }
+
+        const bitsPerSample = FlacDecoder.getBitsPerSample(sampleSizeCode, info);
+        if (channelAssignment > 10) throw new Error(`Reserved channel assignment ${channelAssignment}`);
+        const channelCount = channelAssignment < 8 ? channelAssignment + 1 : 2;
+
+        const subframes: Float64Array[] = [];
+        for (let ch = 0; ch < channelCount; ch++) {
+            // Side channel carries one extra bit
+            const isSide = (channelAssignment === 8 && ch === 1) ||
+                (channelAssignment === 9 && ch === 0) ||
+                (channelAssignment === 10 && ch === 1);
+            subframes.push(FlacDecoder.decodeSubframe(reader, blockSize, bitsPerSample + (isSide ? 1 : 0)));
+        }
+
+        reader.alignToByte();
+        const footerStart = reader.position;
+        if (reader.readBits(16) !== crc16(data, start, footerStart)) {
+            throw new Error('Frame CRC mismatch');
+        }
+
+        FlacDecoder.decorrelate(subframes, channelAssignment);
+
+        const scale = 1 / Math.pow(2, bitsPerSample - 1);
+        const samples = subframes.map(subframe => {
+            const output = new Float32Array(blockSize);
+            for (let i = 0; i < blockSize; i++) output[i] = subframe[i] * scale;
+            return output;
+        });
+
+        return {
+            samples,
+            blockSize,
+            sampleRate,
+            sampleNumber: variableBlocking ? codedNumber : codedNumber * info.minBlockSize,
+            byteLength: reader.position - start
+        };
+    }
+
+    /**
+     * UTF-8 style coded frame/sample number (up to 36 bits)
+     */
+    private static readCodedNumber(reader: BitReader): number {
+        const first = reader.readBits(8);
+        if ((first & 0x80) === 0) return first;
+
+        let extraBytes = 0;
+        let mask = 0x40;
+        while (first & mask) {
+            extraBytes++;
+            mask >>= 1;
+        }
+        if (extraBytes === 0 || extraBytes > 6) throw new Error('Invalid coded number');
+
+        let value = first & (mask - 1);
+        for (let i = 0; i < extraBytes; i++) {
+            const next = reader.readBits(8);
+            if ((next & 0xC0) !== 0x80) throw new Error('Invalid coded number');
+            value = value * 64 + (next & 0x3F);
+        }
+        return value;
+    }
+
+    private static readBlockSize(reader: BitReader, code: number): number {
+        if (code === 0) throw new Error('Reserved block size');
+        if (code === 1) return 192;
+        if (code <= 5) return 576 << (code - 2);
+        if (code === 6) return reader.readBits(8) + 1;
+        if (code === 7) return reader.readBits(16) + 1;
+        return 256 << (code - 8);
+    }
+
+    private static readSampleRate(reader: BitReader, code: number, info: FlacStreamInfo): number {
+        const rates = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+        if (code === 0) return info.sampleRate;
+        if (code < 12) return rates[code];
+        if (code === 12) return reader.readBits(8) * 1000;
+        if (code === 13) return reader.readBits(16);
+        if (code === 14) return reader.readBits(16) * 10;
+        throw new Error('Invalid sample rate code');
+    }
+
+    private static getBitsPerSample(code: number, info: FlacStreamInfo): number {
+        const sizes = [info.bitsPerSample, 8, 12, 0, 16, 20, 24, 32];
+        if (code === 3) throw new Error('Reserved sample size');
+        return sizes[code];
+    }
+
+    private static decodeSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Float64Array {
+        if (reader.readBits(1) !== 0) throw new Error('Subframe padding bit set');
+        const type = reader.readBits(6);
+
+        let wastedBits = 0;
+        if (reader.readBits(1) === 1) {
+            wastedBits = reader.readUnary() + 1;
+        }
+        const sampleBits = bitsPerSample - wastedBits;
+        const samples = new Float64Array(blockSize);
+
+        if (type === 0) {
+            samples.fill(reader.readSigned(sampleBits));
+        } else if (type === 1) {
+            for (let i = 0; i < blockSize; i++) samples[i] = reader.readSigned(sampleBits);
+        } else if (type >= 8 && type <= 12) {
+            FlacDecoder.decodeFixed(reader, samples, type - 8, sampleBits);
+        } else if (type >= 32) {
+            FlacDecoder.decodeLpc(reader, samples, type - 31, sampleBits);
+        } else {
+            throw new Error(`Reserved subframe type ${type}`);
+        }
+
+        if (wastedBits > 0) {
+            const factor = Math.pow(2, wastedBits);
+            for (let i = 0; i < blockSize; i++) samples[i] *= factor;
+        }
+        return samples;
+    }
+
+    private static decodeFixed(reader: BitReader, samples: Float64Array, order: number, sampleBits: number): void {
+        for (let i = 0; i < order; i++) samples[i] = reader.readSigned(sampleBits);
+        FlacDecoder.readResidual(reader, samples, order);
+
+        for (let i = order; i < samples.length; i++) {
+            switch (order) {
+                case 1: samples[i] += samples[i - 1]; break;
+                case 2: samples[i] += 2 * samples[i - 1] - samples[i - 2]; break;
+                case 3: samples[i] += 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+                case 4: samples[i] += 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+            }
+        }
+    }
+
+    private static decodeLpc(reader: BitReader, samples: Float64Array, order: number, sampleBits: number): void {
+        for (let i = 0; i < order; i++) samples[i] = reader.readSigned(sampleBits);
+
+        const precision = reader.readBits(4) + 1;
+        if (precision === 16) throw new Error('Invalid LPC precision');
+        const shift = reader.readSigned(5);
+        if (shift < 0) throw new Error('Negative LPC shift');
+
+        const coefficients = new Float64Array(order);
+        for (let i = 0; i < order; i++) coefficients[i] = reader.readSigned(precision);
+
+        FlacDecoder.readResidual(reader, samples, order);
+
+        const divisor = Math.pow(2, shift);
+        for (let i = order; i < samples.length; i++) {
+            let prediction = 0;
+            for (let j = 0; j < order; j++) {
+                prediction += coefficients[j] * samples[i - 1 - j];
+            }
+            samples[i] += Math.floor(prediction / divisor);
+        }
+    }
+
+    /**
+     * Rice-coded residual written in place after the warm-up samples
+     */
+    private static readResidual(reader: BitReader, samples: Float64Array, predictorOrder: number): void {
+        const method = reader.readBits(2);
+        if (method > 1) throw new Error('Reserved residual coding method');
+        const parameterBits = method === 0 ? 4 : 5;
+        const escapeCode = method === 0 ? 15 : 31;
+
+        const partitionOrder = reader.readBits(4);
+        const partitions = 1 << partitionOrder;
+        const partitionSize = samples.length >> partitionOrder;
+        if (partitionSize < predictorOrder) throw new Error('Invalid residual partition order');
+
+        let index = predictorOrder;
+        for (let partition = 0; partition < partitions; partition++) {
+            const count = partition === 0 ? partitionSize - predictorOrder : partitionSize;
+            const parameter = reader.readBits(parameterBits);
+
+            if (parameter === escapeCode) {
+                const rawBits = reader.readBits(5);
+                for (let i = 0; i < count; i++) samples[index++] = reader.readSigned(rawBits);
+            } else {
+                for (let i = 0; i < count; i++) samples[index++] = reader.readRice(parameter);
+            }
+        }
+    }
+
+    private static decorrelate(channels: Float64Array[], assignment: number): void {
+        if (assignment < 8) return;
+        const [first, second] = channels;
+
+        for (let i = 0; i < first.length; i++) {
+            if (assignment === 8) {
+                // left/side
+                second[i] = first[i] - second[i];
+            } else if (assignment === 9) {
+                // side/right
+                first[i] = first[i] + second[i];
+            } else {
+                // mid/side
+                const side = second[i];
+                const mid = first[i] * 2 + (side % 2 === 0 ? 0 : 1);
+                first[i] = Math.floor((mid + side) / 2);
+                second[i] = Math.floor((mid - side) / 2);
+            }
+        }
+    }
+
+    private static concatenateFrames(frames: FlacFrame[], info: FlacStreamInfo, bytesConsumed: number): FlacDecodeResult {
+        const totalFrames = frames.reduce((sum, frame) => sum + frame.blockSize, 0);
+        const channelCount = frames.length > 0 ? frames[0].samples.length : info.channels;
+
+        const channels: Float32Array<ArrayBuffer>[] = [];
+        for (let ch = 0; ch < channelCount; ch++) {
+            const output = new Float32Array(totalFrames);
+            let offset = 0;
+            for (const frame of frames) {
+                output.set(frame.samples[Math.min(ch, frame.samples.length - 1)], offset);
+                offset += frame.blockSize;
+            }
+            channels.push(output);
+        }
+
+        return {
+            channels,
+            frames: totalFrames,
+            sampleRate: frames.length > 0 ? frames[0].sampleRate : info.sampleRate,
+            firstSampleNumber: frames.length > 0 ? frames[0].sampleNumber : null,
+            bytesConsumed
+        };
+    }
+}
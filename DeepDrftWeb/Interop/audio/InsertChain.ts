@@ -0,0 +1,128 @@
+/**
+ * InsertChain - Ordered DSP inserts between the master GainNode and the analyser.
+ *
+ * Single Responsibility: Keep the user's inserts, their order and bypass state, and wire
+ * their nodes in series. Inserts hold their own settings and rebuild their nodes in
+ * whatever context initialize() is given, so the chain survives context recreation.
+ *
+ * Chain: input → insert 1 → insert 2 → ... → output (bypassed inserts are skipped)
+ */
+
+import { AudioError } from './AudioError.js';
+
+export interface InsertNodes {
+    input: AudioNode;
+    output: AudioNode;
+}
+
+export interface InsertEffect {
+    readonly id: string;
+    readonly type: string;
+    /** Create the insert's nodes in a context; called again after context recreation */
+    build(context: AudioContext): InsertNodes;
+}
+
+export interface InsertInfo {
+    id: string;
+    type: string;
+    bypassed: boolean;
+}
+
+interface InsertSlot {
+    effect: InsertEffect;
+    bypassed: boolean;
+    nodes: InsertNodes | null;
+}
+
+export class InsertChain {
+    private context: AudioContext | null = null;
+    private input: GainNode | null = null;
+    private output: GainNode | null = null;
+    private slots: InsertSlot[] = [];
+
+    /**
+     * Build the chain in a context; returns the nodes to connect it between
+     */
+    initialize(context: AudioContext): InsertNodes {
+        this.context = context;
+        this.input = context.createGain();
+        this.output = context.createGain();
+        for (const slot of this.slots) {
+            slot.nodes = slot.effect.build(context);
+        }
+        this.rewire();
+        return { input: this.input, output: this.output };
+    }
+
+    /**
+     * Add an insert at an index (default: the end of the chain)
+     */
+    add(effect: InsertEffect, index: number = this.slots.length): void {
+        if (this.slots.some(slot => slot.effect.id === effect.id)) {
+            throw new AudioError('INVALID_ARGUMENT', `Insert '${effect.id}' already exists`);
+        }
+
+        const slot: InsertSlot = { effect, bypassed: false, nodes: this.context ? effect.build(this.context) : null };
+        this.slots.splice(this.clampIndex(index, this.slots.length), 0, slot);
+        this.rewire();
+    }
+
+    remove(id: string): void {
+        const slot = this.getSlot(id);
+        slot.nodes?.output.disconnect();
+        this.slots.splice(this.slots.indexOf(slot), 1);
+        this.rewire();
+    }
+
+    setBypass(id: string, bypassed: boolean): void {
+        const slot = this.getSlot(id);
+        if (slot.bypassed === bypassed) return;
+        slot.bypassed = bypassed;
+        this.rewire();
+    }
+
+    move(id: string, index: number): void {
+        const slot = this.getSlot(id);
+        this.slots.splice(this.slots.indexOf(slot), 1);
+        this.slots.splice(this.clampIndex(index, this.slots.length), 0, slot);
+        this.rewire();
+    }
+
+    list(): InsertInfo[] {
+        return this.slots.map(slot => ({ id: slot.effect.id, type: slot.effect.type, bypassed: slot.bypassed }));
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Connect input → active inserts → output. Inserts without nodes (no context yet) are skipped.
+     */
+    private rewire(): void {
+        if (!this.input || !this.output) return;
+
+        this.input.disconnect();
+        for (const slot of this.slots) {
+            slot.nodes?.output.disconnect();
+        }
+
+        let previous: AudioNode = this.input;
+        for (const slot of this.slots) {
+            if (slot.bypassed || !slot.nodes) continue;
+            previous.connect(slot.nodes.input);
+            previous = slot.nodes.output;
+        }
+        previous.connect(this.output);
+    }
+
+    private getSlot(id: string): InsertSlot {
+        const slot = this.slots.find(candidate => candidate.effect.id === id);
+        if (!slot) {
+            throw new AudioError('NOT_FOUND', `No insert '${id}'`);
+        }
+        return slot;
+    }
+
+    private clampIndex(index: number, length: number): number {
+        return Number.isFinite(index) ? Math.max(0, Math.min(length, Math.floor(index))) : length;
+    }
+}
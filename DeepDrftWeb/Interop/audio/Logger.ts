@@ -0,0 +1,121 @@
+/**
+ * Logger - Leveled, namespaced logging for the audio modules.
+ *
+ * Single Responsibility: Filter log calls by level, per component namespace, and hand the
+ * entries that pass to the registered sinks (the console by default). Per-chunk and
+ * per-buffer detail is logged at 'debug' so it costs nothing unless enabled.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface LogEntry {
+    level: Exclude<LogLevel, 'silent'>;
+    namespace: string;
+    message: string;
+    args: unknown[];
+    timestamp: number;          // Unix milliseconds
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggingOptions {
+    level?: LogLevel;                           // Default level for every namespace
+    namespaces?: Record<string, LogLevel>;      // Per-namespace overrides, e.g. { StreamDecoder: 'debug' }
+    console?: boolean;                          // Write to the browser console (default true)
+}
+
+const levelRank: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+let defaultLevel: LogLevel = 'info';
+let namespaceLevels: Record<string, LogLevel> = {};
+const sinks = new Set<LogSink>();
+
+const consoleSink: LogSink = entry => {
+    const method = entry.level === 'debug' ? console.debug : entry.level === 'info' ? console.info
+        : entry.level === 'warn' ? console.warn : console.error;
+    method(`[${entry.namespace}] ${entry.message}`, ...entry.args);
+};
+sinks.add(consoleSink);
+
+export class Logger {
+    readonly namespace: string;
+
+    constructor(namespace: string) {
+        this.namespace = namespace;
+    }
+
+    isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+        return meetsLevel(level, namespaceLevels[this.namespace] ?? defaultLevel);
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        this.write('debug', message, args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.write('info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.write('warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.write('error', message, args);
+    }
+
+    private write(level: Exclude<LogLevel, 'silent'>, message: string, args: unknown[]): void {
+        if (!this.isEnabled(level)) return;
+
+        const entry: LogEntry = { level, namespace: this.namespace, message, args, timestamp: Date.now() };
+        for (const sink of sinks) {
+            try {
+                sink(entry);
+            } catch {
+                // A failing sink must not break playback or the other sinks
+            }
+        }
+    }
+}
+
+export function meetsLevel(level: LogLevel, threshold: LogLevel): boolean {
+    return levelRank[level] >= levelRank[threshold];
+}
+
+export function createLogger(namespace: string): Logger {
+    return new Logger(namespace);
+}
+
+/**
+ * Apply logging options; omitted fields keep their current value
+ */
+export function configureLogging(options: LoggingOptions): void {
+    if (options.level) defaultLevel = options.level;
+    if (options.namespaces) namespaceLevels = { ...options.namespaces };
+    if (options.console === false) sinks.delete(consoleSink);
+    if (options.console === true) sinks.add(consoleSink);
+}
+
+export function addLogSink(sink: LogSink): void {
+    sinks.add(sink);
+}
+
+export function removeLogSink(sink: LogSink): void {
+    sinks.delete(sink);
+}
+
+/**
+ * Message with its arguments rendered as text, for sinks that cannot take objects
+ */
+export function formatLogEntry(entry: LogEntry): string {
+    const args = entry.args.map(arg => {
+        if (arg instanceof Error) return arg.message;
+        if (typeof arg === 'string') return arg;
+        try {
+            return JSON.stringify(arg);
+        } catch {
+            return String(arg);
+        }
+    });
+    return [entry.message, ...args].join(' ');
+}
@@ -0,0 +1,187 @@
+/**
+ * LoudnessMeter - Integrated loudness (ITU-R BS.1770 / EBU R128) of decoded audio.
+ *
+ * Single Responsibility: K-weight the channels, measure 400 ms blocks every 100 ms and
+ * gate them (absolute -70 LUFS, relative -10 LU) into an integrated loudness estimate.
+ * Buffers are measured in the order they are added; the estimate firms up as more arrive.
+ */
+
+interface Biquad {
+    b0: number; b1: number; b2: number;
+    a1: number; a2: number;
+}
+
+interface ChannelState {
+    z1: number; z2: number;     // Shelf stage (transposed direct form II)
+    z3: number; z4: number;     // High-pass stage
+}
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+/**
+ * Block energy for a loudness, and back (the -0.691 offset calibrates a 997 Hz sine)
+ */
+function energyToLufs(energy: number): number {
+    return -0.691 + 10 * Math.log10(energy);
+}
+
+function lufsToEnergy(lufs: number): number {
+    return Math.pow(10, (lufs + 0.691) / 10);
+}
+
+export class LoudnessMeter {
+    private static readonly stepSeconds = 0.1;         // Block hop; blocks are 4 steps (400 ms, 75% overlap)
+
+    private sampleRate: number = 0;
+    private shelf: Biquad | null = null;
+    private highPass: Biquad | null = null;
+    private channels: ChannelState[] = [];
+    private stepFrames: number = 0;
+    private stepFramesDone: number = 0;
+    private stepEnergy: number = 0;
+    private recentSteps: number[] = [];
+    private blockEnergies: number[] = [];               // Blocks above the absolute gate
+
+    reset(): void {
+        this.sampleRate = 0;
+        this.channels = [];
+        this.stepFramesDone = 0;
+        this.stepEnergy = 0;
+        this.recentSteps = [];
+        this.blockEnergies = [];
+    }
+
+    addBuffer(buffer: AudioBuffer): void {
+        if (buffer.sampleRate !== this.sampleRate) {
+            this.configure(buffer.sampleRate);
+        }
+        while (this.channels.length < buffer.numberOfChannels) {
+            this.channels.push({ z1: 0, z2: 0, z3: 0, z4: 0 });
+        }
+
+        const data: Float32Array[] = [];
+        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+            data.push(buffer.getChannelData(channel));
+        }
+
+        let frame = 0;
+        while (frame < buffer.length) {
+            const count = Math.min(this.stepFrames - this.stepFramesDone, buffer.length - frame);
+            for (let channel = 0; channel < data.length; channel++) {
+                const weight = LoudnessMeter.channelWeight(channel, data.length);
+                if (weight > 0) {
+                    this.stepEnergy += weight * this.filterSegment(data[channel], frame, count, this.channels[channel]);
+                }
+            }
+
+            frame += count;
+            this.stepFramesDone += count;
+            if (this.stepFramesDone === this.stepFrames) {
+                this.completeStep();
+            }
+        }
+    }
+
+    /**
+     * Gated integrated loudness in LUFS, null until a block above the absolute gate was measured
+     */
+    getIntegratedLoudness(): number | null {
+        if (this.blockEnergies.length === 0) return null;
+
+        const mean = (energies: number[]) => energies.reduce((sum, energy) => sum + energy, 0) / energies.length;
+        const relativeGate = lufsToEnergy(energyToLufs(mean(this.blockEnergies)) + RELATIVE_GATE_LU);
+        const gated = this.blockEnergies.filter(energy => energy > relativeGate);
+        return energyToLufs(mean(gated.length > 0 ? gated : this.blockEnergies));
+    }
+
+    /**
+     * Seconds of audio that passed the absolute gate (silence is not counted)
+     */
+    getMeasuredSeconds(): number {
+        return this.blockEnergies.length * LoudnessMeter.stepSeconds;
+    }
+
+    // ==================== Private Methods ====================
+
+    private configure(sampleRate: number): void {
+        this.reset();
+        this.sampleRate = sampleRate;
+        this.stepFrames = Math.round(sampleRate * LoudnessMeter.stepSeconds);
+
+        // BS.1770 pre-filter (high shelf) and RLB high-pass, derived for any sample rate
+        let k = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+        const vh = Math.pow(10, 3.999843853973347 / 20);
+        const vb = Math.pow(vh, 0.4996667741545416);
+        let q = 0.7071752369554196;
+        let a0 = 1 + k / q + k * k;
+        this.shelf = {
+            b0: (vh + vb * k / q + k * k) / a0,
+            b1: 2 * (k * k - vh) / a0,
+            b2: (vh - vb * k / q + k * k) / a0,
+            a1: 2 * (k * k - 1) / a0,
+            a2: (1 - k / q + k * k) / a0
+        };
+
+        k = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+        q = 0.5003270373238773;
+        a0 = 1 + k / q + k * k;
+        this.highPass = {
+            b0: 1,
+            b1: -2,
+            b2: 1,
+            a1: 2 * (k * k - 1) / a0,
+            a2: (1 - k / q + k * k) / a0
+        };
+    }
+
+    /**
+     * K-weight a run of samples; returns the sum of squares
+     */
+    private filterSegment(samples: Float32Array, start: number, count: number, state: ChannelState): number {
+        const s = this.shelf!;
+        const h = this.highPass!;
+        let { z1, z2, z3, z4 } = state;
+        let sum = 0;
+
+        for (let i = start; i < start + count; i++) {
+            const x = samples[i];
+            const y1 = s.b0 * x + z1;
+            z1 = s.b1 * x - s.a1 * y1 + z2;
+            z2 = s.b2 * x - s.a2 * y1;
+
+            const y2 = h.b0 * y1 + z3;
+            z3 = h.b1 * y1 - h.a1 * y2 + z4;
+            z4 = h.b2 * y1 - h.a2 * y2;
+            sum += y2 * y2;
+        }
+
+        state.z1 = z1; state.z2 = z2; state.z3 = z3; state.z4 = z4;
+        return sum;
+    }
+
+    private completeStep(): void {
+        this.recentSteps.push(this.stepEnergy / this.stepFrames);
+        this.stepEnergy = 0;
+        this.stepFramesDone = 0;
+
+        if (this.recentSteps.length > 4) {
+            this.recentSteps.shift();
+        }
+        if (this.recentSteps.length < 4) return;
+
+        const blockEnergy = this.recentSteps.reduce((sum, energy) => sum + energy, 0) / 4;
+        if (blockEnergy > 0 && energyToLufs(blockEnergy) > ABSOLUTE_GATE_LUFS) {
+            this.blockEnergies.push(blockEnergy);
+        }
+    }
+
+    /**
+     * BS.1770 channel weights: 5.1 skips the LFE and weights the surrounds by 1.41
+     */
+    private static channelWeight(channel: number, channelCount: number): number {
+        if (channelCount !== 6) return 1;
+        if (channel === 3) return 0;
+        return channel >= 4 ? 1.41 : 1;
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * LoudnessNormalizer - A track's loudness and the gain that brings it to the target.
+ *
+ * Single Responsibility: Hold one track's integrated loudness - supplied by the server
+ * (LUFS or ReplayGain) or estimated with a LoudnessMeter from its decoded buffers - and
+ * drive the normalization gain on the track's playback engine. Estimates are applied once
+ * enough audio was measured and follow later corrections with a gentle ramp.
+ */
+
+import { AudioError } from './AudioError.js';
+import { LoudnessMeter } from './LoudnessMeter.js';
+import { PlaybackEngine } from './PlaybackEngine.js';
+
+export interface LoudnessInfo {
+    integratedLufs?: number | null;
+    replayGainDb?: number | null;       // ReplayGain 2.0 track gain, used when integratedLufs is absent
+    truePeakDb?: number | null;         // dBTP
+}
+
+export interface NormalizationOptions {
+    enabled?: boolean;
+    targetLufs?: number;                // Default -14
+    maxGainDb?: number;                 // Largest boost for quiet tracks (default 12)
+    limiter?: boolean;                  // True-peak limiter on the output (default true)
+    ceilingDb?: number;                 // Limiter ceiling in dBTP (default -1)
+}
+
+export type NormalizationSettings = Required<NormalizationOptions>;
+
+export type LoudnessSource = 'metadata' | 'estimate' | 'none';
+
+export interface NormalizationState extends NormalizationSettings {
+    trackLufs: number | null;           // Current track's loudness, null while unknown
+    source: LoudnessSource;
+    gainDb: number;                     // Normalization gain applied to the current track
+}
+
+export const defaultNormalizationSettings: NormalizationSettings = {
+    enabled: true,
+    targetLufs: -14,
+    maxGainDb: 12,
+    limiter: true,
+    ceilingDb: -1
+};
+
+export class LoudnessNormalizer {
+    private static readonly replayGainReferenceLufs = -18;
+    private static readonly minEstimateSeconds = 5;     // Measured audio before an estimate is trusted
+    private static readonly updateStepDb = 0.5;         // Estimate drift that moves the gain
+    private static readonly updateRampSeconds = 1;
+
+    private readonly metadataLufs: number | null;
+    private readonly truePeakDb: number | null;
+    private readonly meter: LoudnessMeter | null;
+    private appliedGainDb: number = 0;
+
+    constructor(info: LoudnessInfo | null = null) {
+        const replayGain = info?.replayGainDb ?? null;
+        this.metadataLufs = info?.integratedLufs ??
+            (replayGain !== null ? LoudnessNormalizer.replayGainReferenceLufs - replayGain : null);
+        this.truePeakDb = info?.truePeakDb ?? null;
+        this.meter = this.metadataLufs === null ? new LoudnessMeter() : null;
+    }
+
+    getLoudness(): number | null {
+        if (this.metadataLufs !== null) return this.metadataLufs;
+        if (!this.meter || this.meter.getMeasuredSeconds() < LoudnessNormalizer.minEstimateSeconds) return null;
+        return this.meter.getIntegratedLoudness();
+    }
+
+    getSource(): LoudnessSource {
+        if (this.metadataLufs !== null) return 'metadata';
+        return this.getLoudness() !== null ? 'estimate' : 'none';
+    }
+
+    getAppliedGainDb(): number {
+        return this.appliedGainDb;
+    }
+
+    /**
+     * Normalization gain in dB for the settings; 0 while disabled or the loudness is unknown
+     */
+    gainFor(settings: NormalizationSettings): number {
+        const lufs = this.getLoudness();
+        if (!settings.enabled || lufs === null) return 0;
+
+        let gainDb = Math.min(settings.targetLufs - lufs, settings.maxGainDb);
+        if (!settings.limiter && this.truePeakDb !== null) {
+            // Nothing catches overs without the limiter: keep the known peak under the ceiling
+            gainDb = Math.min(gainDb, settings.ceilingDb - this.truePeakDb);
+        }
+        return gainDb;
+    }
+
+    /**
+     * Add a decoded buffer to the estimate; the engine's gain follows once the estimate moved enough
+     */
+    measure(buffer: AudioBuffer, engine: PlaybackEngine, settings: NormalizationSettings): void {
+        if (!this.meter) return;
+
+        this.meter.addBuffer(buffer);
+        if (Math.abs(this.gainFor(settings) - this.appliedGainDb) >= LoudnessNormalizer.updateStepDb) {
+            this.apply(engine, settings, LoudnessNormalizer.updateRampSeconds);
+        }
+    }
+
+    /**
+     * Set the engine's normalization gain for the settings
+     */
+    apply(engine: PlaybackEngine, settings: NormalizationSettings, rampSeconds: number = 0): void {
+        this.appliedGainDb = this.gainFor(settings);
+        engine.setNormalizationGain(this.appliedGainDb, rampSeconds);
+    }
+
+    /**
+     * Merge options into settings; null or missing fields keep their current value
+     */
+    static resolveSettings(current: NormalizationSettings, options: NormalizationOptions): NormalizationSettings {
+        const settings: NormalizationSettings = {
+            enabled: options.enabled ?? current.enabled,
+            targetLufs: options.targetLufs ?? current.targetLufs,
+            maxGainDb: options.maxGainDb ?? current.maxGainDb,
+            limiter: options.limiter ?? current.limiter,
+            ceilingDb: options.ceilingDb ?? current.ceilingDb
+        };
+
+        if (!Number.isFinite(settings.targetLufs) || settings.targetLufs < -40 || settings.targetLufs > 0) {
+            throw new AudioError('INVALID_ARGUMENT', 'Target loudness must be -40 to 0 LUFS');
+        }
+        if (!Number.isFinite(settings.maxGainDb) || settings.maxGainDb < 0 || settings.maxGainDb > 24) {
+            throw new AudioError('INVALID_ARGUMENT', 'Maximum normalization gain must be 0-24 dB');
+        }
+        if (!Number.isFinite(settings.ceilingDb) || settings.ceilingDb < -20 || settings.ceilingDb > 0) {
+            throw new AudioError('INVALID_ARGUMENT', 'Limiter ceiling must be -20 to 0 dBTP');
+        }
+        return settings;
+    }
+}
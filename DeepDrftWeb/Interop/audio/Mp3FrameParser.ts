@@ -0,0 +1,347 @@
+/**
+ * Mp3FrameParser - MPEG audio frame segmentation for MP3 streams.
+ *
+ * Single Responsibility: Split an MP3 stream on frame boundaries into groups that
+ * decodeAudioData can decode independently, and seek through the Xing/VBRI table of
+ * contents. Each group is prefixed with the previous group's last frames so the bit
+ * reservoir and synthesis filterbank are primed; that pre-roll is trimmed by duration.
+ */
+
+import { CompressedSegment, CompressedStreamParser } from './CompressedStreamParser.js';
+import { AudioError } from './AudioError.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('Mp3FrameParser');
+
+interface Mp3FrameHeader {
+    version: number;        // 1, 2 or 2.5
+    layer: number;          // 1, 2 or 3
+    bitrate: number;        // Bits per second
+    sampleRate: number;
+    samplesPerFrame: number;
+    frameLength: number;
+    channels: number;
+}
+
+interface Mp3SeekTable {
+    frames: number;         // 0 = unknown
+    bytes: number;          // 0 = unknown
+    xingToc: number[] | null;
+    vbriToc: number[] | null;
+    vbriFramesPerEntry: number;
+}
+
+const PRE_ROLL_FRAMES = 2;
+
+const BITRATES: Record<string, number[]> = {
+    '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const SAMPLE_RATES: Record<number, number[]> = {
+    1: [44100, 48000, 32000],
+    2: [22050, 24000, 16000],
+    2.5: [11025, 12000, 8000]
+};
+
+export class Mp3FrameParser implements CompressedStreamParser {
+    readonly format = 'mp3' as const;
+
+    private _headerLength: number | null = null;
+    private firstFrame: Mp3FrameHeader | null = null;
+    private seekTable: Mp3SeekTable | null = null;
+    private seekFrameLength: number = 0;     // Xing/VBRI frame length, counted in its byte offsets
+    private preRollFrames: Uint8Array[] = [];
+    private awaitingPreRoll: boolean = false;
+    private isFirstSegment: boolean = true;
+    private framesSeen: number = 0;
+    private bytesSeen: number = 0;
+
+    static isMp3Stream(data: Uint8Array): boolean {
+        if (data.length >= 3 && Mp3FrameParser.readString(data, 0, 3) === 'ID3') return true;
+        return Mp3FrameParser.findSync(data, 0, false) === 0;
+    }
+
+    get headerLength(): number | null {
+        return this._headerLength;
+    }
+
+    get sampleRate(): number {
+        return this.firstFrame?.sampleRate ?? 0;
+    }
+
+    /**
+     * Skip an ID3v2 tag and read the Xing/Info or VBRI frame, if any
+     */
+    parseHeaders(data: Uint8Array): number | null {
+        let pos = 0;
+        if (data.length >= 3 && Mp3FrameParser.readString(data, 0, 3) === 'ID3') {
+            if (data.length < 10) return null;
+            const tagSize = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+            const hasFooter = (data[5] & 0x10) !== 0;
+            pos = 10 + tagSize + (hasFooter ? 10 : 0);
+        }
+
+        const frameStart = Mp3FrameParser.findSync(data, pos, false);
+        if (frameStart < 0) {
+            if (data.length - pos > 64 * 1024) throw new AudioError('INVALID_HEADER', 'No MPEG audio frame found');
+            return null;
+        }
+
+        const header = Mp3FrameParser.parseFrameHeader(data, frameStart)!;
+        if (data.length < frameStart + header.frameLength) return null;
+
+        this.firstFrame = header;
+        this.seekTable = this.parseXing(data, frameStart, header) ?? this.parseVbri(data, frameStart);
+        this.seekFrameLength = this.seekTable ? header.frameLength : 0;
+        this._headerLength = frameStart + this.seekFrameLength;
+
+        log.info(`MP3 format: MPEG-${header.version} layer ${header.layer}, ${header.channels}ch, ${header.sampleRate}Hz, ${header.bitrate / 1000}kbps`);
+        log.debug(`Header size: ${this._headerLength}${this.seekTable ? ` (${this.seekTable.xingToc ? 'Xing' : this.seekTable.vbriToc ? 'VBRI' : 'Info'} frame)` : ''}`);
+        return this._headerLength;
+    }
+
+    nextSegment(data: Uint8Array, streamOffset: number, isFinal: boolean, maxBytes: number): CompressedSegment | null {
+        if (this._headerLength === null || !this.firstFrame) return null;
+
+        let pos = Mp3FrameParser.parseFrameHeader(data, 0) ? 0 : Mp3FrameParser.findSync(data, 0, isFinal);
+        if (pos < 0) return null;
+
+        const frames: Uint8Array[] = [];
+        let groupBytes = 0;
+        let samplesPerFrame = this.firstFrame.samplesPerFrame;
+        let sampleRate = this.firstFrame.sampleRate;
+
+        while (pos + 4 <= data.length) {
+            const header = Mp3FrameParser.parseFrameHeader(data, pos);
+            if (!header || pos + header.frameLength > data.length) break;
+            if (frames.length > 0 && groupBytes + header.frameLength > maxBytes) break;
+
+            frames.push(data.subarray(pos, pos + header.frameLength));
+            groupBytes += header.frameLength;
+            pos += header.frameLength;
+            samplesPerFrame = header.samplesPerFrame;
+            sampleRate = header.sampleRate;
+        }
+
+        let preRoll = this.preRollFrames;
+        let kept = frames;
+        if (this.awaitingPreRoll && preRoll.length === 0) {
+            // Offset stream: the first frames only prime the decoder
+            if (frames.length <= PRE_ROLL_FRAMES && !isFinal) return null;
+            preRoll = frames.slice(0, Math.min(PRE_ROLL_FRAMES, frames.length - 1));
+            kept = frames.slice(preRoll.length);
+        }
+        if (kept.length === 0) return null;
+
+        const file = new Uint8Array(preRoll.concat(kept).reduce((sum, frame) => sum + frame.length, 0));
+        let offset = 0;
+        for (const frame of preRoll.concat(kept)) {
+            file.set(frame, offset);
+            offset += frame.length;
+        }
+
+        const startTime = this.isFirstSegment && !this.awaitingPreRoll ? 0 : null;
+        this.preRollFrames = frames.slice(-PRE_ROLL_FRAMES).map(frame => frame.slice());
+        this.awaitingPreRoll = false;
+        this.isFirstSegment = false;
+        this.framesSeen += frames.length;
+        this.bytesSeen += groupBytes;
+
+        return {
+            data: file,
+            bytesConsumed: pos,
+            duration: kept.length * samplesPerFrame / sampleRate,
+            startTime
+        };
+    }
+
+    /**
+     * Exact from the Xing/VBRI frame count; otherwise estimated from the average frame size
+     */
+    getDuration(audioLength: number): number | null {
+        const first = this.firstFrame;
+        if (!first) return null;
+
+        const frames = this.seekTable?.frames || audioLength / this.averageFrameBytes();
+        return frames * first.samplesPerFrame / first.sampleRate;
+    }
+
+    /**
+     * Byte offset from the Xing TOC (percent of file), the VBRI TOC (bytes per group of
+     * frames), or the average frame size for CBR streams. The offset stream resyncs on the
+     * next frame header.
+     */
+    calculateByteOffset(positionSeconds: number, audioLength: number): number {
+        const first = this.firstFrame;
+        if (!first) return 0;
+
+        const table = this.seekTable;
+        const duration = this.getDuration(audioLength) ?? 0;
+        let offset: number;
+
+        if (table?.xingToc && table.bytes > 0 && duration > 0) {
+            const percent = Math.min(Math.max(positionSeconds / duration * 100, 0), 100);
+            const i = Math.min(99, Math.floor(percent));
+            const fa = table.xingToc[i];
+            const fb = i < 99 ? table.xingToc[i + 1] : 256;
+            const fx = fa + (fb - fa) * (percent - i);
+            offset = Math.floor(fx / 256 * table.bytes) - this.seekFrameLength;
+        } else if (table?.vbriToc && table.vbriFramesPerEntry > 0) {
+            const frame = positionSeconds * first.sampleRate / first.samplesPerFrame;
+            const entry = frame / table.vbriFramesPerEntry;
+            const whole = Math.min(Math.floor(entry), table.vbriToc.length);
+            offset = 0;
+            for (let i = 0; i < whole; i++) offset += table.vbriToc[i];
+            if (whole < table.vbriToc.length) offset += Math.floor(table.vbriToc[whole] * (entry - whole));
+        } else {
+            const frame = Math.floor(positionSeconds * first.sampleRate / first.samplesPerFrame);
+            offset = Math.floor(frame * this.averageFrameBytes());
+        }
+
+        return Math.min(Math.max(0, offset), audioLength);
+    }
+
+    resetForOffset(): void {
+        this.preRollFrames = [];
+        this.awaitingPreRoll = true;
+    }
+
+    private averageFrameBytes(): number {
+        return this.framesSeen > 0 ? this.bytesSeen / this.framesSeen : this.firstFrame!.frameLength;
+    }
+
+    private parseXing(data: Uint8Array, frameStart: number, header: Mp3FrameHeader): Mp3SeekTable | null {
+        const sideInfo = header.version === 1
+            ? (header.channels === 1 ? 17 : 32)
+            : (header.channels === 1 ? 9 : 17);
+        let pos = frameStart + 4 + sideInfo;
+
+        const tag = Mp3FrameParser.readString(data, pos, 4);
+        if (tag !== 'Xing' && tag !== 'Info') return null;
+
+        const view = new DataView(data.buffer, data.byteOffset, data.length);
+        const flags = view.getUint32(pos + 4);
+        pos += 8;
+
+        const table: Mp3SeekTable = { frames: 0, bytes: 0, xingToc: null, vbriToc: null, vbriFramesPerEntry: 0 };
+        if (flags & 0x1) {
+            table.frames = view.getUint32(pos);
+            pos += 4;
+        }
+        if (flags & 0x2) {
+            table.bytes = view.getUint32(pos);
+            pos += 4;
+        }
+        if (flags & 0x4) {
+            table.xingToc = Array.from(data.subarray(pos, pos + 100));
+        }
+
+        return table;
+    }
+
+    private parseVbri(data: Uint8Array, frameStart: number): Mp3SeekTable | null {
+        const pos = frameStart + 4 + 32;
+        if (pos + 26 > data.length || Mp3FrameParser.readString(data, pos, 4) !== 'VBRI') return null;
+
+        const view = new DataView(data.buffer, data.byteOffset, data.length);
+        const bytes = view.getUint32(pos + 10);
+        const frames = view.getUint32(pos + 14);
+        const entries = view.getUint16(pos + 18);
+        const scale = view.getUint16(pos + 20);
+        const entrySize = view.getUint16(pos + 22);
+        const framesPerEntry = view.getUint16(pos + 24);
+
+        const toc: number[] = [];
+        for (let i = 0; i < entries; i++) {
+            const entryPos = pos + 26 + i * entrySize;
+            if (entryPos + entrySize > data.length) break;
+
+            let value = 0;
+            for (let b = 0; b < entrySize; b++) {
+                value = value * 256 + data[entryPos + b];
+            }
+            toc.push(value * scale);
+        }
+
+        return { frames, bytes, xingToc: null, vbriToc: toc, vbriFramesPerEntry: framesPerEntry };
+    }
+
+    /**
+     * First frame header at or after from that is followed by a compatible header
+     * (or ends exactly at the end of the final data)
+     */
+    private static findSync(data: Uint8Array, from: number, isFinal: boolean): number {
+        for (let i = from; i + 4 <= data.length; i++) {
+            const header = Mp3FrameParser.parseFrameHeader(data, i);
+            if (!header) continue;
+
+            const next = i + header.frameLength;
+            if (next + 4 > data.length) {
+                if (isFinal && next === data.length) return i;
+                if (next > data.length && !isFinal) return -1;  // Wait for more data
+                continue;
+            }
+
+            const nextHeader = Mp3FrameParser.parseFrameHeader(data, next);
+            if (nextHeader && nextHeader.version === header.version &&
+                nextHeader.layer === header.layer && nextHeader.sampleRate === header.sampleRate) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private static parseFrameHeader(data: Uint8Array, pos: number): Mp3FrameHeader | null {
+        if (pos + 4 > data.length) return null;
+        if (data[pos] !== 0xFF || (data[pos + 1] & 0xE0) !== 0xE0) return null;
+
+        const versionBits = (data[pos + 1] >> 3) & 0x3;
+        const layerBits = (data[pos + 1] >> 1) & 0x3;
+        const bitrateIndex = data[pos + 2] >> 4;
+        const sampleRateIndex = (data[pos + 2] >> 2) & 0x3;
+        const padding = (data[pos + 2] >> 1) & 0x1;
+        const channelMode = data[pos + 3] >> 6;
+
+        // Reserved values; free-format bitrate is not supported
+        if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+            return null;
+        }
+
+        const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+        const layer = 4 - layerBits;
+        const bitrate = BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+        const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+
+        let samplesPerFrame: number;
+        let frameLength: number;
+        if (layer === 1) {
+            samplesPerFrame = 384;
+            frameLength = (Math.floor(12 * bitrate / sampleRate) + padding) * 4;
+        } else if (layer === 2 || version === 1) {
+            samplesPerFrame = 1152;
+            frameLength = Math.floor(144 * bitrate / sampleRate) + padding;
+        } else {
+            samplesPerFrame = 576;
+            frameLength = Math.floor(72 * bitrate / sampleRate) + padding;
+        }
+
+        return {
+            version,
+            layer,
+            bitrate,
+            sampleRate,
+            samplesPerFrame,
+            frameLength,
+            channels: channelMode === 3 ? 1 : 2
+        };
+    }
+
+    private static readString(data: Uint8Array, offset: number, length: number): string {
+        return String.fromCharCode(...data.subarray(offset, offset + length));
+    }
+}
@@ -0,0 +1,405 @@
+/**
+ * OggOpusParser - Ogg page segmentation for Opus streams.
+ *
+ * Single Responsibility: Split an Ogg Opus stream on page boundaries into self-contained
+ * Ogg files for decodeAudioData. Every group after the first is prefixed with the stream
+ * headers (pre-skip cleared) and one pre-roll page so the decoder has converged by the
+ * first kept sample; granule positions are rebased so each file starts at zero.
+ */
+
+import { CompressedSegment, CompressedStreamParser } from './CompressedStreamParser.js';
+import { AudioError } from './AudioError.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('OggOpusParser');
+
+interface OggPage {
+    start: number;          // Offset within the parsed data
+    length: number;
+    headerType: number;
+    granule: number;        // -1 when no packet ends on this page
+    lacing: Uint8Array;
+    bodyStart: number;
+}
+
+interface PreRollPage {
+    bytes: Uint8Array;
+    granule: number;
+    startGranule: number;   // Granule before the first packet that starts on this page
+}
+
+interface PageIndexEntry {
+    startOffset: number;    // Audio byte offset of the page
+    endOffset: number;
+    granule: number;
+}
+
+const OPUS_SAMPLE_RATE = 48000;
+const PAGE_HEADER_SIZE = 27;
+const HEADER_TYPE_CONTINUED = 0x01;
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+const CRC_TABLE = buildCrcTable();
+
+function buildCrcTable(): Uint32Array {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 24;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = (crc & 0x80000000) ? ((crc << 1) ^ 0x04C11DB7) : (crc << 1);
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+}
+
+/**
+ * Page checksum, computed with the checksum field itself read as zero
+ */
+function pageCrc(data: Uint8Array, start: number, length: number): number {
+    let crc = 0;
+    for (let i = 0; i < length; i++) {
+        const byte = (i >= 22 && i < 26) ? 0 : data[start + i];
+        crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xFF]) >>> 0;
+    }
+    return crc;
+}
+
+export class OggOpusParser implements CompressedStreamParser {
+    readonly format = 'opus' as const;
+    readonly sampleRate = OPUS_SAMPLE_RATE;     // Opus always decodes at 48kHz
+
+    private _headerLength: number | null = null;
+    private headerPages: Uint8Array = new Uint8Array(0);
+    private headerPageCount: number = 0;
+    private firstPageLength: number = 0;
+    private channels: number = 0;
+    private preSkip: number = 0;
+    private preRoll: PreRollPage | null = null;
+    private awaitingPreRoll: boolean = false;
+    private pageIndex: PageIndexEntry[] = [];
+    private finalGranule: number | null = null;
+
+    static isOggOpusStream(data: Uint8Array): boolean {
+        if (data.length < PAGE_HEADER_SIZE || !OggOpusParser.isCapture(data, 0)) return false;
+        const bodyStart = PAGE_HEADER_SIZE + data[26];
+        return data.length >= bodyStart + 8 && OggOpusParser.readString(data, bodyStart, 8) === 'OpusHead';
+    }
+
+    get headerLength(): number | null {
+        return this._headerLength;
+    }
+
+    /**
+     * Parse the OpusHead and OpusTags pages. Audio always begins on a fresh page.
+     */
+    parseHeaders(data: Uint8Array): number | null {
+        let pos = 0;
+        let packets = 0;
+        let pageCount = 0;
+
+        while (packets < 2) {
+            const page = OggOpusParser.readPage(data, pos);
+            if (page === 'incomplete') return null;
+            if (page === 'invalid') throw new AudioError('INVALID_HEADER', 'Invalid Ogg page in Opus headers');
+
+            if (pageCount === 0) {
+                this.parseOpusHead(data, page);
+                this.firstPageLength = page.length;
+            }
+
+            for (const lace of page.lacing) {
+                if (lace < 255) packets++;
+            }
+            pos += page.length;
+            pageCount++;
+        }
+
+        this.headerPages = data.slice(0, pos);
+        this.headerPageCount = pageCount;
+        this._headerLength = pos;
+        log.info(`Opus format: ${this.channels}ch, pre-skip ${this.preSkip}, headers ${pos} bytes`);
+        return pos;
+    }
+
+    nextSegment(data: Uint8Array, streamOffset: number, isFinal: boolean, maxBytes: number): CompressedSegment | null {
+        if (this._headerLength === null) return null;
+
+        const pages: OggPage[] = [];
+        let pos = 0;
+        let groupBytes = 0;
+        let lastComplete = -1;
+
+        while (pos < data.length) {
+            const page = OggOpusParser.readPage(data, pos);
+
+            if (page === 'invalid' || (page === 'incomplete' && isFinal && pages.length === 0)) {
+                if (pages.length > 0) break;
+                // Not synced (offset stream or corruption): skip to the next capture pattern
+                const next = OggOpusParser.findCapture(data, pos + 1);
+                if (next < 0) break;
+                pos = next;
+                continue;
+            }
+            if (page === 'incomplete') break;
+            if (pages.length > 0 && groupBytes + page.length > maxBytes) break;
+
+            pages.push(page);
+            groupBytes += page.length;
+            pos += page.length;
+            if (page.granule >= 0) lastComplete = pages.length - 1;
+        }
+
+        // Groups end on a page that completes a packet
+        if (lastComplete < 0) return null;
+        let group = pages.slice(0, lastComplete + 1);
+
+        let preRoll = this.preRoll;
+        if (!preRoll && this.awaitingPreRoll) {
+            // Offset stream: the first complete page only primes the decoder
+            const primer = group.findIndex(page => page.granule >= 0);
+            if (primer >= group.length - 1) return null;
+            preRoll = this.toPreRoll(data, group[primer]);
+            group = group.slice(primer + 1);
+        }
+
+        const outputPages = group.map(page => data.slice(page.start, page.start + page.length));
+        if (preRoll) outputPages.unshift(preRoll.bytes.slice());
+
+        const base = preRoll ? preRoll.startGranule : 0;
+        const lastPage = group[group.length - 1];
+        const keptFrom = preRoll ? preRoll.granule : this.preSkip;
+
+        for (const page of pages.slice(0, lastComplete + 1)) {
+            if (page.granule >= 0) {
+                this.addIndexEntry(streamOffset + page.start, streamOffset + page.start + page.length, page.granule);
+            }
+            if (page.headerType & HEADER_TYPE_EOS) {
+                this.finalGranule = page.granule;
+            }
+        }
+
+        this.preRoll = this.toPreRoll(data, lastPage);
+        this.awaitingPreRoll = false;
+
+        return {
+            data: this.buildSegmentFile(outputPages, base, preRoll !== null),
+            bytesConsumed: lastPage.start + lastPage.length,
+            duration: Math.max(0, lastPage.granule - keptFrom) / OPUS_SAMPLE_RATE,
+            startTime: Math.max(0, keptFrom - this.preSkip) / OPUS_SAMPLE_RATE
+        };
+    }
+
+    /**
+     * Exact once the final page has been seen; otherwise extrapolated from the pages so far
+     */
+    getDuration(audioLength: number): number | null {
+        if (this.finalGranule !== null) {
+            return Math.max(0, this.finalGranule - this.preSkip) / OPUS_SAMPLE_RATE;
+        }
+
+        const last = this.pageIndex[this.pageIndex.length - 1];
+        if (!last || last.endOffset <= 0) return null;
+
+        const estimatedGranule = last.granule * (audioLength / last.endOffset);
+        return Math.max(0, estimatedGranule - this.preSkip) / OPUS_SAMPLE_RATE;
+    }
+
+    /**
+     * Start one page before the page holding the target - the first page of an offset
+     * stream only primes the decoder. Uses the granule index of pages seen so far, or the
+     * average bitrate when the target lies outside it.
+     */
+    calculateByteOffset(positionSeconds: number, audioLength: number): number {
+        const target = Math.round(positionSeconds * OPUS_SAMPLE_RATE) + this.preSkip;
+        const index = this.pageIndex;
+
+        let k = -1;
+        for (let i = 0; i < index.length; i++) {
+            if (index[i].granule > target) break;
+            k = i;
+        }
+
+        if (k >= 0 && k + 1 < index.length && index[k].endOffset === index[k + 1].startOffset) {
+            return index[k].startOffset;
+        }
+
+        const last = index[index.length - 1];
+        if (!last || last.granule <= 0) return 0;
+
+        const bytesPerGranule = last.endOffset / last.granule;
+        const pageSize = last.endOffset - last.startOffset;
+        const estimate = Math.floor(target * bytesPerGranule) - 2 * pageSize;
+        return Math.min(Math.max(0, estimate), audioLength);
+    }
+
+    resetForOffset(): void {
+        this.preRoll = null;
+        this.awaitingPreRoll = true;
+    }
+
+    private parseOpusHead(data: Uint8Array, page: OggPage): void {
+        const body = page.bodyStart;
+        if (OggOpusParser.readString(data, body, 8) !== 'OpusHead') {
+            throw new AudioError('UNSUPPORTED_FORMAT', 'Ogg stream is not Opus');
+        }
+
+        this.channels = data[body + 9];
+        this.preSkip = data[body + 10] | (data[body + 11] << 8);
+    }
+
+    /**
+     * Headers + pages as one Ogg file. Rebased files clear pre-skip: the pre-roll page
+     * is trimmed by duration instead.
+     */
+    private buildSegmentFile(pages: Uint8Array[], base: number, rebased: boolean): Uint8Array {
+        const headers = this.headerPages.slice();
+        if (rebased) {
+            const body = PAGE_HEADER_SIZE + headers[26];
+            headers[body + 10] = 0;
+            headers[body + 11] = 0;
+            OggOpusParser.writeCrc(headers, 0, this.firstPageLength);
+        }
+
+        const totalLength = pages.reduce((sum, page) => sum + page.length, headers.length);
+        const file = new Uint8Array(totalLength);
+        file.set(headers, 0);
+
+        let offset = headers.length;
+        pages.forEach((page, i) => {
+            const view = new DataView(page.buffer, page.byteOffset, page.length);
+            const low = view.getUint32(6, true);
+            const high = view.getUint32(10, true);
+            if (!(low === 0xFFFFFFFF && high === 0xFFFFFFFF)) {
+                const granule = high * 2 ** 32 + low - base;
+                view.setUint32(6, granule % 2 ** 32, true);
+                view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+            }
+            page[5] &= ~HEADER_TYPE_BOS;
+            view.setUint32(18, this.headerPageCount + i, true);
+            OggOpusParser.writeCrc(page, 0, page.length);
+
+            file.set(page, offset);
+            offset += page.length;
+        });
+
+        return file;
+    }
+
+    private toPreRoll(data: Uint8Array, page: OggPage): PreRollPage {
+        return {
+            bytes: data.slice(page.start, page.start + page.length),
+            granule: page.granule,
+            startGranule: page.granule - OggOpusParser.pageSamples(data, page)
+        };
+    }
+
+    private addIndexEntry(startOffset: number, endOffset: number, granule: number): void {
+        const index = this.pageIndex;
+        let low = 0;
+        let high = index.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (index[mid].granule < granule) low = mid + 1;
+            else high = mid;
+        }
+
+        if (index[low]?.granule === granule) return;
+        index.splice(low, 0, { startOffset, endOffset, granule });
+    }
+
+    /**
+     * Samples of the packets that both start and end on this page
+     */
+    private static pageSamples(data: Uint8Array, page: OggPage): number {
+        let samples = 0;
+        let packetStart = page.bodyStart;
+        let packetLength = 0;
+        let startedHere = (page.headerType & HEADER_TYPE_CONTINUED) === 0;
+
+        for (const lace of page.lacing) {
+            packetLength += lace;
+            if (lace < 255) {
+                if (startedHere) {
+                    samples += OggOpusParser.packetSamples(data, packetStart, packetLength);
+                }
+                packetStart += packetLength;
+                packetLength = 0;
+                startedHere = true;
+            }
+        }
+
+        return samples;
+    }
+
+    /**
+     * Packet duration in 48kHz samples from the Opus TOC byte
+     */
+    private static packetSamples(data: Uint8Array, offset: number, length: number): number {
+        if (length < 1) return 0;
+
+        const toc = data[offset];
+        const config = toc >> 3;
+        const frameSize = config < 12 ? [480, 960, 1920, 2880][config & 3]     // SILK
+            : config < 16 ? [480, 960][config & 1]                              // Hybrid
+            : [120, 240, 480, 960][config & 3];                                 // CELT
+
+        const code = toc & 3;
+        const frames = code === 0 ? 1
+            : code === 3 ? (length > 1 ? data[offset + 1] & 0x3F : 0)
+            : 2;
+
+        return frameSize * frames;
+    }
+
+    private static readPage(data: Uint8Array, pos: number): OggPage | 'incomplete' | 'invalid' {
+        if (pos + PAGE_HEADER_SIZE > data.length) return 'incomplete';
+        if (!OggOpusParser.isCapture(data, pos) || data[pos + 4] !== 0) return 'invalid';
+
+        const segmentCount = data[pos + 26];
+        const bodyStart = pos + PAGE_HEADER_SIZE + segmentCount;
+        if (bodyStart > data.length) return 'incomplete';
+
+        let bodyLength = 0;
+        for (let i = 0; i < segmentCount; i++) {
+            bodyLength += data[pos + PAGE_HEADER_SIZE + i];
+        }
+
+        const length = PAGE_HEADER_SIZE + segmentCount + bodyLength;
+        if (pos + length > data.length) return 'incomplete';
+
+        const view = new DataView(data.buffer, data.byteOffset, data.length);
+        if (pageCrc(data, pos, length) !== view.getUint32(pos + 22, true)) return 'invalid';
+
+        const low = view.getUint32(pos + 6, true);
+        const high = view.getUint32(pos + 10, true);
+
+        return {
+            start: pos,
+            length,
+            headerType: data[pos + 5],
+            granule: (low === 0xFFFFFFFF && high === 0xFFFFFFFF) ? -1 : high * 2 ** 32 + low,
+            lacing: data.subarray(pos + PAGE_HEADER_SIZE, bodyStart),
+            bodyStart
+        };
+    }
+
+    private static writeCrc(data: Uint8Array, start: number, length: number): void {
+        new DataView(data.buffer, data.byteOffset, data.length).setUint32(start + 22, pageCrc(data, start, length), true);
+    }
+
+    private static findCapture(data: Uint8Array, from: number): number {
+        for (let i = from; i + 4 <= data.length; i++) {
+            if (OggOpusParser.isCapture(data, i)) return i;
+        }
+        return -1;
+    }
+
+    private static isCapture(data: Uint8Array, pos: number): boolean {
+        return data[pos] === 0x4F && data[pos + 1] === 0x67 && data[pos + 2] === 0x67 && data[pos + 3] === 0x53;
+    }
+
+    private static readString(data: Uint8Array, offset: number, length: number): string {
+        return String.fromCharCode(...data.subarray(offset, offset + length));
+    }
+}
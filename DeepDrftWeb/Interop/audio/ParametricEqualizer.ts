@@ -0,0 +1,216 @@
+/**
+ * ParametricEqualizer - Multi-band EQ insert built from BiquadFilterNodes.
+ *
+ * Single Responsibility: Keep the band settings and run them as a series of biquad
+ * filters between a fixed input and output node. Parameter changes are applied to the
+ * live filters; adding, removing, bypassing or reordering bands rewires the series.
+ * Settings outlive the nodes, so build() recreates the same EQ in a new context.
+ */
+
+import { AudioError } from './AudioError.js';
+import { InsertEffect, InsertNodes } from './InsertChain.js';
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'lowpass' | 'highpass' | 'notch';
+
+export interface EqBand {
+    id: string;
+    type: EqBandType;
+    frequency: number;      // Hz
+    gain: number;           // dB (peaking and shelves only)
+    q: number;
+    bypassed: boolean;
+}
+
+export type EqBandSettings = Partial<Omit<EqBand, 'id'>>;
+
+const bandTypes: EqBandType[] = ['peaking', 'lowshelf', 'highshelf', 'lowpass', 'highpass', 'notch'];
+const maxBands = 16;
+
+export class ParametricEqualizer implements InsertEffect {
+    readonly id: string;
+    readonly type = 'eq';
+
+    private context: AudioContext | null = null;
+    private input: GainNode | null = null;
+    private output: GainNode | null = null;
+    private bands: EqBand[] = [];
+    private filters = new Map<string, BiquadFilterNode>();
+    private nextBandId: number = 1;
+
+    constructor(id: string = 'eq') {
+        this.id = id;
+    }
+
+    build(context: AudioContext): InsertNodes {
+        this.context = context;
+        this.input = context.createGain();
+        this.output = context.createGain();
+        this.filters.clear();
+        for (const band of this.bands) {
+            this.filters.set(band.id, this.createFilter(context, band));
+        }
+        this.rewire();
+        return { input: this.input, output: this.output };
+    }
+
+    getBands(): EqBand[] {
+        return this.bands.map(band => ({ ...band }));
+    }
+
+    /**
+     * Add a band at an index (default: last); returns its id
+     */
+    addBand(settings: EqBandSettings, index: number = this.bands.length): string {
+        if (this.bands.length >= maxBands) {
+            throw new AudioError('INVALID_STATE', `EQ is limited to ${maxBands} bands`);
+        }
+
+        const band = ParametricEqualizer.createBand(settings, `band-${this.nextBandId++}`);
+
+        this.bands.splice(ParametricEqualizer.clampIndex(index, this.bands.length), 0, band);
+        if (this.context) {
+            this.filters.set(band.id, this.createFilter(this.context, band));
+        }
+        this.rewire();
+        return band.id;
+    }
+
+    /**
+     * Change a band's settings; type, frequency, gain and Q apply to the running filter
+     */
+    updateBand(id: string, settings: EqBandSettings): void {
+        const index = this.indexOf(id);
+        const band = ParametricEqualizer.validate({ ...this.bands[index], ...ParametricEqualizer.defined(settings), id });
+        const bypassChanged = band.bypassed !== this.bands[index].bypassed;
+        this.bands[index] = band;
+
+        const filter = this.filters.get(id);
+        if (filter) {
+            this.applySettings(filter, band);
+        }
+        if (bypassChanged) {
+            this.rewire();
+        }
+    }
+
+    removeBand(id: string): void {
+        const index = this.indexOf(id);
+        this.bands.splice(index, 1);
+        this.filters.get(id)?.disconnect();
+        this.filters.delete(id);
+        this.rewire();
+    }
+
+    setBandBypass(id: string, bypassed: boolean): void {
+        this.updateBand(id, { bypassed });
+    }
+
+    moveBand(id: string, index: number): void {
+        const [band] = this.bands.splice(this.indexOf(id), 1);
+        this.bands.splice(ParametricEqualizer.clampIndex(index, this.bands.length), 0, band);
+        this.rewire();
+    }
+
+    /**
+     * Replace every band, e.g. when loading a preset
+     */
+    setBands(bands: EqBandSettings[]): void {
+        if (bands.length > maxBands) {
+            throw new AudioError('INVALID_ARGUMENT', `EQ is limited to ${maxBands} bands`);
+        }
+        bands.forEach(band => ParametricEqualizer.createBand(band, ''));     // Reject the set before changing anything
+
+        for (const filter of this.filters.values()) {
+            filter.disconnect();
+        }
+        this.filters.clear();
+        this.bands = [];
+        for (const band of bands) {
+            this.addBand({ ...band });
+        }
+    }
+
+    // ==================== Private Methods ====================
+
+    private createFilter(context: AudioContext, band: EqBand): BiquadFilterNode {
+        const filter = context.createBiquadFilter();
+        this.applySettings(filter, band);
+        return filter;
+    }
+
+    private applySettings(filter: BiquadFilterNode, band: EqBand): void {
+        const time = this.context?.currentTime ?? 0;
+        filter.type = band.type;
+        filter.frequency.setValueAtTime(band.frequency, time);
+        filter.gain.setValueAtTime(band.gain, time);
+        filter.Q.setValueAtTime(band.q, time);
+    }
+
+    /**
+     * Connect input → active band filters in order → output
+     */
+    private rewire(): void {
+        if (!this.input || !this.output) return;
+
+        this.input.disconnect();
+        for (const filter of this.filters.values()) {
+            filter.disconnect();
+        }
+
+        let previous: AudioNode = this.input;
+        for (const band of this.bands) {
+            const filter = this.filters.get(band.id);
+            if (band.bypassed || !filter) continue;
+            previous.connect(filter);
+            previous = filter;
+        }
+        previous.connect(this.output);
+    }
+
+    private indexOf(id: string): number {
+        const index = this.bands.findIndex(band => band.id === id);
+        if (index < 0) {
+            throw new AudioError('NOT_FOUND', `No EQ band '${id}'`);
+        }
+        return index;
+    }
+
+    private static createBand(settings: EqBandSettings, id: string): EqBand {
+        return ParametricEqualizer.validate({
+            type: 'peaking',
+            frequency: 1000,
+            gain: 0,
+            q: 1,
+            bypassed: false,
+            ...ParametricEqualizer.defined(settings),
+            id
+        });
+    }
+
+    /**
+     * Settings without null or undefined fields (.NET sends unset values as null)
+     */
+    private static defined(settings: EqBandSettings): EqBandSettings {
+        return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== null && value !== undefined));
+    }
+
+    private static validate(band: EqBand): EqBand {
+        if (!bandTypes.includes(band.type)) {
+            throw new AudioError('INVALID_ARGUMENT', `Invalid EQ band type '${band.type}'`);
+        }
+        if (!Number.isFinite(band.frequency) || band.frequency < 10 || band.frequency > 24000) {
+            throw new AudioError('INVALID_ARGUMENT', 'EQ band frequency must be 10-24000 Hz');
+        }
+        if (!Number.isFinite(band.gain) || Math.abs(band.gain) > 24) {
+            throw new AudioError('INVALID_ARGUMENT', 'EQ band gain must be within ±24 dB');
+        }
+        if (!Number.isFinite(band.q) || band.q <= 0 || band.q > 100) {
+            throw new AudioError('INVALID_ARGUMENT', 'EQ band Q must be above 0 and at most 100');
+        }
+        return band;
+    }
+
+    private static clampIndex(index: number, length: number): number {
+        return Number.isFinite(index) ? Math.max(0, Math.min(length, Math.floor(index))) : length;
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * PcmConverter - Converts interleaved WAV PCM bytes into planar Float32 channel data.
+ *
+ * Single Responsibility: Sample format conversion. Shared by the decode worker and the
+ * main-thread fallback so both paths produce identical samples.
+ */
+
+export interface PcmFormat {
+    audioFormat: number;     // 1 = integer PCM, 3 = IEEE float
+    bitsPerSample: number;
+    channels: number;
+    blockAlign: number;
+}
+
+export interface PcmChannelData {
+    channels: Float32Array<ArrayBuffer>[];
+    frames: number;
+}
+
+export class PcmConverter {
+    /**
+     * Check whether a format can be converted without decodeAudioData
+     */
+    static canConvert(format: PcmFormat): boolean {
+        if (format.channels < 1 || format.blockAlign < format.channels * (format.bitsPerSample / 8)) {
+            return false;
+        }
+        if (format.audioFormat === 1) {
+            return format.bitsPerSample === 8 || format.bitsPerSample === 16 ||
+                format.bitsPerSample === 24 || format.bitsPerSample === 32;
+        }
+        if (format.audioFormat === 3) {
+            return format.bitsPerSample === 32;
+        }
+        return false;
+    }
+
+    /**
+     * Convert block-aligned interleaved PCM bytes to one Float32Array per channel (-1..1)
+     */
+    static convert(data: Uint8Array, format: PcmFormat): PcmChannelData {
+        if (!PcmConverter.canConvert(format)) {
+            throw new Error(`Unsupported PCM format: format=${format.audioFormat}, ${format.bitsPerSample}-bit`);
+        }
+
+        const bytesPerSample = format.bitsPerSample / 8;
+        const frames = Math.floor(data.length / format.blockAlign);
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const readSample = PcmConverter.getSampleReader(format, view);
+
+        const channels: Float32Array<ArrayBuffer>[] = [];
+        for (let ch = 0; ch < format.channels; ch++) {
+            const channelData = new Float32Array(frames);
+            let offset = ch * bytesPerSample;
+            for (let frame = 0; frame < frames; frame++) {
+                channelData[frame] = readSample(offset);
+                offset += format.blockAlign;
+            }
+            channels.push(channelData);
+        }
+
+        return { channels, frames };
+    }
+
+    private static getSampleReader(format: PcmFormat, view: DataView): (offset: number) => number {
+        if (format.audioFormat === 3) {
+            return offset => view.getFloat32(offset, true);
+        }
+
+        switch (format.bitsPerSample) {
+            case 8:
+                // 8-bit WAV is unsigned with a 128 midpoint
+                return offset => (view.getUint8(offset) - 128) / 128;
+            case 16:
+                return offset => view.getInt16(offset, true) / 32768;
+            case 24:
+                return offset => {
+                    const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+                    return value / 8388608;
+                };
+            default:
+                return offset => view.getInt32(offset, true) / 2147483648;
+        }
+    }
+}
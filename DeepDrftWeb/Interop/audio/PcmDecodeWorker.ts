@@ -0,0 +1,42 @@
+/**
+ * PcmDecodeWorker - Dedicated Web Worker entry point for PCM conversion.
+ *
+ * Single Responsibility: Run PcmConverter off the main thread so decoding
+ * does not compete with Blazor rendering.
+ */
+
+import { PcmConverter, PcmFormat } from './PcmConverter.js';
+
+export interface PcmDecodeRequest {
+    id: number;
+    data: ArrayBuffer;
+    format: PcmFormat;
+}
+
+export interface PcmDecodeResponse {
+    id: number;
+    channels?: Float32Array<ArrayBuffer>[];
+    frames?: number;
+    error?: string;
+}
+
+// Minimal worker scope typing - the project compiles against the DOM lib only
+interface PcmWorkerScope {
+    onmessage: ((event: MessageEvent<PcmDecodeRequest>) => void) | null;
+    postMessage(message: PcmDecodeResponse, transfer?: Transferable[]): void;
+}
+
+const workerScope = self as unknown as PcmWorkerScope;
+
+workerScope.onmessage = (event: MessageEvent<PcmDecodeRequest>) => {
+    const { id, data, format } = event.data;
+    try {
+        const result = PcmConverter.convert(new Uint8Array(data), format);
+        workerScope.postMessage(
+            { id, channels: result.channels, frames: result.frames },
+            result.channels.map(channel => channel.buffer)
+        );
+    } catch (error) {
+        workerScope.postMessage({ id, error: (error as Error).message });
+    }
+};
@@ -0,0 +1,122 @@
+/**
+ * PcmDecoder - Main-thread client for the PCM decode worker.
+ *
+ * Single Responsibility: Dispatch PCM segments to PcmDecodeWorker and resolve the
+ * converted channel data. Converts inline when Web Workers are unavailable, and from the
+ * moment the worker fails - including the segments it still held.
+ */
+
+import { PcmChannelData, PcmConverter, PcmFormat } from './PcmConverter.js';
+import { PcmDecodeRequest, PcmDecodeResponse } from './PcmDecodeWorker.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('PcmDecoder');
+
+interface PendingDecode {
+    data: Uint8Array;           // Kept to convert inline if the worker dies before answering
+    format: PcmFormat;
+    resolve: (result: PcmChannelData) => void;
+    reject: (error: Error) => void;
+}
+
+export class PcmDecoder {
+    private worker: Worker | null = null;
+    private workerFailed: boolean = false;
+    private nextRequestId: number = 1;
+    private pending = new Map<number, PendingDecode>();
+
+    /**
+     * Check whether a format is handled here rather than by decodeAudioData
+     */
+    canDecode(format: PcmFormat): boolean {
+        return PcmConverter.canConvert(format);
+    }
+
+    /**
+     * Convert a block-aligned PCM segment into planar Float32 channel data.
+     * The worker gets a copy, so the segment stays intact until the conversion resolves.
+     */
+    decode(data: Uint8Array, format: PcmFormat): Promise<PcmChannelData> {
+        const worker = this.getWorker();
+        if (!worker) {
+            return Promise.resolve(PcmConverter.convert(data, format));
+        }
+
+        const buffer = data.slice().buffer;
+        const id = this.nextRequestId++;
+        return new Promise<PcmChannelData>((resolve, reject) => {
+            this.pending.set(id, { data, format, resolve, reject });
+            const request: PcmDecodeRequest = { id, data: buffer, format };
+            worker.postMessage(request, [buffer]);
+        });
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.rejectAll('PCM decoder disposed');
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerFailed) {
+            return this.worker;
+        }
+
+        if (typeof Worker === 'undefined') {
+            this.workerFailed = true;
+            return null;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./PcmDecodeWorker.js', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (event: MessageEvent<PcmDecodeResponse>) => this.handleResponse(event.data);
+            this.worker.onerror = (event: ErrorEvent) => {
+                log.error('PCM decode worker failed, falling back to main thread:', event.message);
+                this.worker?.terminate();
+                this.worker = null;
+                this.workerFailed = true;
+                this.convertPendingInline();
+            };
+            log.info('PCM decode worker started');
+        } catch (error) {
+            log.warn('PCM decode worker unavailable, decoding on main thread:', error);
+            this.workerFailed = true;
+        }
+
+        return this.worker;
+    }
+
+    private handleResponse(response: PcmDecodeResponse): void {
+        const pending = this.pending.get(response.id);
+        if (!pending) return;
+        this.pending.delete(response.id);
+
+        if (response.error || !response.channels) {
+            pending.reject(new Error(response.error ?? 'PCM decode returned no data'));
+        } else {
+            pending.resolve({ channels: response.channels, frames: response.frames ?? 0 });
+        }
+    }
+
+    /**
+     * Finish the segments the failed worker held on the main thread, so no audio goes missing
+     */
+    private convertPendingInline(): void {
+        const pending = [...this.pending.values()];
+        this.pending.clear();
+        for (const decode of pending) {
+            try {
+                decode.resolve(PcmConverter.convert(decode.data, decode.format));
+            } catch (error) {
+                decode.reject(error as Error);
+            }
+        }
+    }
+
+    private rejectAll(reason: string): void {
+        for (const pending of this.pending.values()) {
+            pending.reject(new Error(reason));
+        }
+        this.pending.clear();
+    }
+}
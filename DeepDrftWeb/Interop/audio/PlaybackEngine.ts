@@ -0,0 +1,52 @@
+/**
+ * PlaybackEngine - Contract shared by the playback back-ends AudioPlayer can drive.
+ *
+ * - PlaybackScheduler: one AudioBufferSourceNode per decoded segment (default)
+ * - WorkletPlaybackEngine: AudioWorkletProcessor reading a lock-free ring buffer
+ *
+ * Positions are buffer-relative seconds unless noted; playbackOffset maps them to track time.
+ * Positions stay in track time at any playback rate; AudioContext times are scaled by the rate.
+ */
+
+export type PlaybackEngineType = 'scheduler' | 'worklet';
+
+export interface PlaybackEngine {
+    onPlaybackEnded: (() => void) | null;
+    onBuffersScheduled: (() => void) | null;
+    onSourceScheduled: ((leadSeconds: number) => void) | null;    // Start time minus current time; negative = late
+
+    // Buffer storage
+    addBuffer(buffer: AudioBuffer): void;
+    getTotalDuration(): number;
+    getBufferCount(): number;
+    hasBuffers(): boolean;
+    releaseBefore(position: number): number;
+
+    // Position (track time, includes playbackOffset)
+    getCurrentPosition(): number;
+    setPlaybackOffset(offset: number): void;
+    getPlaybackOffset(): number;
+
+    // Transport
+    playFromPosition(position: number, startAt?: number): void;
+    setPlaybackRate(rate: number): void;       // Takes effect on the next playFromPosition
+    scheduleNewBuffers(): void;
+    pause(): number;
+    stopAllSources(): void;
+    resetToStart(): void;
+    clear(): void;
+    clearForSeek(): AudioBuffer[];
+
+    // Transition planning (AudioContext times)
+    isActive(): boolean;
+    isFullyScheduled(): boolean;
+    getScheduledEndTime(): number;
+    getProjectedEndTime(): number;
+
+    // Per-track gain stage
+    fadeIn(startTime: number, duration: number): void;
+    fadeOut(startTime: number, duration: number): void;
+    cancelFade(): void;
+    setNormalizationGain(gainDb: number, rampSeconds: number): void;
+    disconnect(): void;
+}
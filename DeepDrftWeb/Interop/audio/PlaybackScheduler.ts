@@ -2,10 +2,16 @@
  * PlaybackScheduler - Manages AudioBuffer storage and playback scheduling.
  *
  * Single Responsibility: Store decoded buffers and schedule them for playback.
- * Supports pause/resume/seek by retaining all buffers.
+ * Supports pause/resume/seek by retaining buffers; played buffers outside the caller's
+ * retention window are released and their duration moves into playbackOffset.
  */
 
 import { AudioContextManager } from './AudioContextManager.js';
+import { PlaybackEngine } from './PlaybackEngine.js';
+import { TrackGainStage } from './TrackGainStage.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('PlaybackScheduler');
 
 interface ScheduledSource {
     source: AudioBufferSourceNode;
@@ -14,10 +20,11 @@ interface ScheduledSource {
     endTime: number;
 }
 
-export class PlaybackScheduler {
+export class PlaybackScheduler implements PlaybackEngine {
     private contextManager: AudioContextManager;
     private buffers: AudioBuffer[] = [];
     private scheduledSources: ScheduledSource[] = [];
+    private trackGain: TrackGainStage;   // Per-track gain stage for crossfades
 
     // Playback timing
     private playbackAnchorTime: number = 0;      // AudioContext time when playback started/resumed
@@ -25,6 +32,7 @@ export class PlaybackScheduler {
     private nextBufferIndex: number = 0;         // Next buffer to schedule during live streaming
     private nextScheduleTime: number = 0;        // AudioContext time for next buffer
     private isActive_: boolean = false;          // Prevents scheduling during pause/stop
+    private playbackRate: number = 1;            // Track seconds per AudioContext second
 
     // Offset for seek-beyond-buffer scenarios
     // When seeking to position T beyond buffers, we clear buffers and set playbackOffset = T
@@ -33,9 +41,12 @@ export class PlaybackScheduler {
 
     // Callbacks
     public onPlaybackEnded: (() => void) | null = null;
+    public onBuffersScheduled: (() => void) | null = null;
+    public onSourceScheduled: ((leadSeconds: number) => void) | null = null;
 
     constructor(contextManager: AudioContextManager) {
         this.contextManager = contextManager;
+        this.trackGain = new TrackGainStage(contextManager);
     }
 
     /**
@@ -43,7 +54,35 @@ export class PlaybackScheduler {
      */
     addBuffer(buffer: AudioBuffer): void {
         this.buffers.push(buffer);
-        console.log(`📦 Buffer[${this.buffers.length - 1}] added: ${buffer.duration.toFixed(3)}s (total: ${this.getTotalDuration().toFixed(3)}s)`);
+        log.debug(`📦 Buffer[${this.buffers.length - 1}] added: ${buffer.duration.toFixed(3)}s (total: ${this.getTotalDuration().toFixed(3)}s)`);
+    }
+
+    /**
+     * Release played buffers that end before a track position. The released duration moves
+     * into playbackOffset so the remaining buffers keep their track times.
+     * Returns the seconds released.
+     */
+    releaseBefore(position: number): number {
+        const limit = position - this.playbackOffset;
+        let released = 0;
+        let count = 0;
+
+        while (count < this.buffers.length && released + this.buffers[count].duration <= limit) {
+            released += this.buffers[count].duration;
+            count++;
+        }
+        if (count === 0) return 0;
+
+        this.buffers.splice(0, count);
+        this.nextBufferIndex = Math.max(0, this.nextBufferIndex - count);
+        for (const scheduled of this.scheduledSources) {
+            scheduled.bufferIndex -= count;
+        }
+        this.playbackAnchorPosition -= released;
+        this.playbackOffset += released;
+
+        log.debug(`♻️ Released ${count} buffers (${released.toFixed(3)}s), buffers now start at ${this.playbackOffset.toFixed(3)}s`);
+        return released;
     }
 
     /**
@@ -67,7 +106,8 @@ export class PlaybackScheduler {
         if (this.playbackAnchorTime === 0) {
             return this.playbackAnchorPosition + this.playbackOffset;
         }
-        const elapsed = this.contextManager.currentTime - this.playbackAnchorTime;
+        // Anchor may lie in the future when playback was queued behind another track
+        const elapsed = Math.max(0, this.contextManager.currentTime - this.playbackAnchorTime) * this.playbackRate;
         return Math.min(this.playbackAnchorPosition + this.playbackOffset + elapsed, this.getTotalDuration() + this.playbackOffset);
     }
 
@@ -77,7 +117,7 @@ export class PlaybackScheduler {
      */
     setPlaybackOffset(offset: number): void {
         this.playbackOffset = offset;
-        console.log(`📍 Playback offset set to ${offset.toFixed(3)}s`);
+        log.debug(`📍 Playback offset set to ${offset.toFixed(3)}s`);
     }
 
     /**
@@ -88,9 +128,11 @@ export class PlaybackScheduler {
     }
 
     /**
-     * Start or resume playback from a specific position
+     * Start or resume playback from a specific position.
+     * startAt schedules the first buffer at an exact AudioContext time (gapless transitions);
+     * by default playback starts with a small lookahead from now.
      */
-    playFromPosition(position: number): void {
+    playFromPosition(position: number, startAt?: number): void {
         this.stopAllSources();
 
         // Find which buffer contains this position
@@ -110,16 +152,17 @@ export class PlaybackScheduler {
         }
 
         if (startBufferIndex >= this.buffers.length) {
-            console.log('Position beyond available buffers');
+            log.debug('Position beyond available buffers');
             return;
         }
 
-        console.log(`▶️ Playing from ${position.toFixed(3)}s: buffer[${startBufferIndex}] offset=${offsetInBuffer.toFixed(3)}s`);
+        log.debug(`▶️ Playing from ${position.toFixed(3)}s: buffer[${startBufferIndex}] offset=${offsetInBuffer.toFixed(3)}s`);
 
         // Set timing anchors
+        const startTime = startAt ?? this.contextManager.currentTime + 0.01; // Small lookahead
         this.playbackAnchorPosition = position;
-        this.playbackAnchorTime = this.contextManager.currentTime;
-        this.nextScheduleTime = this.contextManager.currentTime + 0.01; // Small lookahead
+        this.playbackAnchorTime = startAt ?? this.contextManager.currentTime;
+        this.nextScheduleTime = startTime;
         this.nextBufferIndex = startBufferIndex;
         this.isActive_ = true;  // Enable scheduling
 
@@ -127,6 +170,13 @@ export class PlaybackScheduler {
         this.scheduleBuffersFrom(startBufferIndex, offsetInBuffer);
     }
 
+    /**
+     * Playback speed for sources scheduled from the next playFromPosition on
+     */
+    setPlaybackRate(rate: number): void {
+        this.playbackRate = rate;
+    }
+
     /**
      * Schedule newly decoded buffers during live streaming
      */
@@ -147,7 +197,7 @@ export class PlaybackScheduler {
      */
     private scheduleBuffersFrom(startIndex: number, offsetInFirstBuffer: number): void {
         const lookaheadTarget = 0.5; // Schedule up to 500ms ahead
-        const gainNode = this.contextManager.getGainNode();
+        const gainNode = this.trackGain.getNode();
 
         for (let i = startIndex; i < this.buffers.length; i++) {
             const buffer = this.buffers[i];
@@ -158,10 +208,11 @@ export class PlaybackScheduler {
             // Create and configure source
             const source = this.contextManager.getContext().createBufferSource();
             source.buffer = buffer;
+            source.playbackRate.value = this.playbackRate;
             source.connect(gainNode);
 
             const scheduleTime = this.nextScheduleTime;
-            const endTime = scheduleTime + duration;
+            const endTime = scheduleTime + duration / this.playbackRate;
 
             // Track scheduled source
             const scheduled: ScheduledSource = {
@@ -177,20 +228,23 @@ export class PlaybackScheduler {
 
             // Schedule the source
             source.start(scheduleTime, offset);
+            this.onSourceScheduled?.(scheduleTime - this.contextManager.currentTime);
 
-            console.log(`🎵 Scheduled buffer[${i}]: ${scheduleTime.toFixed(3)}s -> ${endTime.toFixed(3)}s`);
+            log.debug(`🎵 Scheduled buffer[${i}]: ${scheduleTime.toFixed(3)}s -> ${endTime.toFixed(3)}s`);
 
             // Update for next buffer
             this.nextScheduleTime = endTime;
             this.nextBufferIndex = i + 1;
 
-            // Check if we have enough lookahead
-            const lookahead = this.nextScheduleTime - this.contextManager.currentTime;
+            // Check if we have enough lookahead (measured from the start time when queued in the future)
+            const lookahead = this.nextScheduleTime - Math.max(this.contextManager.currentTime, this.playbackAnchorTime);
             if (lookahead > lookaheadTarget) {
-                console.log(`📋 Lookahead: ${(lookahead * 1000).toFixed(0)}ms buffered`);
+                log.debug(`📋 Lookahead: ${(lookahead * 1000).toFixed(0)}ms buffered`);
                 break;
             }
         }
+
+        this.onBuffersScheduled?.();
     }
 
     /**
@@ -215,7 +269,7 @@ export class PlaybackScheduler {
 
         // Check if all playback has finished
         if (this.scheduledSources.length === 0 && this.nextBufferIndex >= this.buffers.length) {
-            console.log('✓ Playback complete');
+            log.debug('✓ Playback complete');
             this.isActive_ = false;
             this.playbackAnchorTime = 0;
             this.playbackAnchorPosition = 0;
@@ -233,7 +287,7 @@ export class PlaybackScheduler {
         this.playbackAnchorPosition = position;
         this.playbackAnchorTime = 0;
         this.nextScheduleTime = 0;
-        console.log(`⏸️ Paused at ${position.toFixed(3)}s`);
+        log.debug(`⏸️ Paused at ${position.toFixed(3)}s`);
         return position;
     }
 
@@ -261,7 +315,7 @@ export class PlaybackScheduler {
         this.playbackAnchorTime = 0;
         this.nextBufferIndex = 0;
         this.nextScheduleTime = 0;
-        console.log('⏮️ Reset to start');
+        log.debug('⏮️ Reset to start');
     }
 
     /**
@@ -276,13 +330,16 @@ export class PlaybackScheduler {
         this.nextBufferIndex = 0;
         this.nextScheduleTime = 0;
         this.playbackOffset = 0;
-        console.log('🗑️ Scheduler cleared');
+        this.cancelFade();
+        log.debug('🗑️ Scheduler cleared');
     }
 
     /**
-     * Clear buffers but keep offset - for seek-beyond-buffer scenarios
+     * Clear buffers but keep offset - for seek-beyond-buffer scenarios.
+     * Returns the removed buffers so the caller can keep them as a stored range.
      */
-    clearForSeek(): void {
+    clearForSeek(): AudioBuffer[] {
+        const removed = this.buffers;
         this.isActive_ = false;
         this.stopAllSources();
         this.buffers = [];
@@ -291,7 +348,48 @@ export class PlaybackScheduler {
         this.nextBufferIndex = 0;
         this.nextScheduleTime = 0;
         // Note: playbackOffset is NOT reset - it will be set by the caller
-        console.log('🗑️ Scheduler cleared for seek (offset preserved)');
+        log.debug('🗑️ Scheduler cleared for seek (offset preserved)');
+        return removed;
+    }
+
+    /**
+     * Equal-power fade-in of this track's gain stage, silent until startTime
+     */
+    fadeIn(startTime: number, duration: number): void {
+        this.trackGain.fadeIn(startTime, duration);
+    }
+
+    /**
+     * Equal-power fade-out of this track's gain stage, full level until startTime
+     */
+    fadeOut(startTime: number, duration: number): void {
+        this.trackGain.fadeOut(startTime, duration);
+    }
+
+    /**
+     * Cancel any pending fade and restore full track level
+     */
+    cancelFade(): void {
+        this.trackGain.cancelFade();
+    }
+
+    setNormalizationGain(gainDb: number, rampSeconds: number): void {
+        this.trackGain.setNormalizationGain(gainDb, rampSeconds);
+    }
+
+    /**
+     * Disconnect this track's gain stage from the graph (scheduler is being discarded)
+     */
+    disconnect(): void {
+        this.trackGain.disconnect();
+    }
+
+    /**
+     * AudioContext time at which all stored buffers will have played, given the current anchors.
+     * Unlike getScheduledEndTime this is known before the final buffers are scheduled.
+     */
+    getProjectedEndTime(): number {
+        return this.playbackAnchorTime + (this.getTotalDuration() - this.playbackAnchorPosition) / this.playbackRate;
     }
 
     /**
@@ -302,10 +400,17 @@ export class PlaybackScheduler {
     }
 
     /**
-     * Check if we have minimum buffers for playback
+     * Check if every stored buffer has been handed to the AudioContext
+     */
+    isFullyScheduled(): boolean {
+        return this.isActive_ && this.nextBufferIndex >= this.buffers.length;
+    }
+
+    /**
+     * AudioContext time at which the last scheduled buffer finishes
      */
-    hasMinimumBuffers(minCount: number): boolean {
-        return this.buffers.length >= minCount;
+    getScheduledEndTime(): number {
+        return this.nextScheduleTime;
     }
 
     /**
@@ -4,6 +4,10 @@
  * Single Responsibility: FFT analysis, frequency bucketing, and visual processing filters.
  */
 
+import { createLogger } from './Logger.js';
+
+const log = createLogger('SpectrumAnalyzer');
+
 export interface SpectrumConfig {
     bucketCount: number;
     highPassFreq: number;  // Hz, 0 = disabled
@@ -36,7 +40,7 @@ export class SpectrumAnalyzer {
         this.analyser.smoothingTimeConstant = 0.8;
         this.dataArray = new Float32Array(this.analyser.frequencyBinCount);
 
-        console.log(`SpectrumAnalyzer initialized: fftSize=${this.fftSize}, bins=${this.analyser.frequencyBinCount}`);
+        log.debug(`SpectrumAnalyzer initialized: fftSize=${this.fftSize}, bins=${this.analyser.frequencyBinCount}`);
         return this.analyser;
     }
 
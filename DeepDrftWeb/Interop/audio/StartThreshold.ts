@@ -0,0 +1,88 @@
+/**
+ * StartThreshold - Decides when a stream has buffered enough to start playback.
+ *
+ * Single Responsibility: Measure the chunk arrival rate and compare the estimated time to
+ * download the rest of the stream with the playback time it has to arrive within.
+ */
+
+export interface StartThresholdInput {
+    bufferedSeconds: number;    // Decoded audio from the start position
+    remainingSeconds: number;   // Playback from the start position to the end of the track (0 = unknown)
+    remainingBytes: number;     // Stream bytes still to arrive
+    streamComplete: boolean;
+}
+
+interface ChunkArrival {
+    time: number;
+    bytes: number;
+}
+
+export class StartThreshold {
+    private arrivals: ChunkArrival[] = [];
+    private safetyMargin: number;
+    private readonly rateWindowMs: number = 5000;
+    private readonly minBufferedSeconds: number = 0.5;
+
+    constructor(safetyMargin: number = 2) {
+        this.safetyMargin = safetyMargin;
+    }
+
+    /**
+     * Record a received chunk for the arrival rate
+     */
+    recordChunk(bytes: number, time: number = performance.now()): void {
+        this.arrivals.push({ time, bytes });
+
+        // Keep the window plus one older sample as the rate's starting point
+        while (this.arrivals.length > 2 && time - this.arrivals[1].time > this.rateWindowMs) {
+            this.arrivals.shift();
+        }
+    }
+
+    /**
+     * Bytes per second over the recent window; null until two chunks have arrived
+     */
+    getArrivalRate(): number | null {
+        if (this.arrivals.length < 2) return null;
+
+        const first = this.arrivals[0];
+        const last = this.arrivals[this.arrivals.length - 1];
+        const elapsedSeconds = (last.time - first.time) / 1000;
+        const bytes = this.arrivals.slice(1).reduce((sum, arrival) => sum + arrival.bytes, 0);
+
+        return elapsedSeconds > 0 ? bytes / elapsedSeconds : Infinity;
+    }
+
+    /**
+     * Start once the rest of the stream is expected to arrive, with safetyMargin seconds
+     * to spare, before playback reaches the end. Without a known duration, start once
+     * the buffer covers the safety margin.
+     */
+    canStart(input: StartThresholdInput): boolean {
+        if (input.bufferedSeconds <= 0) return false;
+        if (input.streamComplete || input.remainingBytes <= 0) return true;
+        if (input.bufferedSeconds < this.minBufferedSeconds) return false;
+
+        if (input.remainingSeconds <= 0) {
+            return input.bufferedSeconds >= this.minBufferedSeconds + this.safetyMargin;
+        }
+
+        const rate = this.getArrivalRate();
+        if (rate === null || rate <= 0) return false;
+
+        const downloadSeconds = input.remainingBytes / rate;
+        return downloadSeconds + this.safetyMargin <= input.remainingSeconds;
+    }
+
+    getSafetyMargin(): number {
+        return this.safetyMargin;
+    }
+
+    setSafetyMargin(seconds: number): void {
+        this.safetyMargin = seconds;
+    }
+
+    reset(): void {
+        this.arrivals = [];
+    }
+}
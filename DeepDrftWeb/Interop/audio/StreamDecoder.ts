@@ -1,41 +1,96 @@
 /**
- * StreamDecoder - Handles WAV stream parsing and AudioBuffer decoding.
+ * StreamDecoder - Handles WAV, FLAC, Ogg Opus and MP3 stream parsing and AudioBuffer decoding.
  *
- * Single Responsibility: Convert raw WAV stream data into decoded AudioBuffers.
+ * Single Responsibility: Convert raw stream data into decoded AudioBuffers.
+ * The format is detected from the first chunk ("RIFF", "fLaC", "OggS" + OpusHead, ID3/MPEG sync).
+ * WAV: integer and float PCM is converted in a Web Worker (PcmDecoder); other formats
+ * fall back to decodeAudioData.
+ * FLAC: frames are decoded incrementally by FlacDecoder as chunks arrive.
+ * Opus/MP3: split on page/frame boundaries by a CompressedStreamParser and decoded
+ * group by group with decodeAudioData.
  */
 
-import { WavHeader, WavUtils } from '../wavutils.js';
+import { WavHeader, WavMetadata, WavUtils } from '../wavutils.js';
 import { AudioContextManager } from './AudioContextManager.js';
+import { PcmDecoder } from './PcmDecoder.js';
+import { FlacDecoder, FlacMetadata } from './FlacDecoder.js';
+import { CompressedFormat, CompressedStreamParser } from './CompressedStreamParser.js';
+import { OggOpusParser } from './OggOpusParser.js';
+import { Mp3FrameParser } from './Mp3FrameParser.js';
+import { AudioError, getErrorCode } from './AudioError.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('StreamDecoder');
 
 export interface DecodedChunkResult {
     buffer: AudioBuffer;
     duration: number;
 }
 
+export type StreamFormat = 'wav' | 'flac' | CompressedFormat;
+
 export class StreamDecoder {
     private contextManager: AudioContextManager;
+    private pcmDecoder: PcmDecoder;
+    private format: StreamFormat | null = null;
     private wavHeader: WavHeader | null = null;
+    private wavMetadata: WavMetadata | null = null;
+    private trailingMetadataParsed: boolean = false;
+    private flacMetadata: FlacMetadata | null = null;
+    private compressedParser: CompressedStreamParser | null = null;
     private rawChunks: Uint8Array[] = [];
+    private releasedBytes: number = 0;              // Consumed raw bytes dropped from the front of rawChunks
     private totalRawBytes: number = 0;
     private processedBytes: number = 0;
+    private headerBytesStripped: number = 0;        // WAV header bytes removed before rawChunks
     private isFirstChunk: boolean = true;
     private totalStreamLength: number = 0;
-
-    constructor(contextManager: AudioContextManager) {
+    private fullStreamLength: number = 0;           // Length of the original (non-offset) stream
+    private trackDataSize: number = 0;              // WAV audio bytes in the whole track, kept for offset streams
+    private trackWavHeader: WavHeader | null = null;    // WAV header of the whole track, kept for offset streams
+    private streamStartTime: number | null = null;  // Track time of the first decoded frame (FLAC, Opus)
+    private isOffsetStream: boolean = false;
+    private audioDataStart: number = 0;             // Raw position of the first audio byte (compressed)
+    private streamBaseOffset: number = 0;           // Audio byte offset of this stream within the track
+    private matchContextSampleRate: boolean = true;
+
+    // Segments that fail to decode are skipped; this reports them
+    onDecodeError: ((error: AudioError) => void) | null = null;
+
+    constructor(contextManager: AudioContextManager, pcmDecoder: PcmDecoder) {
         this.contextManager = contextManager;
+        this.pcmDecoder = pcmDecoder;
     }
 
     /**
-     * Initialize for a new stream
+     * Initialize for a new stream.
+     * Pass matchContextSampleRate = false when another stream is already playing through
+     * the shared AudioContext (e.g. a pre-buffered next track); decodeAudioData then
+     * resamples to the current context rate instead of recreating the context.
      */
-    initialize(totalStreamLength: number): void {
+    initialize(totalStreamLength: number, matchContextSampleRate: boolean = true): void {
+        this.format = null;
         this.wavHeader = null;
+        this.wavMetadata = null;
+        this.trailingMetadataParsed = false;
+        this.flacMetadata = null;
+        this.compressedParser = null;
         this.rawChunks = [];
+        this.releasedBytes = 0;
         this.totalRawBytes = 0;
         this.processedBytes = 0;
+        this.headerBytesStripped = 0;
         this.isFirstChunk = true;
         this.totalStreamLength = totalStreamLength;
-        console.log(`StreamDecoder initialized: expecting ${totalStreamLength} bytes`);
+        this.fullStreamLength = totalStreamLength;
+        this.trackDataSize = 0;
+        this.trackWavHeader = null;
+        this.streamStartTime = null;
+        this.isOffsetStream = false;
+        this.audioDataStart = 0;
+        this.streamBaseOffset = 0;
+        this.matchContextSampleRate = matchContextSampleRate;
+        log.debug(`StreamDecoder initialized: expecting ${totalStreamLength} bytes`);
     }
 
     /**
@@ -49,33 +104,96 @@ export class StreamDecoder {
             this.addRawData(chunk);
         }
 
-        return this.tryDecodeNextSegment();
+        // FLAC metadata (e.g. embedded artwork) may span several chunks
+        if (this.format === 'flac' && !this.flacMetadata) {
+            await this.tryParseFlacMetadata();
+        }
+        if (this.compressedParser && this.compressedParser.headerLength === null) {
+            await this.tryParseCompressedHeaders(this.compressedParser);
+        }
+        if (this.format === 'wav' && this.isComplete && !this.trailingMetadataParsed) {
+            this.parseTrailingMetadata();
+        }
+
+        const result = await this.tryDecodeNextSegment();
+        this.releaseConsumedChunks();
+        return result;
     }
 
     /**
-     * Handle first chunk - extract WAV header and setup AudioContext
+     * Handle first chunk - detect the format, extract WAV header and setup AudioContext
      */
     private async handleFirstChunk(chunk: Uint8Array): Promise<void> {
-        console.log('\n--- Processing first chunk ---');
+        log.debug('\n--- Processing first chunk ---');
+
+        if (FlacDecoder.isFlacStream(chunk)) {
+            this.format = 'flac';
+            this.flacMetadata = null;
+            this.compressedParser = null;
+            this.addRawData(chunk);
+            return;
+        }
+
+        if (this.format === 'flac' && this.flacMetadata) {
+            // Offset stream of a known FLAC track: bare frames, synced by FlacDecoder
+            this.addRawData(chunk);
+            log.debug('FLAC offset stream: continuing with existing STREAMINFO');
+            return;
+        }
+
+        if (this.isOffsetStream && this.compressedParser?.headerLength != null) {
+            // Offset stream of a known Opus/MP3 track: bare pages/frames, synced by the parser
+            this.compressedParser.resetForOffset();
+            this.addRawData(chunk);
+            log.debug(`${this.compressedParser.format} offset stream: continuing with existing headers`);
+            return;
+        }
+
+        const parser = OggOpusParser.isOggOpusStream(chunk) ? new OggOpusParser()
+            : Mp3FrameParser.isMp3Stream(chunk) ? new Mp3FrameParser()
+            : null;
+        if (parser) {
+            this.format = parser.format;
+            this.compressedParser = parser;
+            this.flacMetadata = null;
+            this.addRawData(chunk);
+            return;
+        }
 
-        const header = WavUtils.parseHeader([chunk], chunk.length);
+        this.format = 'wav';
+        this.compressedParser = null;
+        let header = WavUtils.parseHeader([chunk], chunk.length);
         if (!header) {
-            throw new Error('Invalid WAV header in first chunk');
+            const magic = String.fromCharCode(...chunk.subarray(0, 4));
+            if (magic !== 'RIFF' && magic !== 'RF64' && magic !== 'BW64') {
+                throw new AudioError('UNSUPPORTED_FORMAT', 'Unrecognized stream format in first chunk');
+            }
+            throw new AudioError('INVALID_HEADER', 'Invalid WAV header in first chunk');
         }
 
+        if (!this.isOffsetStream) {
+            // Offset streams carry a synthesized header; keep the original track's metadata and length
+            this.wavMetadata = WavUtils.parseMetadata(chunk);
+            this.trackDataSize = header.dataSize > 0 ? header.dataSize : this.totalStreamLength - header.headerSize;
+            this.trackWavHeader = header;
+        } else if (this.trackWavHeader) {
+            // Take only the data layout from the synthesized header; the sample format stays the track's
+            header = { ...this.trackWavHeader, headerSize: header.headerSize, dataSize: header.dataSize };
+        }
         this.wavHeader = header;
-        console.log(`WAV format: ${header.bitsPerSample}-bit, ${header.channels}ch, ${header.sampleRate}Hz`);
-        console.log(`Header size: ${header.headerSize}, byteRate: ${header.byteRate}`);
+        log.info(`WAV format: ${header.bitsPerSample}-bit, ${header.channels}ch, ${header.sampleRate}Hz`);
+        log.debug(`Header size: ${header.headerSize}, byteRate: ${header.byteRate}`);
 
         // Recreate AudioContext with correct sample rate if needed
-        if (this.contextManager.sampleRate !== header.sampleRate) {
+        if (this.matchContextSampleRate && this.contextManager.sampleRate !== header.sampleRate) {
             await this.contextManager.recreateWithSampleRate(header.sampleRate);
         }
 
         // Extract audio data (skip WAV header)
         const audioData = chunk.subarray(header.headerSize);
+        this.headerBytesStripped = header.headerSize;
         this.addRawData(audioData);
-        console.log(`Extracted ${audioData.length} bytes of audio data`);
+        log.debug(`Extracted ${audioData.length} bytes of audio data`);
     }
 
     /**
@@ -86,43 +204,209 @@ export class StreamDecoder {
         this.totalRawBytes += data.length;
     }
 
+    /**
+     * Drop raw chunks the decoder has moved past; raw positions stay absolute
+     */
+    private releaseConsumedChunks(): void {
+        while (this.rawChunks.length > 0 && this.releasedBytes + this.rawChunks[0].length <= this.processedBytes) {
+            this.releasedBytes += this.rawChunks[0].length;
+            this.rawChunks.shift();
+        }
+    }
+
+    /**
+     * Raw position where WAV audio ends; chunks after the data chunk are metadata
+     */
+    private get audioDataEnd(): number {
+        return this.wavHeader && this.wavHeader.dataSize > 0 ? this.wavHeader.dataSize : Infinity;
+    }
+
+    /**
+     * Read metadata chunks that follow the data chunk (commonly cue and LIST)
+     */
+    private parseTrailingMetadata(): void {
+        this.trailingMetadataParsed = true;
+        if (!this.wavHeader || !this.wavMetadata) return;
+
+        const trailingStart = this.audioDataEnd + (this.wavHeader.dataSize & 1);
+        if (trailingStart >= this.totalRawBytes) return;
+
+        WavUtils.parseMetadataChunks(this.copyRawData(trailingStart, this.totalRawBytes - trailingStart), this.wavMetadata);
+        log.debug(`Parsed trailing metadata: ${this.wavMetadata.cuePoints.length} cue points`);
+    }
+
+    /**
+     * Parse FLAC metadata blocks once they have fully arrived, then setup AudioContext
+     */
+    private async tryParseFlacMetadata(): Promise<void> {
+        const metadata = FlacDecoder.parseMetadata(this.copyRawData(0, this.totalRawBytes));
+        if (!metadata) return; // Wait for more data
+
+        this.flacMetadata = metadata;
+        this.processedBytes = metadata.metadataLength;
+
+        const info = metadata.streamInfo;
+        log.info(`FLAC format: ${info.bitsPerSample}-bit, ${info.channels}ch, ${info.sampleRate}Hz`);
+        log.debug(`Metadata size: ${metadata.metadataLength}`);
+
+        if (this.matchContextSampleRate && this.contextManager.sampleRate !== info.sampleRate) {
+            await this.contextManager.recreateWithSampleRate(info.sampleRate);
+        }
+    }
+
+    /**
+     * Parse Opus/MP3 stream headers once they have fully arrived, then setup AudioContext
+     */
+    private async tryParseCompressedHeaders(parser: CompressedStreamParser): Promise<void> {
+        const headerLength = parser.parseHeaders(this.copyRawData(0, this.totalRawBytes));
+        if (headerLength === null) return; // Wait for more data
+
+        this.processedBytes = headerLength;
+        this.audioDataStart = headerLength;
+
+        if (this.matchContextSampleRate && this.contextManager.sampleRate !== parser.sampleRate) {
+            await this.contextManager.recreateWithSampleRate(parser.sampleRate);
+        }
+    }
+
     /**
      * Try to decode the next segment of audio
      */
     private async tryDecodeNextSegment(): Promise<DecodedChunkResult | null> {
+        if (this.format === 'flac') return this.tryDecodeFlacSegment();
+        if (this.compressedParser) return this.tryDecodeCompressedSegment(this.compressedParser);
         if (!this.wavHeader) return null;
 
         const segmentSize = 64 * 1024; // 64KB segments
-        const availableBytes = this.totalRawBytes - this.processedBytes;
+        const availableBytes = Math.min(this.totalRawBytes, this.audioDataEnd) - this.processedBytes;
         const alignedSize = WavUtils.getSampleAlignedChunkSize(this.wavHeader, segmentSize, availableBytes);
 
         if (alignedSize <= 0) return null;
 
-        console.log(`\n--- Decoding segment ---`);
-        console.log(`Available: ${availableBytes} bytes, aligned size: ${alignedSize} bytes`);
+        log.debug(`\n--- Decoding segment ---`);
+        log.debug(`Available: ${availableBytes} bytes, aligned size: ${alignedSize} bytes`);
 
         const rawSegment = this.extractAlignedData(alignedSize);
-        const wavFile = this.createWavFile(rawSegment);
 
         try {
-            const buffer = await this.decodeWithTimeout(wavFile);
-            console.log(`✓ Decoded: ${buffer.duration.toFixed(3)}s, ${buffer.numberOfChannels}ch`);
+            const buffer = this.pcmDecoder.canDecode(this.wavHeader)
+                ? await this.decodePcm(rawSegment, this.wavHeader)
+                : await this.decodeWithTimeout(this.createWavFile(rawSegment));
+            log.debug(`✓ Decoded: ${buffer.duration.toFixed(3)}s, ${buffer.numberOfChannels}ch`);
+            return { buffer, duration: buffer.duration };
+        } catch (error) {
+            log.error('Failed to decode segment:', error);
+            this.reportDecodeError(error, 'WAV');
+            return null;
+        }
+    }
+
+    /**
+     * Decode as many complete FLAC frames as are available (up to one segment)
+     */
+    private tryDecodeFlacSegment(): DecodedChunkResult | null {
+        if (!this.flacMetadata) return null;
+
+        const segmentSize = 64 * 1024;
+        const minSegmentSize = 16 * 1024;
+        const availableBytes = this.totalRawBytes - this.processedBytes;
+        const isFinal = this.isComplete;
+
+        if (availableBytes <= 0 || (!isFinal && availableBytes < minSegmentSize)) return null;
+
+        log.debug(`\n--- Decoding FLAC segment ---`);
+        log.debug(`Available: ${availableBytes} bytes${isFinal ? ' (final)' : ''}`);
+
+        try {
+            const data = this.copyRawData(this.processedBytes, availableBytes);
+            const result = FlacDecoder.decodeFrames(data, this.flacMetadata.streamInfo, isFinal, isFinal ? Infinity : segmentSize);
+            this.processedBytes += result.bytesConsumed;
+
+            if (result.frames === 0) return null;
+
+            if (this.streamStartTime === null && result.firstSampleNumber !== null) {
+                this.streamStartTime = result.firstSampleNumber / result.sampleRate;
+            }
+
+            const buffer = this.contextManager.createAudioBuffer(result.channels, result.sampleRate);
+            log.debug(`✓ Decoded FLAC: ${buffer.duration.toFixed(3)}s, ${buffer.numberOfChannels}ch from ${result.bytesConsumed} bytes`);
             return { buffer, duration: buffer.duration };
         } catch (error) {
-            console.error('Failed to decode segment:', error);
+            log.error('Failed to decode FLAC segment:', error);
+            this.reportDecodeError(error, 'FLAC');
             return null;
         }
     }
 
+    /**
+     * Decode the next group of complete Opus pages / MP3 frames
+     */
+    private async tryDecodeCompressedSegment(parser: CompressedStreamParser): Promise<DecodedChunkResult | null> {
+        if (parser.headerLength === null) return null;
+
+        const segmentSize = 64 * 1024;
+        const minSegmentSize = 16 * 1024;
+        const availableBytes = this.totalRawBytes - this.processedBytes;
+        const isFinal = this.isComplete;
+
+        if (availableBytes <= 0 || (!isFinal && availableBytes < minSegmentSize)) return null;
+
+        const data = this.copyRawData(this.processedBytes, availableBytes);
+        const streamOffset = this.streamBaseOffset + this.processedBytes - this.audioDataStart;
+        const segment = parser.nextSegment(data, streamOffset, isFinal, isFinal ? Infinity : segmentSize);
+        if (!segment) return null;
+
+        log.debug(`\n--- Decoding ${parser.format} segment ---`);
+        log.debug(`Available: ${availableBytes} bytes, frame-aligned size: ${segment.bytesConsumed} bytes`);
+        this.processedBytes += segment.bytesConsumed;
+
+        try {
+            const decoded = await this.decodeWithTimeout(segment.data);
+            const buffer = this.trimPreRoll(decoded, segment.duration);
+
+            if (this.streamStartTime === null && segment.startTime !== null) {
+                this.streamStartTime = segment.startTime;
+            }
+
+            log.debug(`✓ Decoded: ${buffer.duration.toFixed(3)}s, ${buffer.numberOfChannels}ch`);
+            return { buffer, duration: buffer.duration };
+        } catch (error) {
+            log.error(`Failed to decode ${parser.format} segment:`, error);
+            this.reportDecodeError(error, parser.format);
+            return null;
+        }
+    }
+
+    /**
+     * Drop decoded pre-roll so the buffer holds only the segment's own audio
+     */
+    private trimPreRoll(buffer: AudioBuffer, duration: number | null): AudioBuffer {
+        if (duration === null) return buffer;
+
+        const excessFrames = Math.round((buffer.duration - duration) * buffer.sampleRate);
+        if (excessFrames <= 0 || excessFrames >= buffer.length) return buffer;
+
+        return this.contextManager.sliceAudioBuffer(buffer, excessFrames);
+    }
+
     /**
      * Extract aligned data from raw chunks
      */
     private extractAlignedData(size: number): Uint8Array {
+        const extracted = this.copyRawData(this.processedBytes, size);
+        this.processedBytes += size;
+        return extracted;
+    }
+
+    /**
+     * Copy size bytes starting at a raw stream position without consuming them
+     */
+    private copyRawData(start: number, size: number): Uint8Array {
         const extracted = new Uint8Array(size);
         let extractedOffset = 0;
         let remaining = size;
-        let streamPosition = this.processedBytes;
-        let currentPos = 0;
+        let streamPosition = start;
+        let currentPos = this.releasedBytes;
 
         for (const chunk of this.rawChunks) {
             if (remaining <= 0) break;
@@ -145,7 +429,6 @@ export class StreamDecoder {
             currentPos += chunk.length;
         }
 
-        this.processedBytes += size;
         return extracted;
     }
 
@@ -160,6 +443,14 @@ export class StreamDecoder {
         return wavFile;
     }
 
+    /**
+     * Convert raw PCM in the decode worker and build the AudioBuffer from the samples
+     */
+    private async decodePcm(rawSegment: Uint8Array, header: WavHeader): Promise<AudioBuffer> {
+        const result = await this.raceTimeout(this.pcmDecoder.decode(rawSegment, header));
+        return this.contextManager.createAudioBuffer(result.channels, header.sampleRate);
+    }
+
     /**
      * Decode with timeout to prevent hanging
      */
@@ -167,22 +458,40 @@ export class StreamDecoder {
         const buffer = new ArrayBuffer(wavData.length);
         new Uint8Array(buffer).set(wavData);
 
-        const decodePromise = this.contextManager.decodeAudioData(buffer);
+        return this.raceTimeout(this.contextManager.decodeAudioData(buffer), timeoutMs);
+    }
+
+    private reportDecodeError(error: unknown, format: string): void {
+        const code = getErrorCode(error, 'DECODE_FAILED');
+        this.onDecodeError?.(new AudioError(code, `Failed to decode ${format} segment: ${(error as Error).message}`));
+    }
+
+    private raceTimeout<T>(promise: Promise<T>, timeoutMs: number = 5000): Promise<T> {
+        let timeoutId = 0;
         const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error('Decode timeout')), timeoutMs);
+            timeoutId = window.setTimeout(() => reject(new AudioError('DECODE_TIMEOUT', 'Decode timeout')), timeoutMs);
         });
 
-        return Promise.race([decodePromise, timeoutPromise]);
+        return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timeoutId));
     }
 
     /**
      * Get calculated duration from WAV header
      */
     getEstimatedDuration(): number | null {
+        if (this.format === 'flac') {
+            const info = this.flacMetadata?.streamInfo;
+            return info && info.totalSamples > 0 ? info.totalSamples / info.sampleRate : null;
+        }
+        if (this.compressedParser) {
+            return this.compressedParser.getDuration(this.compressedAudioLength);
+        }
+
         if (!this.wavHeader || this.wavHeader.byteRate <= 0) return null;
 
-        const audioDataSize = this.wavHeader.dataSize > 0
-            ? this.wavHeader.dataSize
+        // An offset stream's header only describes the remaining audio
+        const audioDataSize = this.trackDataSize > 0 ? this.trackDataSize
+            : this.wavHeader.dataSize > 0 ? this.wavHeader.dataSize
             : (this.totalStreamLength - this.wavHeader.headerSize);
 
         return audioDataSize / this.wavHeader.byteRate;
@@ -192,14 +501,21 @@ export class StreamDecoder {
      * Check if WAV header has been parsed
      */
     get headerParsed(): boolean {
-        return this.wavHeader !== null;
+        return this.wavHeader !== null || this.flacMetadata !== null || this.compressedParser?.headerLength != null;
+    }
+
+    /**
+     * Stream bytes not yet received
+     */
+    get remainingBytes(): number {
+        return Math.max(0, this.totalStreamLength - this.headerBytesStripped - this.totalRawBytes);
     }
 
     /**
      * Check if all stream data has been received
      */
     get isComplete(): boolean {
-        return this.totalStreamLength > 0 && this.totalRawBytes >= (this.totalStreamLength - (this.wavHeader?.headerSize ?? 0));
+        return this.totalStreamLength > 0 && this.totalRawBytes >= (this.totalStreamLength - this.headerBytesStripped);
     }
 
     /**
@@ -210,10 +526,40 @@ export class StreamDecoder {
     }
 
     /**
-     * Calculate byte offset from a time position (in seconds)
-     * Returns block-aligned byte offset for clean audio
+     * WAV metadata chunks (LIST/INFO, bext, cue/adtl, iXML); null for other formats
+     */
+    getWavMetadata(): WavMetadata | null {
+        return this.wavMetadata;
+    }
+
+    /**
+     * Detected stream format, null until the first chunk arrives
+     */
+    getFormat(): StreamFormat | null {
+        return this.format;
+    }
+
+    /**
+     * Track time of the first decoded frame. Compressed offset streams begin at a frame
+     * boundary, which may precede the requested seek position. Null for WAV and MP3.
+     */
+    getStreamStartTime(): number | null {
+        return this.streamStartTime;
+    }
+
+    /**
+     * Calculate the ?offset= for a time position (in seconds). WAV offsets point into the
+     * audio data and are block-aligned (the server synthesizes a header); FLAC, Opus and MP3
+     * offsets are file positions past the stream headers (the server returns the bare frames)
      */
     calculateByteOffset(positionSeconds: number): number {
+        if (this.format === 'flac') {
+            return this.flacMetadata ? this.flacMetadata.metadataLength + this.calculateFlacByteOffset(positionSeconds) : 0;
+        }
+        if (this.compressedParser) {
+            const headerLength = this.compressedParser.headerLength ?? 0;
+            return headerLength + this.compressedParser.calculateByteOffset(positionSeconds, this.compressedAudioLength);
+        }
         if (!this.wavHeader || this.wavHeader.byteRate <= 0) return 0;
 
         const rawOffset = Math.floor(positionSeconds * this.wavHeader.byteRate);
@@ -221,16 +567,64 @@ export class StreamDecoder {
         return Math.floor(rawOffset / this.wavHeader.blockAlign) * this.wavHeader.blockAlign;
     }
 
+    /**
+     * FLAC byte offset (relative to the first frame) from the SEEKTABLE; without a usable
+     * seek point, estimated from the average compressed size - FlacDecoder then syncs to
+     * the next frame header in the offset stream.
+     */
+    private calculateFlacByteOffset(positionSeconds: number): number {
+        if (!this.flacMetadata) return 0;
+
+        const { streamInfo, seekTable, metadataLength } = this.flacMetadata;
+        const targetSample = Math.floor(positionSeconds * streamInfo.sampleRate);
+
+        // Seek points are sorted by sample number
+        let seekPoint = null;
+        for (const point of seekTable) {
+            if (point.sampleNumber > targetSample) break;
+            seekPoint = point;
+        }
+        if (seekPoint && seekPoint.offset > 0) {
+            return seekPoint.offset;
+        }
+
+        if (streamInfo.totalSamples <= 0) return 0;
+        const bytesPerSample = (this.fullStreamLength - metadataLength) / streamInfo.totalSamples;
+        return Math.floor(targetSample * bytesPerSample);
+    }
+
+    /**
+     * Opus/MP3 audio bytes in the full track, excluding stream headers
+     */
+    private get compressedAudioLength(): number {
+        return this.fullStreamLength - (this.compressedParser?.headerLength ?? 0);
+    }
+
     /**
      * Reset decoder state
      */
     reset(): void {
+        this.format = null;
         this.wavHeader = null;
+        this.wavMetadata = null;
+        this.trailingMetadataParsed = false;
+        this.flacMetadata = null;
+        this.compressedParser = null;
         this.rawChunks = [];
+        this.releasedBytes = 0;
         this.totalRawBytes = 0;
         this.processedBytes = 0;
+        this.headerBytesStripped = 0;
         this.isFirstChunk = true;
         this.totalStreamLength = 0;
+        this.fullStreamLength = 0;
+        this.trackDataSize = 0;
+        this.trackWavHeader = null;
+        this.streamStartTime = null;
+        this.isOffsetStream = false;
+        this.audioDataStart = 0;
+        this.streamBaseOffset = 0;
+        this.matchContextSampleRate = true;
     }
 
     /**
@@ -240,12 +634,20 @@ export class StreamDecoder {
     reinitializeForOffset(totalStreamLength: number): void {
         // Reset data state but we'll get a fresh header from the offset stream
         this.rawChunks = [];
+        this.releasedBytes = 0;
         this.totalRawBytes = 0;
         this.processedBytes = 0;
+        this.headerBytesStripped = 0;
         this.isFirstChunk = true;
         this.totalStreamLength = totalStreamLength;
-        // wavHeader will be reparsed from the new stream (server sends fresh header)
+        this.streamStartTime = null;
+        this.isOffsetStream = true;
+        // Offset streams run to the end of the track, which locates them within the audio data
+        this.audioDataStart = 0;
+        this.streamBaseOffset = Math.max(0, this.compressedAudioLength - totalStreamLength);
+        // wavHeader will be reparsed from the new stream (server sends fresh header, merged with
+        // trackWavHeader); FLAC metadata and compressed stream headers are kept since offset streams carry bare frames
         this.wavHeader = null;
-        console.log(`StreamDecoder reinitialized for offset: expecting ${totalStreamLength} bytes`);
+        log.debug(`StreamDecoder reinitialized for offset: expecting ${totalStreamLength} bytes`);
     }
 }
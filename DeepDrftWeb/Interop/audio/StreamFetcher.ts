@@ -0,0 +1,168 @@
+/**
+ * StreamFetcher - Pulls a track stream over fetch for the player to decode.
+ *
+ * Single Responsibility: Read an HTTP response body with a ReadableStream reader and hand
+ * it to a consumer in bounded chunks. The next read waits for the consumer to finish and
+ * for its demand check, so a slow decoder or a full buffer holds the download back.
+ * Transfer failures and stalls surface as StreamFetchError; retrying is up to the caller.
+ */
+
+export type StreamFetchErrorKind = 'network' | 'http' | 'stalled';
+
+export class StreamFetchError extends Error {
+    readonly kind: StreamFetchErrorKind;
+    readonly status: number | null;
+
+    constructor(kind: StreamFetchErrorKind, message: string, status: number | null = null) {
+        super(message);
+        this.kind = kind;
+        this.status = status;
+    }
+
+    /**
+     * Dropped connections, stalls and server-side HTTP errors may succeed on retry
+     */
+    get retryable(): boolean {
+        if (this.kind !== 'http') return true;
+        return this.status === 408 || this.status === 429 || (this.status !== null && this.status >= 500);
+    }
+}
+
+export interface StreamConsumer {
+    consume(chunk: Uint8Array): Promise<void>;
+    waitForDemand(): Promise<void>;      // Resolves once the consumer wants more bytes
+}
+
+export class StreamFetcher {
+    private abortController: AbortController | null = null;
+    private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    private pumping: Promise<void> | null = null;
+    private chunkSize: number;
+    private stallTimeoutMs: number;
+
+    constructor(chunkSize: number = 64 * 1024, stallTimeoutMs: number = 10000) {
+        this.chunkSize = chunkSize;
+        this.stallTimeoutMs = stallTimeoutMs;
+    }
+
+    /**
+     * Request a URL, aborting any open stream; returns the response's Content-Length (0 if unknown)
+     */
+    async open(url: string): Promise<number> {
+        await this.close();
+
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
+        // Headers must arrive within the stall timeout too
+        let stalled = false;
+        const stallTimer = setTimeout(() => {
+            stalled = true;
+            abortController.abort();
+        }, this.stallTimeoutMs);
+
+        let response: Response;
+        try {
+            response = await fetch(url, { signal: abortController.signal });
+        } catch (error) {
+            if (stalled) throw new StreamFetchError('stalled', `No response from ${url} within ${this.stallTimeoutMs}ms`);
+            if (this.abortController !== abortController) throw error;
+            throw new StreamFetchError('network', (error as Error).message);
+        } finally {
+            clearTimeout(stallTimer);
+        }
+
+        if (!response.ok || !response.body) {
+            throw new StreamFetchError('http', `HTTP ${response.status} fetching ${url}`, response.status);
+        }
+        if (this.abortController !== abortController) {
+            throw new DOMException('Stream superseded', 'AbortError');
+        }
+
+        this.reader = response.body.getReader();
+        return Number(response.headers.get('Content-Length') ?? 0);
+    }
+
+    /**
+     * Read the open stream to its end, one consumer call per chunk.
+     * Resolves early without error when the stream is closed.
+     */
+    pump(consumer: StreamConsumer): Promise<void> {
+        const reader = this.reader;
+        if (!reader) {
+            return Promise.reject(new Error('No open stream'));
+        }
+
+        this.pumping = this.readAll(reader, consumer);
+        return this.pumping;
+    }
+
+    /**
+     * Abort the open stream and wait for the chunk being consumed to finish
+     */
+    async close(): Promise<void> {
+        this.abortController?.abort();
+        this.abortController = null;
+        this.reader = null;
+
+        const pumping = this.pumping;
+        this.pumping = null;
+        await pumping?.catch(() => undefined);
+    }
+
+    isOpen(): boolean {
+        return this.reader !== null;
+    }
+
+    setChunkSize(chunkSize: number): void {
+        this.chunkSize = chunkSize;
+    }
+
+    setStallTimeout(stallTimeoutMs: number): void {
+        this.stallTimeoutMs = stallTimeoutMs;
+    }
+
+    // ==================== Private Methods ====================
+
+    private async readAll(reader: ReadableStreamDefaultReader<Uint8Array>, consumer: StreamConsumer): Promise<void> {
+        try {
+            while (this.reader === reader) {
+                await consumer.waitForDemand();
+                if (this.reader !== reader) return;
+
+                const { done, value } = await this.readWithStallTimeout(reader);
+                if (done || this.reader !== reader) break;
+
+                // Network chunks vary in size; split large ones so decoding stays incremental
+                for (let offset = 0; offset < value.length && this.reader === reader; offset += this.chunkSize) {
+                    await consumer.consume(value.subarray(offset, offset + this.chunkSize));
+                }
+            }
+        } catch (error) {
+            if (this.reader !== reader) return;     // Aborted by close()
+            throw error;
+        } finally {
+            if (this.reader === reader) {
+                this.abortController?.abort();
+                this.reader = null;
+                this.abortController = null;
+            }
+        }
+    }
+
+    /**
+     * Next read, failing with a 'stalled' error when no bytes arrive within the stall timeout
+     */
+    private readWithStallTimeout(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<ReadableStreamReadResult<Uint8Array>> {
+        return new Promise((resolve, reject) => {
+            const stallTimer = setTimeout(() => {
+                reject(new StreamFetchError('stalled', `No data for ${this.stallTimeoutMs}ms`));
+                this.abortController?.abort();
+            }, this.stallTimeoutMs);
+
+            reader.read()
+                .then(resolve, (error: Error) => reject(new StreamFetchError('network', error.message)))
+                .finally(() => clearTimeout(stallTimer));
+        });
+    }
+}
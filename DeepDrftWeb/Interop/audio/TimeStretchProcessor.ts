@@ -0,0 +1,298 @@
+/**
+ * TimeStretchProcessor - AudioWorkletProcessor for TimeStretcher.
+ *
+ * Single Responsibility: Undo the pitch change of varispeed playback. The sped-up input is
+ * resampled back to its original pitch, which stretches it by the rate; WSOLA (waveform
+ * similarity overlap-add) then brings it back to real time by taking each output frame from
+ * near its nominal position, shifted to line up with the continuation of the previous frame.
+ * Audio passes through unchanged while pitch preservation is off or the rate is 1.
+ */
+
+import {
+    TIME_STRETCH_PROCESSOR_NAME,
+    TimeStretchProcessorCommand,
+    TimeStretchProcessorOptions
+} from './WorkletProtocol.js';
+
+// AudioWorkletGlobalScope declarations - not part of the DOM lib
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+declare const sampleRate: number;
+
+const RENDER_QUANTUM = 128;
+const MIN_RATE = 0.25;
+const MAX_RATE = 4;
+
+interface ChannelState {
+    history: Float32Array;      // Last three input samples, ahead of the next block
+    stretched: Float32Array;    // Input resampled to its original pitch
+    overlap: Float32Array;      // Overlap-add accumulator, one frame long
+    output: Float32Array;       // Finished audio waiting to be rendered
+}
+
+/**
+ * Catmull-Rom interpolation between x1 and x2
+ */
+function interpolate(x0: number, x1: number, x2: number, x3: number, t: number): number {
+    const c1 = 0.5 * (x2 - x0);
+    const c2 = x0 - 2.5 * x1 + 2 * x2 - 0.5 * x3;
+    const c3 = 0.5 * (x3 - x0) + 1.5 * (x1 - x2);
+    return ((c3 * t + c2) * t + c1) * t + x1;
+}
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+    private rate: number;
+    private preservePitch: boolean;
+    private running: boolean = false;
+
+    private readonly frameLength: number;
+    private readonly hop: number;
+    private readonly tolerance: number;
+    private readonly window: Float32Array;
+    private readonly stretchedCapacity: number;
+    private readonly outputCapacity: number;
+    private readonly silence: Float32Array = new Float32Array(RENDER_QUANTUM);
+
+    private channels: ChannelState[] = [];
+    private mix: Float32Array;                  // Channel sum of stretched, for the similarity search
+    private stretchedLength: number = 0;
+    private outputLength: number = 0;
+    private resamplePosition: number = 1;       // Read position in history + next input block
+    private analysisPosition: number = 0;       // Nominal start of the next frame in stretched
+    private previousFrame: number | null = null;    // Start of the last frame taken
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const processorOptions = options.processorOptions as TimeStretchProcessorOptions;
+        this.rate = this.clampRate(processorOptions.rate);
+        this.preservePitch = processorOptions.preservePitch;
+
+        this.hop = Math.round(processorOptions.frameSeconds * sampleRate / 2);
+        this.frameLength = this.hop * 2;
+        this.tolerance = Math.round(processorOptions.toleranceSeconds * sampleRate);
+        this.stretchedCapacity = this.frameLength * 8;
+        this.outputCapacity = Math.ceil((this.tolerance + this.frameLength) / MIN_RATE) + this.frameLength * 2 + RENDER_QUANTUM * 2;
+        this.mix = new Float32Array(this.stretchedCapacity);
+
+        // Periodic Hann window: overlapping by half, the windows sum to exactly 1
+        this.window = new Float32Array(this.frameLength);
+        for (let i = 0; i < this.frameLength; i++) {
+            this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frameLength);
+        }
+
+        this.port.onmessage = (event: MessageEvent<TimeStretchProcessorCommand>) => this.handleCommand(event.data);
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        const input = inputs[0];
+        const output = outputs[0];
+
+        if (!this.preservePitch || this.rate === 1) {
+            this.running = false;
+            for (let channel = 0; channel < input.length && channel < output.length; channel++) {
+                output[channel].set(input[channel]);
+            }
+            return true;
+        }
+
+        // Without an active input keep stretching silence, so stale audio drains out
+        const channelCount = input.length > 0 ? input.length : this.channels.length;
+        if (channelCount === 0) {
+            return true;
+        }
+        if (!this.running || this.channels.length !== channelCount) {
+            this.reset(channelCount);
+        }
+
+        this.resample(input, output[0].length);
+        this.synthesize();
+        this.render(output, output[0].length);
+        return true;
+    }
+
+    /**
+     * Read the block at 1/rate speed, restoring the pitch the varispeed engine shifted
+     */
+    private resample(input: Float32Array[], frames: number): void {
+        const step = 1 / this.rate;
+        if (this.stretchedLength + Math.ceil((frames + 1) / step) > this.stretchedCapacity) {
+            this.running = false;   // Cannot happen at supported rates; start over rather than overrun
+            return;
+        }
+
+        let position = this.resamplePosition;
+        let written = this.stretchedLength;
+        for (let channel = 0; channel < this.channels.length; channel++) {
+            const state = this.channels[channel];
+            const block = input[channel] ?? this.silence;
+            const history = state.history;
+            // Index 0-2 is the history, 3 onwards the block
+            const sample = (index: number) => index < 3 ? history[index] : block[index - 3];
+
+            position = this.resamplePosition;
+            written = this.stretchedLength;
+            while (Math.floor(position) <= frames) {
+                const index = Math.floor(position);
+                const value = interpolate(sample(index - 1), sample(index), sample(index + 1), sample(index + 2), position - index);
+                state.stretched[written] = value;
+                this.mix[written] = channel === 0 ? value : this.mix[written] + value;
+                written++;
+                position += step;
+            }
+
+            const h0 = sample(frames);
+            const h1 = sample(frames + 1);
+            const h2 = sample(frames + 2);
+            history[0] = h0;
+            history[1] = h1;
+            history[2] = h2;
+        }
+
+        this.stretchedLength = written;
+        this.resamplePosition = position - frames;
+    }
+
+    /**
+     * Overlap-add every frame the stretched audio can supply, including its search range
+     */
+    private synthesize(): void {
+        while (true) {
+            const nominal = Math.round(this.analysisPosition);
+            if (nominal + this.tolerance + this.frameLength > this.stretchedLength) break;
+            if (this.outputLength + this.hop > this.outputCapacity) break;
+
+            const start = this.previousFrame === null ? nominal : this.findBestFrame(nominal, this.previousFrame + this.hop);
+            for (const state of this.channels) {
+                const overlap = state.overlap;
+                for (let i = 0; i < this.frameLength; i++) {
+                    overlap[i] += this.window[i] * state.stretched[start + i];
+                }
+                state.output.set(overlap.subarray(0, this.hop), this.outputLength);
+                overlap.copyWithin(0, this.hop);
+                overlap.fill(0, this.frameLength - this.hop);
+            }
+
+            this.outputLength += this.hop;
+            this.previousFrame = start;
+            this.analysisPosition += this.hop * this.rate;
+        }
+
+        this.discardStretched();
+    }
+
+    /**
+     * Frame start within the tolerance of nominal whose first half best matches the natural
+     * continuation of the previous frame (normalized cross-correlation on the channel sum)
+     */
+    private findBestFrame(nominal: number, continuation: number): number {
+        let best = nominal;
+        let bestScore = -Infinity;
+
+        // Coarse search on every second offset, then the neighbours of the winner
+        for (let delta = -this.tolerance; delta <= this.tolerance; delta += 2) {
+            const score = this.similarity(continuation, nominal + delta);
+            if (score > bestScore) {
+                bestScore = score;
+                best = nominal + delta;
+            }
+        }
+        const coarse = best;
+        for (const candidate of [coarse - 1, coarse + 1]) {
+            if (candidate < nominal - this.tolerance || candidate > nominal + this.tolerance) continue;
+            const score = this.similarity(continuation, candidate);
+            if (score > bestScore) {
+                bestScore = score;
+                best = candidate;
+            }
+        }
+        return best;
+    }
+
+    private similarity(reference: number, candidate: number): number {
+        const mix = this.mix;
+        let correlation = 0;
+        let energy = 0;
+        for (let i = 0; i < this.hop; i += 2) {
+            const value = mix[candidate + i];
+            correlation += mix[reference + i] * value;
+            energy += value * value;
+        }
+        return correlation / Math.sqrt(energy + 1e-9);
+    }
+
+    /**
+     * Drop stretched audio no later frame or search can reach
+     */
+    private discardStretched(): void {
+        const searchStart = Math.round(this.analysisPosition) - this.tolerance;
+        const keepFrom = this.previousFrame === null ? searchStart : Math.min(searchStart, this.previousFrame + this.hop);
+        if (keepFrom <= 0) return;
+
+        for (const state of this.channels) {
+            state.stretched.copyWithin(0, keepFrom, this.stretchedLength);
+        }
+        this.mix.copyWithin(0, keepFrom, this.stretchedLength);
+        this.stretchedLength -= keepFrom;
+        this.analysisPosition -= keepFrom;
+        if (this.previousFrame !== null) {
+            this.previousFrame -= keepFrom;
+        }
+    }
+
+    private render(output: Float32Array[], frames: number): void {
+        const available = Math.min(frames, this.outputLength);
+        for (let channel = 0; channel < output.length; channel++) {
+            const state = this.channels[Math.min(channel, this.channels.length - 1)];
+            output[channel].set(state.output.subarray(0, available));
+        }
+        for (const state of this.channels) {
+            state.output.copyWithin(0, available, this.outputLength);
+        }
+        this.outputLength -= available;
+    }
+
+    /**
+     * Start from silence: the stretched audio is padded so the first searches stay in range,
+     * the output with enough latency that frames are ready before they are due
+     */
+    private reset(channelCount: number): void {
+        this.channels = [];
+        for (let channel = 0; channel < channelCount; channel++) {
+            this.channels.push({
+                history: new Float32Array(3),
+                stretched: new Float32Array(this.stretchedCapacity),
+                overlap: new Float32Array(this.frameLength),
+                output: new Float32Array(this.outputCapacity)
+            });
+        }
+        this.mix.fill(0);
+        this.stretchedLength = this.tolerance;
+        this.analysisPosition = this.tolerance;
+        this.previousFrame = null;
+        this.resamplePosition = 1;
+        this.outputLength = Math.ceil((this.tolerance + this.frameLength) / this.rate) + 4;
+        this.running = true;
+    }
+
+    private clampRate(rate: number): number {
+        return Number.isFinite(rate) ? Math.max(MIN_RATE, Math.min(MAX_RATE, rate)) : 1;
+    }
+
+    private handleCommand(command: TimeStretchProcessorCommand): void {
+        switch (command.type) {
+            case 'configure':
+                this.rate = this.clampRate(command.rate);
+                this.preservePitch = command.preservePitch;
+                this.running = false;
+                break;
+        }
+    }
+}
+
+registerProcessor(TIME_STRETCH_PROCESSOR_NAME, TimeStretchProcessor);
@@ -0,0 +1,77 @@
+/**
+ * TimeStretcher - Keeps the pitch of sped-up or slowed-down playback.
+ *
+ * Single Responsibility: Own the AudioWorkletNode running TimeStretchProcessor after the
+ * transport gain. The engines change speed by resampling, which moves the pitch with the
+ * rate; with pitch preservation on, the processor moves it back at the cost of a frame of
+ * latency. The processor module must be loaded into the context before build(); without
+ * AudioWorklet the pitch follows the rate.
+ */
+
+import {
+    TIME_STRETCH_PROCESSOR_MODULE,
+    TIME_STRETCH_PROCESSOR_NAME,
+    TimeStretchProcessorCommand,
+    TimeStretchProcessorOptions
+} from './WorkletProtocol.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('TimeStretcher');
+
+export class TimeStretcher {
+    private static readonly frameSeconds = 0.04;
+    private static readonly toleranceSeconds = 0.01;
+
+    private node: AudioWorkletNode | null = null;
+    private rate: number = 1;
+    private preservePitch: boolean = true;
+
+    static get moduleUrl(): string {
+        return new URL(`./${TIME_STRETCH_PROCESSOR_MODULE}`, import.meta.url).href;
+    }
+
+    build(context: AudioContext): AudioNode {
+        try {
+            const processorOptions: TimeStretchProcessorOptions = {
+                rate: this.rate,
+                preservePitch: this.preservePitch,
+                frameSeconds: TimeStretcher.frameSeconds,
+                toleranceSeconds: TimeStretcher.toleranceSeconds
+            };
+            this.node = new AudioWorkletNode(context, TIME_STRETCH_PROCESSOR_NAME, { processorOptions });
+            return this.node;
+        } catch (error) {
+            // Module not loaded (no AudioWorklet, or addModule failed)
+            log.warn('Time stretch unavailable, pitch will follow the playback rate', error);
+            this.node = null;
+            return context.createGain();
+        }
+    }
+
+    /**
+     * True when the processor runs, so preservePitch takes effect
+     */
+    isAvailable(): boolean {
+        return this.node !== null;
+    }
+
+    /**
+     * Delay the processor adds while stretching; 0 while it passes audio through
+     */
+    getLatencySeconds(): number {
+        if (!this.node || !this.preservePitch || this.rate === 1) return 0;
+        return (TimeStretcher.frameSeconds + TimeStretcher.toleranceSeconds) / this.rate;
+    }
+
+    /**
+     * Rate the engines play at and whether to undo its pitch change; restarts the processor
+     */
+    configure(rate: number, preservePitch: boolean): void {
+        this.rate = rate;
+        this.preservePitch = preservePitch;
+        if (!this.node) return;
+
+        const command: TimeStretchProcessorCommand = { type: 'configure', rate, preservePitch };
+        this.node.port.postMessage(command);
+    }
+}
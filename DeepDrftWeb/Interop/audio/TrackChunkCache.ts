@@ -0,0 +1,301 @@
+/**
+ * TrackChunkCache - Persistent cache of raw track stream bytes in IndexedDB.
+ *
+ * Single Responsibility: Store stream chunks keyed by track EntryKey and file byte range,
+ * report which ranges of a track are cached, and keep the total size under an LRU cap.
+ * Pinned tracks (offline downloads) are never evicted by the cap.
+ */
+
+import { createLogger } from './Logger.js';
+
+const log = createLogger('TrackChunkCache');
+
+export interface CachedRange {
+    start: number;      // File byte offset, inclusive
+    end: number;        // File byte offset, exclusive
+}
+
+export interface CachedTrack {
+    entryKey: string;
+    totalLength: number;
+    cachedBytes: number;
+    complete: boolean;
+    pinned: boolean;
+    lastAccess: number;
+}
+
+export interface CachedTrackRanges {
+    totalLength: number;
+    ranges: CachedRange[];
+}
+
+interface TrackRecord {
+    entryKey: string;
+    totalLength: number;
+    cachedBytes: number;
+    lastAccess: number;
+    pinned: boolean;
+}
+
+interface ChunkRecord {
+    entryKey: string;
+    start: number;
+    end: number;
+    data: Uint8Array;
+}
+
+type ChunkKey = [string, number, number];
+
+export class TrackChunkCache {
+    private static readonly dbName = 'DeepDrftAudioCache';
+    private static readonly dbVersion = 1;
+    private static readonly chunkStore = 'chunks';
+    private static readonly trackStore = 'tracks';
+
+    private db: Promise<IDBDatabase> | null = null;
+    private maxBytes: number;
+
+    constructor(maxBytes: number = 1024 * 1024 * 1024) {
+        this.maxBytes = maxBytes;
+    }
+
+    static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    // ==================== Chunks ====================
+
+    /**
+     * Store stream bytes at a file offset, then evict least recently used tracks over the cap.
+     * A different totalLength means the track changed on the server; its old chunks are dropped.
+     */
+    async put(entryKey: string, start: number, data: Uint8Array, totalLength: number): Promise<void> {
+        if (data.length === 0) return;
+
+        const existing = await this.getTrack(entryKey);
+        if (existing && existing.totalLength !== totalLength) {
+            await this.evict(entryKey);
+        }
+
+        const db = await this.open();
+        const tx = db.transaction([TrackChunkCache.chunkStore, TrackChunkCache.trackStore], 'readwrite');
+        const chunks = tx.objectStore(TrackChunkCache.chunkStore);
+        const tracks = tx.objectStore(TrackChunkCache.trackStore);
+
+        // Chunks written after a seek can overlap earlier ones; only newly covered bytes count
+        const end = start + data.length;
+        const keys = await TrackChunkCache.request(chunks.getAllKeys(TrackChunkCache.trackRange(entryKey))) as ChunkKey[];
+        const covered = TrackChunkCache.coveredBytes(TrackChunkCache.mergeRanges(keys), start, end);
+        const chunk: ChunkRecord = { entryKey, start, end, data };
+        chunks.put(chunk);
+
+        const track: TrackRecord = await TrackChunkCache.request<TrackRecord | undefined>(tracks.get(entryKey))
+            ?? { entryKey, totalLength, cachedBytes: 0, lastAccess: 0, pinned: false };
+        track.cachedBytes += data.length - covered;
+        track.lastAccess = Date.now();
+        tracks.put(track);
+
+        await TrackChunkCache.complete(tx);
+        await this.enforceLimit(entryKey);
+    }
+
+    /**
+     * Cached bytes starting at a file offset, up to maxBytes; null when the offset is not cached
+     */
+    async read(entryKey: string, position: number, maxBytes: number): Promise<Uint8Array | null> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.chunkStore, 'readonly');
+        const range = IDBKeyRange.bound([entryKey, 0, 0], [entryKey, position, Infinity]);
+
+        // Last chunk starting at or before the position
+        const cursor = await TrackChunkCache.request(tx.objectStore(TrackChunkCache.chunkStore).openCursor(range, 'prev'));
+        const chunk = cursor?.value as ChunkRecord | undefined;
+        if (!chunk || chunk.end <= position) return null;
+
+        const offset = position - chunk.start;
+        return chunk.data.subarray(offset, offset + Math.min(maxBytes, chunk.end - position));
+    }
+
+    /**
+     * Merged cached ranges of a track; null when nothing is cached. Marks the track as used.
+     */
+    async getRanges(entryKey: string): Promise<CachedTrackRanges | null> {
+        const track = await this.getTrack(entryKey);
+        if (!track) return null;
+
+        const ranges = await this.readRanges(entryKey);
+        await this.touch(entryKey);
+        return { totalLength: track.totalLength, ranges };
+    }
+
+    // ==================== Tracks ====================
+
+    async listTracks(): Promise<CachedTrack[]> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.trackStore, 'readonly');
+        const records = await TrackChunkCache.request<TrackRecord[]>(tx.objectStore(TrackChunkCache.trackStore).getAll());
+
+        const tracks: CachedTrack[] = [];
+        for (const record of records) {
+            const ranges = await this.readRanges(record.entryKey);
+            tracks.push({
+                ...record,
+                complete: ranges.length === 1 && ranges[0].start === 0 && ranges[0].end >= record.totalLength
+            });
+        }
+        return tracks;
+    }
+
+    /**
+     * Pinned tracks are kept regardless of the size cap
+     */
+    async pin(entryKey: string, pinned: boolean): Promise<boolean> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.trackStore, 'readwrite');
+        const tracks = tx.objectStore(TrackChunkCache.trackStore);
+
+        const track = await TrackChunkCache.request<TrackRecord | undefined>(tracks.get(entryKey));
+        if (!track) return false;
+
+        track.pinned = pinned;
+        tracks.put(track);
+        await TrackChunkCache.complete(tx);
+
+        if (!pinned) {
+            await this.enforceLimit(null);
+        }
+        return true;
+    }
+
+    async evict(entryKey: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([TrackChunkCache.chunkStore, TrackChunkCache.trackStore], 'readwrite');
+        tx.objectStore(TrackChunkCache.chunkStore).delete(TrackChunkCache.trackRange(entryKey));
+        tx.objectStore(TrackChunkCache.trackStore).delete(entryKey);
+        await TrackChunkCache.complete(tx);
+        log.info(`🗄️ Evicted cached track ${entryKey}`);
+    }
+
+    async setMaxBytes(maxBytes: number): Promise<void> {
+        this.maxBytes = maxBytes;
+        await this.enforceLimit(null);
+    }
+
+    getMaxBytes(): number {
+        return this.maxBytes;
+    }
+
+    // ==================== Private Methods ====================
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(TrackChunkCache.dbName, TrackChunkCache.dbVersion);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    db.createObjectStore(TrackChunkCache.chunkStore, { keyPath: ['entryKey', 'start', 'end'] });
+                    db.createObjectStore(TrackChunkCache.trackStore, { keyPath: 'entryKey' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            this.db.catch(() => {
+                this.db = null;
+            });
+        }
+        return this.db;
+    }
+
+    private async getTrack(entryKey: string): Promise<TrackRecord | undefined> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.trackStore, 'readonly');
+        return TrackChunkCache.request<TrackRecord | undefined>(tx.objectStore(TrackChunkCache.trackStore).get(entryKey));
+    }
+
+    private async touch(entryKey: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.trackStore, 'readwrite');
+        const tracks = tx.objectStore(TrackChunkCache.trackStore);
+
+        const track = await TrackChunkCache.request<TrackRecord | undefined>(tracks.get(entryKey));
+        if (track) {
+            track.lastAccess = Date.now();
+            tracks.put(track);
+        }
+        await TrackChunkCache.complete(tx);
+    }
+
+    /**
+     * Merge chunk byte ranges from the keys alone, without loading chunk data
+     */
+    private async readRanges(entryKey: string): Promise<CachedRange[]> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.chunkStore, 'readonly');
+        const keys = await TrackChunkCache.request(tx.objectStore(TrackChunkCache.chunkStore).getAllKeys(TrackChunkCache.trackRange(entryKey))) as ChunkKey[];
+        return TrackChunkCache.mergeRanges(keys);
+    }
+
+    /**
+     * Evict least recently used unpinned tracks until the cache fits the cap.
+     * The track being written is kept.
+     */
+    private async enforceLimit(keepEntryKey: string | null): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(TrackChunkCache.trackStore, 'readonly');
+        const tracks = await TrackChunkCache.request<TrackRecord[]>(tx.objectStore(TrackChunkCache.trackStore).getAll());
+
+        let total = tracks.reduce((sum, track) => sum + track.cachedBytes, 0);
+        const candidates = tracks
+            .filter(track => !track.pinned && track.entryKey !== keepEntryKey)
+            .sort((a, b) => a.lastAccess - b.lastAccess);
+
+        for (const track of candidates) {
+            if (total <= this.maxBytes) break;
+            await this.evict(track.entryKey);
+            total -= track.cachedBytes;
+        }
+    }
+
+    private static trackRange(entryKey: string): IDBKeyRange {
+        return IDBKeyRange.bound([entryKey, 0, 0], [entryKey, Infinity, Infinity]);
+    }
+
+    /**
+     * Merge chunk keys, which the store returns ordered by start, into disjoint ranges
+     */
+    private static mergeRanges(keys: ChunkKey[]): CachedRange[] {
+        const ranges: CachedRange[] = [];
+        for (const [, start, end] of keys) {
+            const last = ranges[ranges.length - 1];
+            if (last && start <= last.end) {
+                last.end = Math.max(last.end, end);
+            } else {
+                ranges.push({ start, end });
+            }
+        }
+        return ranges;
+    }
+
+    private static coveredBytes(ranges: CachedRange[], start: number, end: number): number {
+        let covered = 0;
+        for (const range of ranges) {
+            covered += Math.max(0, Math.min(end, range.end) - Math.max(start, range.start));
+        }
+        return covered;
+    }
+
+    private static request<T>(request: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private static complete(tx: IDBTransaction): Promise<void> {
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * TrackGainStage - Per-track GainNodes between a playback engine and the master gain.
+ *
+ * Single Responsibility: Track-level gain automation (crossfades) and loudness normalization,
+ * both independent of user volume.
+ *
+ * Chain: engine → fade GainNode → normalization GainNode → master GainNode
+ */
+
+import { AudioContextManager } from './AudioContextManager.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('TrackGainStage');
+
+const FADE_CURVE_POINTS = 128;
+
+/**
+ * Equal-power gain curve: sin for fade-in, cos for fade-out, so summed power stays constant
+ */
+function createEqualPowerCurve(fadeIn: boolean): Float32Array<ArrayBuffer> {
+    const curve = new Float32Array(FADE_CURVE_POINTS);
+    for (let i = 0; i < FADE_CURVE_POINTS; i++) {
+        const t = i / (FADE_CURVE_POINTS - 1);
+        curve[i] = fadeIn ? Math.sin(t * Math.PI / 2) : Math.cos(t * Math.PI / 2);
+    }
+    return curve;
+}
+
+export class TrackGainStage {
+    private contextManager: AudioContextManager;
+    private gainNode: GainNode | null = null;
+    private normalizationNode: GainNode | null = null;
+    private normalizationGain: number = 1;     // Linear; reapplied when the nodes are recreated
+
+    constructor(contextManager: AudioContextManager) {
+        this.contextManager = contextManager;
+    }
+
+    /**
+     * Input node for the engine; recreated if the AudioContext was replaced
+     */
+    getNode(): GainNode {
+        if (!this.gainNode || this.gainNode.context !== this.contextManager.getContext()) {
+            this.normalizationNode = this.contextManager.createTrackGain();
+            this.normalizationNode.gain.value = this.normalizationGain;
+            this.gainNode = this.contextManager.getContext().createGain();
+            this.gainNode.connect(this.normalizationNode);
+        }
+        return this.gainNode;
+    }
+
+    /**
+     * Loudness normalization gain; ramps over rampSeconds (0 = immediately)
+     */
+    setNormalizationGain(gainDb: number, rampSeconds: number): void {
+        this.normalizationGain = Math.pow(10, gainDb / 20);
+        if (!this.normalizationNode) return;
+
+        const gain = this.normalizationNode.gain;
+        const now = this.contextManager.currentTime;
+        gain.cancelScheduledValues(now);
+        if (rampSeconds > 0) {
+            gain.setTargetAtTime(this.normalizationGain, now, rampSeconds / 3);
+        } else {
+            gain.setValueAtTime(this.normalizationGain, now);
+        }
+    }
+
+    /**
+     * Equal-power fade-in, silent until startTime
+     */
+    fadeIn(startTime: number, duration: number): void {
+        this.applyCurve(createEqualPowerCurve(true), startTime, duration);
+        log.debug(`🔀 Fade in: ${startTime.toFixed(3)}s over ${duration.toFixed(3)}s`);
+    }
+
+    /**
+     * Equal-power fade-out, full level until startTime
+     */
+    fadeOut(startTime: number, duration: number): void {
+        this.applyCurve(createEqualPowerCurve(false), startTime, duration);
+        log.debug(`🔀 Fade out: ${startTime.toFixed(3)}s over ${duration.toFixed(3)}s`);
+    }
+
+    /**
+     * Cancel any pending fade and restore full track level
+     */
+    cancelFade(): void {
+        if (!this.gainNode) return;
+        this.gainNode.gain.cancelScheduledValues(0);
+        this.gainNode.gain.setValueAtTime(1, this.contextManager.currentTime);
+    }
+
+    disconnect(): void {
+        this.gainNode?.disconnect();
+        this.normalizationNode?.disconnect();
+        this.gainNode = null;
+        this.normalizationNode = null;
+    }
+
+    private applyCurve(curve: Float32Array<ArrayBuffer>, startTime: number, duration: number): void {
+        const gain = this.getNode().gain;
+        gain.cancelScheduledValues(0);
+        gain.setValueAtTime(curve[0], this.contextManager.currentTime);
+        gain.setValueCurveAtTime(curve, startTime, duration);
+    }
+}
@@ -0,0 +1,230 @@
+/**
+ * TrackResponseCache - Cache Storage for /api/track responses, used by the Service Worker.
+ *
+ * Single Responsibility: Keep full track files from the content API in Cache Storage and
+ * answer track requests from them when the network is unavailable: the full file, a Range
+ * slice, or what the server's ?offset= endpoint would return (for WAV a synthesized header +
+ * block-aligned data, for other formats the file from the offset). Only the content API's origin and track IDs (GUIDs) are handled, so
+ * the site's own /api/track/page listing is never mistaken for a track file.
+ */
+
+import { WavUtils } from '../wavutils.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('TrackResponseCache');
+
+const TRACK_PATH = /\/api\/track\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+export class TrackResponseCache {
+    private static readonly cacheName = 'deepdrft-tracks-v1';
+    private static readonly headerProbeBytes = 1024 * 1024;    // WAV chunks before 'data' must fit here
+
+    private caches: CacheStorage;
+    private apiOrigin: string;
+    private maxTracks: number;
+
+    constructor(caches: CacheStorage, apiOrigin: string, maxTracks: number = 20) {
+        this.caches = caches;
+        this.apiOrigin = new URL(apiOrigin).origin;
+        this.maxTracks = maxTracks;
+    }
+
+    /**
+     * Track ID of a GET {apiOrigin}/api/track/{trackId} request, or null for any other request
+     */
+    getTrackId(request: Request): string | null {
+        if (request.method !== 'GET') return null;
+        const url = new URL(request.url);
+        if (url.origin !== this.apiOrigin) return null;
+        const match = TRACK_PATH.exec(url.pathname);
+        return match ? match[1] : null;
+    }
+
+    /**
+     * Answer a track request from the network, falling back to the cache when offline or
+     * when the request fails. Full-file responses are cached as they stream to the page;
+     * waitUntil keeps the worker alive until the cache write finishes.
+     */
+    async handle(request: Request, online: boolean, waitUntil: (promise: Promise<unknown>) => void): Promise<Response> {
+        if (!online) {
+            const cached = await this.match(request);
+            if (cached) return cached;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(request);
+        } catch (error) {
+            const cached = await this.match(request);
+            if (cached) return cached;
+            throw error;
+        }
+
+        if (response.status === 200 && response.body && TrackResponseCache.isFullFileRequest(request)) {
+            const [toPage, toCache] = response.body.tee();
+            const cacheResponse = new Response(toCache, { status: 200, headers: response.headers });
+            waitUntil(this.store(TrackResponseCache.fileKey(request), cacheResponse)
+                .catch(error => log.warn('⚠️ Failed to cache track response:', error)));
+            return new Response(toPage, { status: response.status, statusText: response.statusText, headers: response.headers });
+        }
+
+        return response;
+    }
+
+    /**
+     * Cached answer to a track request; null when the full file is not cached, or the request
+     * carries a query the cache cannot answer
+     */
+    async match(request: Request): Promise<Response | null> {
+        if (!TrackResponseCache.isFileQuery(request)) return null;
+
+        const cache = await this.caches.open(TrackResponseCache.cacheName);
+        const file = await cache.match(TrackResponseCache.fileKey(request));
+        if (!file) return null;
+
+        const offset = Number(new URL(request.url).searchParams.get('offset') ?? 0);
+        if (offset > 0) {
+            return this.createOffsetResponse(file, offset);
+        }
+
+        const range = request.headers.get('Range');
+        if (range) {
+            return this.createRangeResponse(file, range);
+        }
+
+        return file;
+    }
+
+    /**
+     * Remove a cached track file, whichever API origin it came from
+     */
+    async evict(trackId: string): Promise<boolean> {
+        const cache = await this.caches.open(TrackResponseCache.cacheName);
+        let evicted = false;
+        for (const key of await cache.keys()) {
+            if (this.getTrackId(key) === trackId) {
+                evicted = await cache.delete(key) || evicted;
+            }
+        }
+        return evicted;
+    }
+
+    async clear(): Promise<boolean> {
+        return this.caches.delete(TrackResponseCache.cacheName);
+    }
+
+    // ==================== Private Methods ====================
+
+    private async store(key: string, response: Response): Promise<void> {
+        const cache = await this.caches.open(TrackResponseCache.cacheName);
+        await cache.put(key, response);
+
+        // Keys come back in insertion order; drop the oldest files over the limit
+        const keys = await cache.keys();
+        for (const stale of keys.slice(0, Math.max(0, keys.length - this.maxTracks))) {
+            await cache.delete(stale);
+        }
+    }
+
+    /**
+     * Same response as the server's WavOffsetService: for WAV a header for the remaining data,
+     * then the data from the block-aligned offset; for FLAC, Ogg Opus and MP3 the file bytes
+     * from the offset. Offsets past the data are a bad request.
+     */
+    private async createOffsetResponse(file: Response, offset: number): Promise<Response> {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        if (!TrackResponseCache.isWav(bytes)) {
+            if (offset >= bytes.length) {
+                return new Response('Invalid offset', { status: 400 });
+            }
+            return new Response(bytes.slice(offset), {
+                status: 200,
+                headers: {
+                    'Content-Type': file.headers.get('Content-Type') ?? 'application/octet-stream',
+                    'Content-Length': (bytes.length - offset).toString()
+                }
+            });
+        }
+
+        const probe = bytes.subarray(0, Math.min(bytes.length, TrackResponseCache.headerProbeBytes));
+        const header = WavUtils.parseHeader([probe], probe.length);
+        if (!header || header.blockAlign <= 0 || offset >= header.dataSize) {
+            return new Response('Invalid offset', { status: 400 });
+        }
+
+        const alignedOffset = Math.floor(offset / header.blockAlign) * header.blockAlign;
+        const dataStart = header.headerSize + alignedOffset;
+        const dataEnd = Math.min(bytes.length, header.headerSize + header.dataSize);
+        const newHeader = WavUtils.createHeader(header, dataEnd - dataStart);
+
+        const body = new Uint8Array(newHeader.length + dataEnd - dataStart);
+        body.set(newHeader);
+        body.set(bytes.subarray(dataStart, dataEnd), newHeader.length);
+
+        return new Response(body, {
+            status: 200,
+            headers: {
+                'Content-Type': file.headers.get('Content-Type') ?? 'audio/wav',
+                'Content-Length': body.length.toString()
+            }
+        });
+    }
+
+    /**
+     * 206 slice for a single "bytes=start-end" range; 416 when it cannot be satisfied
+     */
+    private async createRangeResponse(file: Response, range: string): Promise<Response> {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+
+        let start = -1;
+        let end = bytes.length - 1;
+        if (match && match[1] !== '') {
+            start = Number(match[1]);
+            if (match[2] !== '') end = Math.min(end, Number(match[2]));
+        } else if (match && match[2] !== '') {
+            start = Math.max(0, bytes.length - Number(match[2]));   // Suffix range: last N bytes
+        }
+
+        if (start < 0 || start > end) {
+            return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${bytes.length}` } });
+        }
+
+        return new Response(bytes.slice(start, end + 1), {
+            status: 206,
+            headers: {
+                'Content-Type': file.headers.get('Content-Type') ?? 'audio/wav',
+                'Content-Length': (end + 1 - start).toString(),
+                'Content-Range': `bytes ${start}-${end}/${bytes.length}`
+            }
+        });
+    }
+
+    /**
+     * Cache key of the full file: the request URL without query. Only used for requests whose
+     * query is at most ?offset=, which are all answered from the full file.
+     */
+    private static fileKey(request: Request): string {
+        const url = new URL(request.url);
+        url.search = '';
+        return url.href;
+    }
+
+    private static isWav(bytes: Uint8Array): boolean {
+        const tag = (start: number) => String.fromCharCode(...bytes.subarray(start, start + 4));
+        return bytes.length >= 12 && tag(0) === 'RIFF' && tag(8) === 'WAVE';
+    }
+
+    private static isFileQuery(request: Request): boolean {
+        const params = [...new URL(request.url).searchParams.keys()];
+        return params.every(param => param === 'offset');
+    }
+
+    /**
+     * Only a plain GET of the track returns the whole file; anything else must not be stored
+     * under the file key
+     */
+    private static isFullFileRequest(request: Request): boolean {
+        return new URL(request.url).search === '' && !request.headers.has('Range');
+    }
+}
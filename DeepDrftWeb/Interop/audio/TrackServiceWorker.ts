@@ -0,0 +1,65 @@
+/**
+ * TrackServiceWorker - Service Worker entry point for offline track playback.
+ *
+ * Single Responsibility: Route content API GET /api/track/{trackId} requests (with or without
+ * ?offset=) through TrackResponseCache, and handle cache messages from the page.
+ * Registered by index.ts with scope '/' and the content API URL as its ?api= parameter;
+ * the server sends Service-Worker-Allowed for this file.
+ */
+
+import { TrackResponseCache } from './TrackResponseCache.js';
+
+export type TrackServiceWorkerMessage =
+    | { type: 'evictTrack'; trackId: string }
+    | { type: 'clearTracks' };
+
+// ServiceWorkerGlobalScope declarations - the project compiles against the DOM lib only
+interface ExtendableEvent extends Event {
+    waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+    readonly request: Request;
+    respondWith(response: Response | Promise<Response>): void;
+}
+
+interface ExtendableMessageEvent extends ExtendableEvent {
+    readonly data: TrackServiceWorkerMessage;
+}
+
+interface TrackWorkerScope {
+    readonly caches: CacheStorage;
+    readonly location: { readonly href: string; readonly origin: string };
+    readonly navigator: { readonly onLine: boolean };
+    readonly clients: { claim(): Promise<void> };
+    skipWaiting(): Promise<void>;
+    addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+    addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+    addEventListener(type: 'message', listener: (event: ExtendableMessageEvent) => void): void;
+}
+
+const workerScope = self as unknown as TrackWorkerScope;
+const apiUrl = new URL(workerScope.location.href).searchParams.get('api') ?? workerScope.location.origin;
+const trackCache = new TrackResponseCache(workerScope.caches, apiUrl);
+
+workerScope.addEventListener('install', event => {
+    event.waitUntil(workerScope.skipWaiting());
+});
+
+workerScope.addEventListener('activate', event => {
+    event.waitUntil(workerScope.clients.claim());
+});
+
+workerScope.addEventListener('fetch', event => {
+    if (trackCache.getTrackId(event.request) === null) return;
+    event.respondWith(trackCache.handle(event.request, workerScope.navigator.onLine, promise => event.waitUntil(promise)));
+});
+
+workerScope.addEventListener('message', event => {
+    const message = event.data;
+    if (message.type === 'evictTrack') {
+        event.waitUntil(trackCache.evict(message.trackId));
+    } else if (message.type === 'clearTracks') {
+        event.waitUntil(trackCache.clear());
+    }
+});
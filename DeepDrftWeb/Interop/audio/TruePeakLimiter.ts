@@ -0,0 +1,91 @@
+/**
+ * TruePeakLimiter - Insert that keeps the output's true peak under a ceiling.
+ *
+ * Single Responsibility: Own the limiter settings and the AudioWorkletNode running
+ * TruePeakLimiterProcessor. The processor module must be loaded into the context before
+ * build(); without AudioWorklet the insert passes audio through unchanged.
+ */
+
+import { AudioError } from './AudioError.js';
+import { InsertEffect, InsertNodes } from './InsertChain.js';
+import {
+    LIMITER_PROCESSOR_MODULE,
+    LIMITER_PROCESSOR_NAME,
+    LimiterProcessorCommand,
+    LimiterProcessorOptions
+} from './WorkletProtocol.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('TruePeakLimiter');
+
+export class TruePeakLimiter implements InsertEffect {
+    private static readonly lookaheadSeconds = 0.0015;
+
+    readonly id: string;
+    readonly type = 'limiter';
+
+    private node: AudioWorkletNode | null = null;
+    private ceilingDb: number = -1;
+    private releaseMs: number = 100;
+
+    constructor(id: string = 'limiter') {
+        this.id = id;
+    }
+
+    static get moduleUrl(): string {
+        return new URL(`./${LIMITER_PROCESSOR_MODULE}`, import.meta.url).href;
+    }
+
+    build(context: AudioContext): InsertNodes {
+        try {
+            const processorOptions: LimiterProcessorOptions = {
+                ceiling: Math.pow(10, this.ceilingDb / 20),
+                releaseSeconds: this.releaseMs / 1000,
+                lookaheadSeconds: TruePeakLimiter.lookaheadSeconds
+            };
+            this.node = new AudioWorkletNode(context, LIMITER_PROCESSOR_NAME, { processorOptions });
+            return { input: this.node, output: this.node };
+        } catch (error) {
+            // Module not loaded (no AudioWorklet, or addModule failed)
+            log.warn('True-peak limiter unavailable, passing audio through', error);
+            this.node = null;
+            const passThrough = context.createGain();
+            return { input: passThrough, output: passThrough };
+        }
+    }
+
+    getCeilingDb(): number {
+        return this.ceilingDb;
+    }
+
+    /**
+     * Set the true-peak ceiling in dBTP (-20 to 0)
+     */
+    setCeiling(ceilingDb: number): void {
+        if (!Number.isFinite(ceilingDb) || ceilingDb < -20 || ceilingDb > 0) {
+            throw new AudioError('INVALID_ARGUMENT', 'Limiter ceiling must be -20 to 0 dBTP');
+        }
+        this.ceilingDb = ceilingDb;
+        this.configure();
+    }
+
+    setRelease(releaseMs: number): void {
+        if (!Number.isFinite(releaseMs) || releaseMs < 1 || releaseMs > 5000) {
+            throw new AudioError('INVALID_ARGUMENT', 'Limiter release must be 1-5000 ms');
+        }
+        this.releaseMs = releaseMs;
+        this.configure();
+    }
+
+    // ==================== Private Methods ====================
+
+    private configure(): void {
+        if (!this.node) return;
+        const command: LimiterProcessorCommand = {
+            type: 'configure',
+            ceiling: Math.pow(10, this.ceilingDb / 20),
+            releaseSeconds: this.releaseMs / 1000
+        };
+        this.node.port.postMessage(command);
+    }
+}
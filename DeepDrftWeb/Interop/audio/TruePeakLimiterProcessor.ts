@@ -0,0 +1,191 @@
+/**
+ * TruePeakLimiterProcessor - AudioWorkletProcessor for TruePeakLimiter.
+ *
+ * Single Responsibility: Keep inter-sample peaks under the ceiling. Peaks are detected on
+ * a 4x oversampled signal (ITU-R BS.1770 Annex 2 interpolation filter); the linked gain
+ * drops instantly within a short lookahead, is smoothed over it and recovers with an
+ * exponential release. Audio is delayed by the lookahead so gain lands before each peak.
+ */
+
+import {
+    LIMITER_PROCESSOR_NAME,
+    LimiterProcessorCommand,
+    LimiterProcessorOptions
+} from './WorkletProtocol.js';
+
+// AudioWorkletGlobalScope declarations - not part of the DOM lib
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+declare const sampleRate: number;
+
+// 48-tap polyphase interpolation filter, one row per phase (BS.1770-4 Annex 2)
+const PHASES: number[][] = [
+    [0.0017089843750, 0.0109863281250, -0.0196533203125, 0.0332031250000, -0.0594482421875, 0.1373291015625,
+        0.9721679687500, -0.1022949218750, 0.0476074218750, -0.0266113281250, 0.0148925781250, -0.0083007812500],
+    [-0.0291748046875, 0.0292968750000, -0.0517578125000, 0.0891113281250, -0.1665039062500, 0.4650878906250,
+        0.7797851562500, -0.2003173828125, 0.1015625000000, -0.0582275390625, 0.0330810546875, -0.0189208984375],
+    [-0.0189208984375, 0.0330810546875, -0.0582275390625, 0.1015625000000, -0.2003173828125, 0.7797851562500,
+        0.4650878906250, -0.1665039062500, 0.0891113281250, -0.0517578125000, 0.0292968750000, -0.0291748046875],
+    [-0.0083007812500, 0.0148925781250, -0.0266113281250, 0.0476074218750, -0.1022949218750, 0.9721679687500,
+        0.1373291015625, -0.0594482421875, 0.0332031250000, -0.0196533203125, 0.0109863281250, 0.0017089843750]
+];
+const TAPS = 12;
+const FILTER_DELAY = 5;     // Interpolated peaks fall between input frames n-6 and n-5
+
+interface ChannelState {
+    history: Float32Array;      // Last TAPS inputs, stored twice so reads never wrap
+    historyIndex: number;
+    delay: Float32Array;
+    delayIndex: number;
+}
+
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+    private ceiling: number;
+    private releaseCoeff: number = 0;
+    private readonly lookahead: number;
+
+    private channels: ChannelState[] = [];
+
+    // Sliding minimum of the required gain over lookahead + 2 frames (monotonic deque)
+    private minValues: Float64Array;
+    private minFrames: Float64Array;
+    private minHead: number = 0;
+    private minLength: number = 0;
+    private frame: number = 0;
+
+    private released: number = 1;
+
+    // Moving average of the released gain over the lookahead
+    private average: Float64Array;
+    private averageIndex: number = 0;
+    private averageSum: number;
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const processorOptions = options.processorOptions as LimiterProcessorOptions;
+        this.ceiling = processorOptions.ceiling;
+        this.lookahead = Math.max(1, Math.round(processorOptions.lookaheadSeconds * sampleRate));
+        this.setRelease(processorOptions.releaseSeconds);
+
+        this.minValues = new Float64Array(this.lookahead + 2);
+        this.minFrames = new Float64Array(this.lookahead + 2);
+        this.average = new Float64Array(this.lookahead).fill(1);
+        this.averageSum = this.lookahead;
+
+        this.port.onmessage = (event: MessageEvent<LimiterProcessorCommand>) => this.handleCommand(event.data);
+    }
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (input.length === 0) {
+            return true;    // No active input: output stays silent
+        }
+        if (this.channels.length !== input.length) {
+            this.resizeChannels(input.length);
+        }
+
+        const frames = output[0].length;
+        for (let i = 0; i < frames; i++) {
+            let peak = 0;
+            for (let channel = 0; channel < input.length; channel++) {
+                peak = Math.max(peak, this.detectPeak(this.channels[channel], input[channel][i]));
+            }
+
+            const gain = this.nextGain(peak > this.ceiling ? this.ceiling / peak : 1);
+            for (let channel = 0; channel < input.length && channel < output.length; channel++) {
+                const state = this.channels[channel];
+                const delayed = state.delay[state.delayIndex];
+                state.delay[state.delayIndex] = input[channel][i];
+                state.delayIndex = (state.delayIndex + 1) % state.delay.length;
+                output[channel][i] = delayed * gain;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Push a sample through the interpolation filter; returns the largest of the
+     * current sample peak and the four interpolated values
+     */
+    private detectPeak(state: ChannelState, sample: number): number {
+        state.historyIndex = (state.historyIndex + TAPS - 1) % TAPS;
+        state.history[state.historyIndex] = sample;
+        state.history[state.historyIndex + TAPS] = sample;
+
+        const base = state.historyIndex;
+        let peak = Math.abs(state.history[base + FILTER_DELAY + 1]);
+        for (const coefficients of PHASES) {
+            let value = 0;
+            for (let tap = 0; tap < TAPS; tap++) {
+                value += coefficients[tap] * state.history[base + tap];
+            }
+            peak = Math.max(peak, Math.abs(value));
+        }
+        return peak;
+    }
+
+    /**
+     * Gain for the frame leaving the delay line: sliding minimum, release, then smoothing
+     */
+    private nextGain(required: number): number {
+        const span = this.minValues.length;
+
+        // Drop expired frames from the front, larger values from the back
+        while (this.minLength > 0 && this.minFrames[this.minHead] <= this.frame - span) {
+            this.minHead = (this.minHead + 1) % span;
+            this.minLength--;
+        }
+        while (this.minLength > 0 && this.minValues[(this.minHead + this.minLength - 1) % span] >= required) {
+            this.minLength--;
+        }
+        const tail = (this.minHead + this.minLength) % span;
+        this.minValues[tail] = required;
+        this.minFrames[tail] = this.frame;
+        this.minLength++;
+        this.frame++;
+
+        const minimum = this.minValues[this.minHead];
+        this.released = Math.min(minimum, this.released + (1 - this.released) * this.releaseCoeff);
+
+        this.averageSum += this.released - this.average[this.averageIndex];
+        this.average[this.averageIndex] = this.released;
+        this.averageIndex = (this.averageIndex + 1) % this.average.length;
+        return Math.min(1, this.averageSum / this.average.length);
+    }
+
+    private resizeChannels(count: number): void {
+        const delayFrames = this.lookahead + FILTER_DELAY;
+        while (this.channels.length < count) {
+            this.channels.push({
+                history: new Float32Array(TAPS * 2),
+                historyIndex: 0,
+                delay: new Float32Array(delayFrames),
+                delayIndex: 0
+            });
+        }
+        this.channels.length = count;
+    }
+
+    private setRelease(releaseSeconds: number): void {
+        this.releaseCoeff = 1 - Math.exp(-1 / (Math.max(0.001, releaseSeconds) * sampleRate));
+    }
+
+    private handleCommand(command: LimiterProcessorCommand): void {
+        switch (command.type) {
+            case 'configure':
+                this.ceiling = command.ceiling;
+                this.setRelease(command.releaseSeconds);
+                break;
+        }
+    }
+}
+
+registerProcessor(LIMITER_PROCESSOR_NAME, TruePeakLimiterProcessor);
@@ -0,0 +1,410 @@
+/**
+ * WorkletPlaybackEngine - Plays decoded buffers through an AudioWorkletProcessor.
+ *
+ * Single Responsibility: Feed retained AudioBuffers into a lock-free AudioRingBuffer
+ * read by WorkletPlaybackProcessor on the render thread. Positions come from frames
+ * actually rendered, so play/pause/seek are sample-accurate and independent of
+ * main-thread onended timing.
+ *
+ * Requires AudioWorklet and SharedArrayBuffer (page must be cross-origin isolated; the host
+ * sends COOP/COEP headers per CrossOriginIsolation:EmbedderPolicy).
+ */
+
+import { AudioContextManager } from './AudioContextManager.js';
+import { AudioRingBuffer } from './AudioRingBuffer.js';
+import { PlaybackEngine } from './PlaybackEngine.js';
+import { TrackGainStage } from './TrackGainStage.js';
+import {
+    PLAYBACK_PROCESSOR_MODULE,
+    PLAYBACK_PROCESSOR_NAME,
+    PlaybackProcessorCommand,
+    PlaybackProcessorEvent,
+    PlaybackProcessorOptions
+} from './WorkletProtocol.js';
+import { createLogger } from './Logger.js';
+
+const log = createLogger('WorkletPlaybackEngine');
+
+export class WorkletPlaybackEngine implements PlaybackEngine {
+    private static readonly ringSeconds = 4;        // Ring capacity in seconds of audio
+    private static readonly fillIntervalMs = 50;    // Top-up cadence while active
+
+    private contextManager: AudioContextManager;
+    private trackGain: TrackGainStage;
+    private buffers: AudioBuffer[] = [];
+    private node: AudioWorkletNode | null = null;
+    private ring: AudioRingBuffer | null = null;
+
+    // Feeder cursor - next frame to copy into the ring
+    private writeBufferIndex: number = 0;
+    private writeFrameInBuffer: number = 0;
+
+    // Playback timing
+    private startTime: number = 0;          // AudioContext time playback (re)started, may be in the future
+    private anchorPosition: number = 0;     // Buffer-relative position at last play/pause
+    private isActive_: boolean = false;
+    private playbackRate: number = 1;       // Sent with each start; positions still count source frames
+    private playbackOffset: number = 0;
+    private releasedFrames: number = 0;     // Ring timeline frames released ahead of buffers[0] since the last flush
+    private fillTimer: number | null = null;
+
+    // Callbacks
+    public onPlaybackEnded: (() => void) | null = null;
+    public onBuffersScheduled: (() => void) | null = null;
+    public onSourceScheduled: ((leadSeconds: number) => void) | null = null;   // Never called: audio streams through the ring
+
+    constructor(contextManager: AudioContextManager) {
+        this.contextManager = contextManager;
+        this.trackGain = new TrackGainStage(contextManager);
+    }
+
+    static isSupported(): boolean {
+        return AudioContextManager.supportsAudioWorklet() &&
+            AudioRingBuffer.isSupported() &&
+            window.crossOriginIsolated === true;
+    }
+
+    static get moduleUrl(): string {
+        return new URL(`./${PLAYBACK_PROCESSOR_MODULE}`, import.meta.url).href;
+    }
+
+    // ==================== Buffer Storage ====================
+
+    addBuffer(buffer: AudioBuffer): void {
+        this.buffers.push(this.matchContextSampleRate(buffer));
+        log.debug(`📦 Buffer[${this.buffers.length - 1}] added: ${buffer.duration.toFixed(3)}s (total: ${this.getTotalDuration().toFixed(3)}s)`);
+    }
+
+    getTotalDuration(): number {
+        return this.buffers.reduce((sum, b) => sum + b.duration, 0);
+    }
+
+    getBufferCount(): number {
+        return this.buffers.length;
+    }
+
+    hasBuffers(): boolean {
+        return this.buffers.length > 0;
+    }
+
+    /**
+     * Release played buffers that end before a track position; the released duration
+     * moves into playbackOffset. Returns the seconds released.
+     */
+    releaseBefore(position: number): number {
+        const limit = position - this.playbackOffset;
+        let released = 0;
+        let frames = 0;
+        let count = 0;
+
+        while (count < this.buffers.length && released + this.buffers[count].duration <= limit) {
+            released += this.buffers[count].duration;
+            frames += this.buffers[count].length;
+            count++;
+        }
+        if (count === 0) return 0;
+
+        this.buffers.splice(0, count);
+        this.writeBufferIndex = Math.max(0, this.writeBufferIndex - count);
+        this.anchorPosition -= released;
+        this.releasedFrames += frames;
+        this.playbackOffset += released;
+
+        log.debug(`♻️ Released ${count} buffers (${released.toFixed(3)}s), buffers now start at ${this.playbackOffset.toFixed(3)}s`);
+        return released;
+    }
+
+    // ==================== Position ====================
+
+    /**
+     * Current position in seconds, from frames rendered by the processor (includes playbackOffset)
+     */
+    getCurrentPosition(): number {
+        if (!this.isActive_ || !this.ring || this.ring.isFlushPending()) {
+            return this.anchorPosition + this.playbackOffset;
+        }
+        const rendered = (this.ring.playedFrames - this.releasedFrames) / this.contextManager.sampleRate;
+        return Math.min(rendered, this.getTotalDuration()) + this.playbackOffset;
+    }
+
+    setPlaybackOffset(offset: number): void {
+        this.playbackOffset = offset;
+        log.debug(`📍 Playback offset set to ${offset.toFixed(3)}s`);
+    }
+
+    getPlaybackOffset(): number {
+        return this.playbackOffset;
+    }
+
+    // ==================== Transport ====================
+
+    /**
+     * Flush the ring, refill from position and start the processor.
+     * startAt starts rendering at an exact AudioContext time (sample-accurate).
+     */
+    playFromPosition(position: number, startAt?: number): void {
+        this.stopAllSources();
+
+        const node = this.ensureNode();
+        if (!node || !this.ring) {
+            log.debug('No buffers available for worklet playback');
+            return;
+        }
+
+        const sampleRate = this.contextManager.sampleRate;
+        const cursor = this.locateFrame(Math.floor(position * sampleRate));
+        if (!cursor) {
+            log.debug('Position beyond available buffers');
+            return;
+        }
+
+        this.ring.requestFlush(cursor.timelineFrame);
+        this.releasedFrames = 0;
+        this.writeBufferIndex = cursor.bufferIndex;
+        this.writeFrameInBuffer = cursor.frameInBuffer;
+        this.anchorPosition = position;
+        this.startTime = startAt ?? this.contextManager.currentTime;
+        this.isActive_ = true;
+
+        this.fill();
+        this.postCommand({
+            type: 'start',
+            atFrame: startAt !== undefined ? Math.round(startAt * sampleRate) : null,
+            rate: this.playbackRate
+        });
+        this.startFillTimer();
+
+        log.debug(`▶️ Worklet playing from ${position.toFixed(3)}s: buffer[${cursor.bufferIndex}] frame=${cursor.frameInBuffer}`);
+    }
+
+    setPlaybackRate(rate: number): void {
+        this.playbackRate = rate;
+    }
+
+    scheduleNewBuffers(): void {
+        if (this.isActive_) {
+            this.fill();
+        }
+    }
+
+    pause(): number {
+        const position = this.getCurrentPosition();
+        this.isActive_ = false;
+        this.stopAllSources();
+        this.anchorPosition = position - this.playbackOffset;
+        log.debug(`⏸️ Paused at ${position.toFixed(3)}s`);
+        return position;
+    }
+
+    stopAllSources(): void {
+        this.postCommand({ type: 'stop' });
+        this.stopFillTimer();
+    }
+
+    resetToStart(): void {
+        this.isActive_ = false;
+        this.stopAllSources();
+        this.anchorPosition = 0;
+        this.startTime = 0;
+        this.writeBufferIndex = 0;
+        this.writeFrameInBuffer = 0;
+        this.releasedFrames = 0;
+        log.debug('⏮️ Reset to start');
+    }
+
+    clear(): void {
+        this.clearForSeek();
+        this.playbackOffset = 0;
+        this.cancelFade();
+        log.debug('🗑️ Worklet engine cleared');
+    }
+
+    clearForSeek(): AudioBuffer[] {
+        const removed = this.buffers;
+        this.resetToStart();
+        this.buffers = [];
+        return removed;
+    }
+
+    // ==================== Transition Planning ====================
+
+    isActive(): boolean {
+        return this.isActive_;
+    }
+
+    isFullyScheduled(): boolean {
+        return this.isActive_ && this.writeBufferIndex >= this.buffers.length;
+    }
+
+    getScheduledEndTime(): number {
+        return this.getProjectedEndTime();
+    }
+
+    getProjectedEndTime(): number {
+        const remaining = this.getTotalDuration() - (this.getCurrentPosition() - this.playbackOffset);
+        return Math.max(this.contextManager.currentTime, this.startTime) + remaining / this.playbackRate;
+    }
+
+    // ==================== Track Gain ====================
+
+    fadeIn(startTime: number, duration: number): void {
+        this.trackGain.fadeIn(startTime, duration);
+    }
+
+    fadeOut(startTime: number, duration: number): void {
+        this.trackGain.fadeOut(startTime, duration);
+    }
+
+    cancelFade(): void {
+        this.trackGain.cancelFade();
+    }
+
+    setNormalizationGain(gainDb: number, rampSeconds: number): void {
+        this.trackGain.setNormalizationGain(gainDb, rampSeconds);
+    }
+
+    disconnect(): void {
+        this.stopFillTimer();
+        this.node?.disconnect();
+        this.node = null;
+        this.ring = null;
+        this.trackGain.disconnect();
+    }
+
+    // ==================== Private Methods ====================
+
+    /**
+     * Create the processor node and ring on first use or after the AudioContext was replaced
+     */
+    private ensureNode(): AudioWorkletNode | null {
+        const context = this.contextManager.getContext();
+        if (this.node && this.node.context === context) {
+            return this.node;
+        }
+        if (this.buffers.length === 0) {
+            return null;
+        }
+
+        this.node?.disconnect();
+
+        const channels = this.buffers[0].numberOfChannels;
+        const ringInit = AudioRingBuffer.allocate(channels, Math.ceil(context.sampleRate * WorkletPlaybackEngine.ringSeconds));
+        const processorOptions: PlaybackProcessorOptions = { ring: ringInit };
+
+        this.ring = new AudioRingBuffer(ringInit);
+        this.node = new AudioWorkletNode(context, PLAYBACK_PROCESSOR_NAME, {
+            numberOfInputs: 0,
+            numberOfOutputs: 1,
+            outputChannelCount: [channels],
+            processorOptions
+        });
+        this.node.port.onmessage = (event: MessageEvent<PlaybackProcessorEvent>) => this.handleProcessorEvent(event.data);
+        this.node.connect(this.trackGain.getNode());
+
+        log.debug(`Worklet playback node created: ${channels}ch, ring=${WorkletPlaybackEngine.ringSeconds}s`);
+        return this.node;
+    }
+
+    /**
+     * Copy as much unwritten audio into the ring as it can hold
+     */
+    private fill(): void {
+        if (!this.ring) return;
+
+        while (this.writeBufferIndex < this.buffers.length) {
+            const buffer = this.buffers[this.writeBufferIndex];
+            const source: Float32Array[] = [];
+            for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+                source.push(buffer.getChannelData(ch));
+            }
+
+            const written = this.ring.write(source, this.writeFrameInBuffer, buffer.length - this.writeFrameInBuffer);
+            this.writeFrameInBuffer += written;
+
+            if (this.writeFrameInBuffer >= buffer.length) {
+                this.writeBufferIndex++;
+                this.writeFrameInBuffer = 0;
+            } else {
+                break; // Ring full
+            }
+        }
+
+        this.onBuffersScheduled?.();
+    }
+
+    private handleProcessorEvent(event: PlaybackProcessorEvent): void {
+        if (event.type !== 'drained' || !this.isActive_ || !this.ring) return;
+
+        // Drain reported before the latest flush - stale
+        if (event.flushGeneration !== this.ring.flushGeneration) return;
+
+        if (this.writeBufferIndex < this.buffers.length) {
+            this.fill();
+            return;
+        }
+
+        log.debug('✓ Playback complete');
+        this.isActive_ = false;
+        this.stopAllSources();
+        this.anchorPosition = 0;
+        this.startTime = 0;
+        this.onPlaybackEnded?.();
+    }
+
+    private locateFrame(frame: number): { bufferIndex: number; frameInBuffer: number; timelineFrame: number } | null {
+        let accumulated = 0;
+        for (let i = 0; i < this.buffers.length; i++) {
+            const length = this.buffers[i].length;
+            if (accumulated + length > frame) {
+                return { bufferIndex: i, frameInBuffer: Math.max(0, frame - accumulated), timelineFrame: Math.max(0, frame) };
+            }
+            accumulated += length;
+        }
+        return null;
+    }
+
+    /**
+     * Linear-interpolate buffers whose rate differs from the context (the ring runs at context rate)
+     */
+    private matchContextSampleRate(buffer: AudioBuffer): AudioBuffer {
+        const targetRate = this.contextManager.sampleRate;
+        if (targetRate <= 0 || buffer.sampleRate === targetRate) {
+            return buffer;
+        }
+
+        const ratio = buffer.sampleRate / targetRate;
+        const length = Math.max(1, Math.floor(buffer.length / ratio));
+        const channels: Float32Array<ArrayBuffer>[] = [];
+
+        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+            const input = buffer.getChannelData(ch);
+            const output = new Float32Array(length);
+            for (let i = 0; i < length; i++) {
+                const position = i * ratio;
+                const index = Math.floor(position);
+                const next = Math.min(index + 1, input.length - 1);
+                const fraction = position - index;
+                output[i] = input[index] + (input[next] - input[index]) * fraction;
+            }
+            channels.push(output);
+        }
+
+        return this.contextManager.createAudioBuffer(channels, targetRate);
+    }
+
+    private postCommand(command: PlaybackProcessorCommand): void {
+        this.node?.port.postMessage(command);
+    }
+
+    private startFillTimer(): void {
+        this.stopFillTimer();
+        this.fillTimer = window.setInterval(() => this.fill(), WorkletPlaybackEngine.fillIntervalMs);
+    }
+
+    private stopFillTimer(): void {
+        if (this.fillTimer !== null) {
+            clearInterval(this.fillTimer);
+            this.fillTimer = null;
+        }
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * WorkletPlaybackProcessor - AudioWorkletProcessor that plays PCM from an AudioRingBuffer.
+ *
+ * Single Responsibility: Render-thread consumer for WorkletPlaybackEngine.
+ * Starts at an exact context frame, outputs silence while stopped or starved,
+ * and reports starvation back to the engine. At rates other than 1 the ring is
+ * read faster or slower with linear interpolation (varispeed: pitch follows).
+ */
+
+import { AudioRingBuffer } from './AudioRingBuffer.js';
+import {
+    PLAYBACK_PROCESSOR_NAME,
+    PlaybackProcessorCommand,
+    PlaybackProcessorEvent,
+    PlaybackProcessorOptions
+} from './WorkletProtocol.js';
+
+// AudioWorkletGlobalScope declarations - not part of the DOM lib
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+    name: string,
+    processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+declare const currentFrame: number;
+
+const RENDER_QUANTUM = 128;
+const MAX_RATE = 4;
+
+class WorkletPlaybackProcessor extends AudioWorkletProcessor {
+    private ring: AudioRingBuffer;
+    private playing: boolean = false;
+    private startFrame: number | null = null;
+    private drainReported: boolean = false;
+
+    // Varispeed: frames read from the ring ahead of the interpolation position
+    private rate: number = 1;
+    private carry: Float32Array[] = [];
+    private carryLength: number = 0;
+    private phase: number = 0;              // Fractional read position in carry
+
+    constructor(options: AudioWorkletNodeOptions) {
+        super(options);
+        const processorOptions = options.processorOptions as PlaybackProcessorOptions;
+        this.ring = new AudioRingBuffer(processorOptions.ring);
+        this.port.onmessage = (event: MessageEvent<PlaybackProcessorCommand>) => this.handleCommand(event.data);
+    }
+
+    process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+        const output = outputs[0];
+        if (this.ring.applyPendingFlush()) {
+            this.drainReported = false;
+            this.carryLength = 0;
+            this.phase = 0;
+        }
+
+        if (!this.playing || output.length === 0) {
+            return true;
+        }
+
+        // Sample-accurate start: silence until startFrame falls inside this quantum
+        let outputOffset = 0;
+        if (this.startFrame !== null) {
+            const framesUntilStart = this.startFrame - currentFrame;
+            if (framesUntilStart >= RENDER_QUANTUM) {
+                return true;
+            }
+            outputOffset = Math.max(0, framesUntilStart);
+            this.startFrame = null;
+        }
+
+        const wanted = output[0].length - outputOffset;
+        const read = this.rate === 1 && this.carryLength === 0
+            ? this.ring.read(output, outputOffset, wanted)
+            : this.readResampled(output, outputOffset, wanted);
+
+        if (read < wanted) {
+            if (!this.drainReported) {
+                this.drainReported = true;
+                const event: PlaybackProcessorEvent = { type: 'drained', flushGeneration: this.ring.appliedFlushGeneration };
+                this.port.postMessage(event);
+            }
+        } else {
+            this.drainReported = false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Render frames at the playback rate, interpolating between ring frames; returns the
+     * frames rendered, fewer when the ring runs dry
+     */
+    private readResampled(output: Float32Array[], outputOffset: number, frames: number): number {
+        if (this.carry.length !== output.length) {
+            this.carry = output.map(() => new Float32Array(Math.ceil(RENDER_QUANTUM * MAX_RATE) + 4));
+            this.carryLength = 0;
+            this.phase = 0;
+        }
+
+        // Output i interpolates between carry frames floor(phase + i * rate) and the one after it
+        const needed = Math.floor(this.phase + (frames - 1) * this.rate) + 2;
+        if (this.carryLength < needed) {
+            this.carryLength += this.ring.read(this.carry, this.carryLength, needed - this.carryLength);
+        }
+
+        let rendered = 0;
+        let position = this.phase;
+        while (rendered < frames) {
+            const index = Math.floor(position);
+            if (index + 1 >= this.carryLength) break;
+            const fraction = position - index;
+            for (let ch = 0; ch < output.length; ch++) {
+                const frame = this.carry[ch];
+                output[ch][outputOffset + rendered] = frame[index] + (frame[index + 1] - frame[index]) * fraction;
+            }
+            rendered++;
+            position += this.rate;
+        }
+
+        const consumed = Math.min(Math.floor(position), this.carryLength);
+        for (const frame of this.carry) {
+            frame.copyWithin(0, consumed, this.carryLength);
+        }
+        this.carryLength -= consumed;
+        this.phase = position - consumed;
+        return rendered;
+    }
+
+    private handleCommand(command: PlaybackProcessorCommand): void {
+        switch (command.type) {
+            case 'start':
+                this.playing = true;
+                this.startFrame = command.atFrame;
+                this.rate = Math.max(1 / MAX_RATE, Math.min(MAX_RATE, command.rate));
+                this.drainReported = false;
+                break;
+            case 'stop':
+                this.playing = false;
+                this.startFrame = null;
+                break;
+        }
+    }
+}
+
+registerProcessor(PLAYBACK_PROCESSOR_NAME, WorkletPlaybackProcessor);
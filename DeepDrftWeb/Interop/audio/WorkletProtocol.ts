@@ -0,0 +1,47 @@
+/**
+ * WorkletProtocol - Names and message shapes shared by the main-thread audio nodes and their
+ * processors (WorkletPlaybackEngine, TruePeakLimiter, TimeStretcher).
+ *
+ * Kept separate so the main thread never imports a processor module itself.
+ */
+
+import { AudioRingBufferInit } from './AudioRingBuffer.js';
+
+export const PLAYBACK_PROCESSOR_NAME = 'deepdrft-playback';
+export const PLAYBACK_PROCESSOR_MODULE = 'WorkletPlaybackProcessor.js';
+
+export type PlaybackProcessorCommand =
+    | { type: 'start'; atFrame: number | null; rate: number }
+    | { type: 'stop' };
+
+export type PlaybackProcessorEvent =
+    | { type: 'drained'; flushGeneration: number };
+
+export interface PlaybackProcessorOptions {
+    ring: AudioRingBufferInit;
+}
+
+export const LIMITER_PROCESSOR_NAME = 'deepdrft-true-peak-limiter';
+export const LIMITER_PROCESSOR_MODULE = 'TruePeakLimiterProcessor.js';
+
+export type LimiterProcessorCommand =
+    | { type: 'configure'; ceiling: number; releaseSeconds: number };
+
+export interface LimiterProcessorOptions {
+    ceiling: number;                // Linear true-peak ceiling
+    releaseSeconds: number;
+    lookaheadSeconds: number;
+}
+
+export const TIME_STRETCH_PROCESSOR_NAME = 'deepdrft-time-stretch';
+export const TIME_STRETCH_PROCESSOR_MODULE = 'TimeStretchProcessor.js';
+
+export type TimeStretchProcessorCommand =
+    | { type: 'configure'; rate: number; preservePitch: boolean };
+
+export interface TimeStretchProcessorOptions {
+    rate: number;                   // Playback rate whose pitch change is undone
+    preservePitch: boolean;         // False passes audio through
+    frameSeconds: number;           // WSOLA frame, overlapped by half
+    toleranceSeconds: number;       // Search range around a frame's nominal position
+}
@@ -2,82 +2,218 @@
  * Audio Interop - Exposes AudioPlayer to Blazor via window.DeepDrftAudio
  */
 
-import { AudioPlayer, AudioResult, StreamingResult, AudioState } from './AudioPlayer.js';
+import {
+    AudioPlayer, AudioResult, StreamingResult, AudioState, AudioPlayerOptions, TrackMetadata, TrackChapter,
+    StreamingInitResult, CachedChunkResult, StreamContinuation, OpenStreamOptions, StreamStateEvent,
+    EqBandResult, FadeOptions
+} from './AudioPlayer.js';
+import { AudioErrorEvent, errorResult, failure } from './AudioError.js';
+import { VolumeTaper } from './AudioContextManager.js';
+import { PlaybackDiagnostics } from './DiagnosticsCollector.js';
+import { InsertInfo } from './InsertChain.js';
+import { EqBand, EqBandSettings } from './ParametricEqualizer.js';
+import { EqPreset, EqPresetStore } from './EqPresetStore.js';
+import { LoudnessInfo, NormalizationOptions, NormalizationState } from './LoudnessNormalizer.js';
+import { BufferedRange } from './BufferedRangeMap.js';
+import { CachedTrack, TrackChunkCache } from './TrackChunkCache.js';
+import { TrackServiceWorkerMessage } from './TrackServiceWorker.js';
+import { LogLevel, LogSink, LoggingOptions, addLogSink, configureLogging, createLogger, formatLogEntry, meetsLevel, removeLogSink } from './Logger.js';
+
+const log = createLogger('DeepDrftAudio');
 
 // Player instances by ID
 const audioPlayers = new Map<string, AudioPlayer>();
 
+// Chunk cache shared by all players; null where IndexedDB is unavailable
+const chunkCache = TrackChunkCache.isSupported() ? new TrackChunkCache() : null;
+
+// EQ presets shared by all players
+const eqPresets = new EqPresetStore();
+
 // .NET interop type
 interface DotNetObjectReference {
     invokeMethodAsync(methodName: string, ...args: unknown[]): Promise<unknown>;
 }
 
+interface DotNetLoggingOptions extends LoggingOptions {
+    forwardLevel?: LogLevel;        // Lowest level forwarded to .NET (default 'warn')
+}
+
+// Sink forwarding log entries to .NET; replaced on each configureLogging call
+let dotNetLogSink: LogSink | null = null;
+
 // Global API exposed to Blazor
 const DeepDrftAudio = {
-    createPlayer: async (playerId: string): Promise<AudioResult> => {
+    /**
+     * Set log levels for all modules (and per namespace, e.g. 'StreamDecoder'); with a .NET
+     * reference, entries at forwardLevel and above are also sent to that callback
+     */
+    configureLogging: (options: DotNetLoggingOptions, dotNetRef?: DotNetObjectReference, methodName?: string): AudioResult => {
+        try {
+            configureLogging(options);
+
+            if (dotNetLogSink) {
+                removeLogSink(dotNetLogSink);
+                dotNetLogSink = null;
+            }
+            if (dotNetRef && methodName) {
+                const forwardLevel = options.forwardLevel ?? 'warn';
+                dotNetLogSink = entry => {
+                    if (!meetsLevel(entry.level, forwardLevel)) return;
+                    dotNetRef.invokeMethodAsync(methodName, {
+                        level: entry.level,
+                        namespace: entry.namespace,
+                        message: formatLogEntry(entry),
+                        timestamp: entry.timestamp
+                    }).catch(() => undefined);  // Logging the failure would loop back into this sink
+                };
+                addLogSink(dotNetLogSink);
+            }
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
+    createPlayer: async (playerId: string, options?: AudioPlayerOptions): Promise<AudioResult> => {
         try {
-            const player = new AudioPlayer();
+            const player = new AudioPlayer(options ?? {}, chunkCache);
             const result = await player.initialize();
             if (result.success) {
                 audioPlayers.set(playerId, player);
             }
             return result;
         } catch (error) {
-            return { success: false, error: (error as Error).message };
+            return errorResult(error);
         }
     },
 
-    initializeStreaming: (playerId: string, totalStreamLength: number): AudioResult => {
+    initializeStreaming: async (playerId: string, totalStreamLength: number, cacheKey?: string | null,
+                                loudness?: LoudnessInfo | null): Promise<StreamingInitResult> => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
-        return player.initializeStreaming(totalStreamLength);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.initializeStreaming(totalStreamLength, cacheKey ?? null, loudness ?? null);
     },
 
     processStreamingChunk: async (playerId: string, chunk: Uint8Array): Promise<StreamingResult> => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.processStreamingChunk(chunk);
     },
 
+    processCachedChunk: async (playerId: string, maxBytes: number): Promise<CachedChunkResult> => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.processCachedChunk(maxBytes);
+    },
+
+    continueStream: (playerId: string): StreamContinuation => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.continueStream();
+    },
+
+    // Direct streaming methods - the player fetches the track itself
+    openStream: async (playerId: string, url: string, options?: OpenStreamOptions): Promise<AudioResult> => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.openStream(url, options ?? {});
+    },
+
+    closeStream: async (playerId: string): Promise<AudioResult> => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.closeStream();
+    },
+
+    setStartSafetyMargin: (playerId: string, seconds: number): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setStartSafetyMargin(seconds);
+    },
+
+    setRetentionWindow: (playerId: string, seconds: number | null): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setRetentionWindow(seconds);
+    },
+
     startStreamingPlayback: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.startStreamingPlayback();
     },
 
+    // Gapless next-track methods
+    prepareNextTrack: (playerId: string, totalStreamLength: number, loudness?: LoudnessInfo | null): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.prepareNextTrack(totalStreamLength, loudness ?? null);
+    },
+
+    processNextTrackChunk: async (playerId: string, chunk: Uint8Array): Promise<StreamingResult> => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.processNextTrackChunk(chunk);
+    },
+
+    cancelNextTrack: (playerId: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.cancelNextTrack();
+    },
+
+    setCrossfadeDuration: (playerId: string, seconds: number): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setCrossfadeDuration(seconds);
+    },
+
+    // Loudness normalization methods
+    setLoudnessNormalization: (playerId: string, options: NormalizationOptions): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setLoudnessNormalization(options);
+    },
+
+    getLoudnessNormalization: (playerId: string): NormalizationState | null => {
+        const player = audioPlayers.get(playerId);
+        return player?.getLoudnessNormalization() ?? null;
+    },
+
     ensureAudioContextReady: async (playerId: string): Promise<AudioResult> => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.ensureAudioContextReady();
     },
 
     play: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.play();
     },
 
     pause: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.pause();
     },
 
     stop: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.stop();
     },
 
     unload: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.unload();
     },
 
     seek: (playerId: string, position: number): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.seek(position);
     },
 
@@ -87,23 +223,58 @@ const DeepDrftAudio = {
         return player?.getBufferedDuration() ?? 0;
     },
 
+    getBufferedRanges: (playerId: string): BufferedRange[] => {
+        const player = audioPlayers.get(playerId);
+        return player?.getBufferedRanges() ?? [];
+    },
+
     calculateByteOffset: (playerId: string, positionSeconds: number): number => {
         const player = audioPlayers.get(playerId);
         return player?.calculateByteOffset(positionSeconds) ?? 0;
     },
 
-    reinitializeFromOffset: (playerId: string, totalStreamLength: number, seekPosition: number): AudioResult => {
+    reinitializeFromOffset: (playerId: string, totalStreamLength: number, seekPosition: number, byteOffset: number = 0): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
-        return player.reinitializeFromOffset(totalStreamLength, seekPosition);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.reinitializeFromOffset(totalStreamLength, seekPosition, byteOffset);
     },
 
     setVolume: (playerId: string, volume: number): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.setVolume(volume);
     },
 
+    fadeTo: (playerId: string, volume: number, durationMs: number): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.fadeTo(volume, durationMs);
+    },
+
+    setMuted: (playerId: string, muted: boolean): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setMuted(muted);
+    },
+
+    setVolumeCurve: (playerId: string, taper: VolumeTaper, minDb?: number | null): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setVolumeCurve(taper, minDb);
+    },
+
+    setPlaybackRate: (playerId: string, rate: number, preservePitch?: boolean | null): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setPlaybackRate(rate, preservePitch);
+    },
+
+    setFadeDurations: (playerId: string, options: FadeOptions): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setFadeDurations(options);
+    },
+
     getCurrentTime: (playerId: string): number => {
         const player = audioPlayers.get(playerId);
         return player?.getCurrentTime() ?? 0;
@@ -114,13 +285,36 @@ const DeepDrftAudio = {
         return player?.getState() ?? null;
     },
 
+    getTrackMetadata: (playerId: string): TrackMetadata | null => {
+        const player = audioPlayers.get(playerId);
+        return player?.getTrackMetadata() ?? null;
+    },
+
+    // Chapter navigation (WAV cue points)
+    getChapters: (playerId: string): TrackChapter[] => {
+        const player = audioPlayers.get(playerId);
+        return player?.getChapters() ?? [];
+    },
+
+    nextChapter: (playerId: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.nextChapter();
+    },
+
+    previousChapter: (playerId: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.previousChapter();
+    },
+
     setOnProgressCallback: (
         playerId: string,
         dotNetRef: DotNetObjectReference,
         methodName: string
     ): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
 
         player.setOnProgressCallback((currentTime: number) => {
             dotNetRef.invokeMethodAsync(methodName, currentTime);
@@ -134,7 +328,7 @@ const DeepDrftAudio = {
         methodName: string
     ): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
 
         player.setOnEndCallback(() => {
             dotNetRef.invokeMethodAsync(methodName);
@@ -142,6 +336,190 @@ const DeepDrftAudio = {
         return { success: true };
     },
 
+    setOnTrackChangedCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference,
+        methodName: string
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        player.setOnTrackChangedCallback(() => {
+            dotNetRef.invokeMethodAsync(methodName);
+        });
+        return { success: true };
+    },
+
+    setOnChapterChangedCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference,
+        methodName: string
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        player.setOnChapterChangedCallback((chapterIndex: number) => {
+            dotNetRef.invokeMethodAsync(methodName, chapterIndex);
+        });
+        return { success: true };
+    },
+
+    setOnBufferingCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference,
+        methodName: string
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        player.setOnBufferingCallback((isBuffering: boolean) => {
+            dotNetRef.invokeMethodAsync(methodName, isBuffering);
+        });
+        return { success: true };
+    },
+
+    setOnStreamStateCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference,
+        methodName: string
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        player.setOnStreamStateCallback((event: StreamStateEvent) => {
+            dotNetRef.invokeMethodAsync(methodName, event);
+        });
+        return { success: true };
+    },
+
+    setOnErrorCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference,
+        methodName: string
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        player.setOnErrorCallback((event: AudioErrorEvent) => {
+            dotNetRef.invokeMethodAsync(methodName, event);
+        });
+        return { success: true };
+    },
+
+    /**
+     * Push diagnostics to .NET every intervalMs (default 10s); pass a null reference to stop
+     */
+    setOnDiagnosticsCallback: (
+        playerId: string,
+        dotNetRef: DotNetObjectReference | null,
+        methodName: string | null,
+        intervalMs: number = 10000
+    ): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+
+        if (!dotNetRef || !methodName) {
+            return player.setOnDiagnosticsCallback(null);
+        }
+        return player.setOnDiagnosticsCallback((diagnostics: PlaybackDiagnostics) => {
+            dotNetRef.invokeMethodAsync(methodName, diagnostics);
+        }, intervalMs);
+    },
+
+    getDiagnostics: (playerId: string): PlaybackDiagnostics | null => {
+        const player = audioPlayers.get(playerId);
+        return player?.getDiagnostics() ?? null;
+    },
+
+    // Insert chain and EQ methods
+    getInserts: (playerId: string): InsertInfo[] => {
+        const player = audioPlayers.get(playerId);
+        return player?.getInserts() ?? [];
+    },
+
+    setInsertBypass: (playerId: string, insertId: string, bypassed: boolean): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setInsertBypass(insertId, bypassed);
+    },
+
+    moveInsert: (playerId: string, insertId: string, index: number): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.moveInsert(insertId, index);
+    },
+
+    getEqBands: (playerId: string): EqBand[] => {
+        const player = audioPlayers.get(playerId);
+        return player?.getEqBands() ?? [];
+    },
+
+    addEqBand: (playerId: string, settings: EqBandSettings, index?: number | null): EqBandResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.addEqBand(settings, index ?? undefined);
+    },
+
+    updateEqBand: (playerId: string, bandId: string, settings: EqBandSettings): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.updateEqBand(bandId, settings);
+    },
+
+    removeEqBand: (playerId: string, bandId: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.removeEqBand(bandId);
+    },
+
+    setEqBandBypass: (playerId: string, bandId: string, bypassed: boolean): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.setEqBandBypass(bandId, bypassed);
+    },
+
+    moveEqBand: (playerId: string, bandId: string, index: number): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        return player.moveEqBand(bandId, index);
+    },
+
+    listEqPresets: (): EqPreset[] => {
+        return eqPresets.list();
+    },
+
+    /**
+     * Save the player's current bands under a name
+     */
+    saveEqPreset: (playerId: string, name: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        try {
+            eqPresets.save(name, player.getEqBands());
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
+    loadEqPreset: (playerId: string, name: string): AudioResult => {
+        const player = audioPlayers.get(playerId);
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
+        try {
+            return player.setEqBands(eqPresets.get(name));
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
+    deleteEqPreset: (name: string): AudioResult => {
+        try {
+            return eqPresets.delete(name) ? { success: true } : failure('NOT_FOUND', `No EQ preset '${name}'`);
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
     // Spectrum analyzer methods
     getSpectrumData: (playerId: string): number[] | null => {
         const player = audioPlayers.get(playerId);
@@ -150,19 +528,19 @@ const DeepDrftAudio = {
 
     setSpectrumHighPass: (playerId: string, freq: number): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.setSpectrumHighPass(freq);
     },
 
     setSpectrumLowPass: (playerId: string, freq: number): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.setSpectrumLowPass(freq);
     },
 
     setSpectrumSlope: (playerId: string, dbPerDecade: number): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         return player.setSpectrumSlope(dbPerDecade);
     },
 
@@ -173,7 +551,7 @@ const DeepDrftAudio = {
         methodName: string
     ): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
 
         player.startSpectrumAnimation(callbackId, (data: number[]) => {
             dotNetRef.invokeMethodAsync(methodName, data);
@@ -183,11 +561,71 @@ const DeepDrftAudio = {
 
     stopSpectrumAnimation: (playerId: string, callbackId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
-        if (!player) return { success: false, error: 'Player not found' };
+        if (!player) return failure('PLAYER_NOT_FOUND', 'Player not found');
         player.stopSpectrumAnimation(callbackId);
         return { success: true };
     },
 
+    // Offline chunk cache methods
+    listCachedTracks: async (): Promise<CachedTrack[]> => {
+        try {
+            return await chunkCache?.listTracks() ?? [];
+        } catch (error) {
+            log.warn('⚠️ Failed to list cached tracks:', error);
+            return [];
+        }
+    },
+
+    pinCachedTrack: async (entryKey: string, pinned: boolean): Promise<AudioResult> => {
+        if (!chunkCache) return failure('NOT_SUPPORTED', 'Chunk cache not supported');
+        try {
+            const found = await chunkCache.pin(entryKey, pinned);
+            return found ? { success: true } : failure('NOT_FOUND', 'Track not cached');
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
+    /**
+     * Install the offline track Service Worker for a content API; tracks fetched from it are
+     * cached and served without a network
+     */
+    registerTrackServiceWorker: async (contentApiUrl: string): Promise<AudioResult> => {
+        if (!('serviceWorker' in navigator)) return failure('NOT_SUPPORTED', 'Service Workers not supported');
+        try {
+            const scriptUrl = new URL('./TrackServiceWorker.js', import.meta.url);
+            scriptUrl.searchParams.set('api', new URL(contentApiUrl).origin);
+            await navigator.serviceWorker.register(scriptUrl, { scope: '/', type: 'module' });
+            log.info('🛰️ Track Service Worker registered');
+            return { success: true };
+        } catch (error) {
+            log.warn('⚠️ Track Service Worker registration failed:', error);
+            return errorResult(error);
+        }
+    },
+
+    evictCachedTrack: async (entryKey: string): Promise<AudioResult> => {
+        if (!chunkCache) return failure('NOT_SUPPORTED', 'Chunk cache not supported');
+        try {
+            await chunkCache.evict(entryKey);
+            postToServiceWorker({ type: 'evictTrack', trackId: entryKey });
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
+    setCacheMaxBytes: async (maxBytes: number): Promise<AudioResult> => {
+        if (!chunkCache) return failure('NOT_SUPPORTED', 'Chunk cache not supported');
+        if (!Number.isFinite(maxBytes) || maxBytes < 0) return failure('INVALID_ARGUMENT', 'Invalid cache size');
+        try {
+            await chunkCache.setMaxBytes(maxBytes);
+            return { success: true };
+        } catch (error) {
+            return errorResult(error);
+        }
+    },
+
     disposePlayer: (playerId: string): AudioResult => {
         const player = audioPlayers.get(playerId);
         if (player) {
@@ -195,7 +633,7 @@ const DeepDrftAudio = {
             audioPlayers.delete(playerId);
             return { success: true };
         }
-        return { success: false, error: 'Player not found' };
+        return failure('PLAYER_NOT_FOUND', 'Player not found');
     },
 
     // Legacy compatibility - these may not be needed but kept for safety
@@ -212,6 +650,11 @@ const DeepDrftAudio = {
     }
 };
 
+function postToServiceWorker(message: TrackServiceWorkerMessage): void {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.controller?.postMessage(message);
+}
+
 // Expose to window
 declare global {
     interface Window {
@@ -8,6 +8,10 @@
  * - Handle pause/resume without losing audio data
  */
 
+import { createLogger } from './audio/Logger.js';
+
+const log = createLogger('AudioBufferManager');
+
 export interface ScheduledBuffer {
     source: AudioBufferSourceNode;
     startTime: number;      // AudioContext time when this buffer starts
@@ -41,7 +45,7 @@ export class AudioBufferManager {
      */
     addBuffer(buffer: AudioBuffer): void {
         this.decodedBuffers.push(buffer);
-        console.log(`📦 Buffer added: index=${this.decodedBuffers.length - 1}, duration=${buffer.duration.toFixed(3)}s, total=${this.getTotalDuration().toFixed(3)}s`);
+        log.debug(`📦 Buffer added: index=${this.decodedBuffers.length - 1}, duration=${buffer.duration.toFixed(3)}s, total=${this.getTotalDuration().toFixed(3)}s`);
     }
 
     /**
@@ -92,7 +96,7 @@ export class AudioBufferManager {
             startBufferIndex = i + 1;
         }
 
-        console.log(`🎯 Scheduling from position ${position.toFixed(3)}s: buffer[${startBufferIndex}] offset=${offsetInBuffer.toFixed(3)}s`);
+        log.debug(`🎯 Scheduling from position ${position.toFixed(3)}s: buffer[${startBufferIndex}] offset=${offsetInBuffer.toFixed(3)}s`);
 
         // Record playback start reference
         this.playbackStartPosition = position;
@@ -151,7 +155,7 @@ export class AudioBufferManager {
                 bufferIndex: i
             });
 
-            console.log(`🎵 Scheduled buffer[${i}]: start=${this.nextScheduleTime.toFixed(3)}s, offset=${offset.toFixed(3)}s, duration=${duration.toFixed(3)}s`);
+            log.debug(`🎵 Scheduled buffer[${i}]: start=${this.nextScheduleTime.toFixed(3)}s, offset=${offset.toFixed(3)}s, duration=${duration.toFixed(3)}s`);
 
             // Update timing for next buffer
             this.nextScheduleTime += duration;
@@ -160,7 +164,7 @@ export class AudioBufferManager {
             // Check if we have enough lookahead
             const lookahead = this.nextScheduleTime - this.audioContext.currentTime;
             if (lookahead > lookaheadTarget) {
-                console.log(`📋 Sufficient lookahead: ${(lookahead * 1000).toFixed(0)}ms`);
+                log.debug(`📋 Sufficient lookahead: ${(lookahead * 1000).toFixed(0)}ms`);
                 break;
             }
         }
@@ -177,7 +181,7 @@ export class AudioBufferManager {
 
         // Check if all buffers have finished
         if (this.scheduledSources.length === 0 && this.nextScheduleIndex >= this.decodedBuffers.length) {
-            console.log(`✓ All buffers played`);
+            log.debug(`✓ All buffers played`);
             this.onAllBuffersPlayed?.();
         }
     }
@@ -194,7 +198,7 @@ export class AudioBufferManager {
             }
         }
         this.scheduledSources = [];
-        console.log(`⏹️ Stopped all scheduled sources`);
+        log.info(`⏹️ Stopped all scheduled sources`);
     }
 
     /**
@@ -205,7 +209,7 @@ export class AudioBufferManager {
         this.stopAllScheduled();
         this.playbackStartPosition = position;
         this.playbackStartTime = 0;
-        console.log(`⏸️ Paused at ${position.toFixed(3)}s`);
+        log.debug(`⏸️ Paused at ${position.toFixed(3)}s`);
         return position;
     }
 
@@ -218,7 +222,7 @@ export class AudioBufferManager {
         this.playbackStartTime = 0;
         this.nextScheduleIndex = 0;
         this.nextScheduleTime = 0;
-        console.log(`⏮️ Reset to start`);
+        log.debug(`⏮️ Reset to start`);
     }
 
     /**
@@ -231,7 +235,7 @@ export class AudioBufferManager {
         this.playbackStartTime = 0;
         this.nextScheduleIndex = 0;
         this.nextScheduleTime = 0;
-        console.log(`🗑️ Buffer manager cleared`);
+        log.debug(`🗑️ Buffer manager cleared`);
     }
 
     /**
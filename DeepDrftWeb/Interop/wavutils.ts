@@ -1,13 +1,58 @@
+import { createLogger } from './audio/Logger.js';
+
+const log = createLogger('WavUtils');
+
 interface WavHeader {
+    audioFormat: number;            // Effective sample format: 1 = PCM, 3 = IEEE float (SubFormat for EXTENSIBLE)
+    formatTag: number;              // Format tag as stored in the fmt chunk (0xFFFE = WAVE_FORMAT_EXTENSIBLE)
     sampleRate: number;
     channels: number;
-    bitsPerSample: number;
+    bitsPerSample: number;          // Container size per sample
+    validBitsPerSample: number;     // Bits of precision, e.g. 20 or 24 inside a wider container
+    channelMask: number;            // Speaker positions (0 = unspecified)
     byteRate: number;
     blockAlign: number;
     dataSize: number;
     headerSize: number;
 }
 
+interface WavCuePoint {
+    id: number;
+    position: number;               // Sample frame offset into the data chunk
+    length: number | null;          // Region length in sample frames (adtl ltxt)
+    label: string | null;           // adtl labl
+    note: string | null;            // adtl note
+}
+
+interface WavBroadcastExtension {
+    description: string;
+    originator: string;
+    originatorReference: string;
+    originationDate: string;
+    originationTime: string;
+    timeReference: number;          // Sample frames since midnight
+    version: number;
+    codingHistory: string;
+}
+
+interface WavMetadata {
+    sampleRate: number;             // Rate of the cue positions; 0 if no fmt chunk was seen
+    info: Record<string, string>;   // LIST/INFO entries by chunk ID (INAM, IART, ICMT, ...)
+    bext: WavBroadcastExtension | null;
+    cuePoints: WavCuePoint[];
+    ixml: string | null;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// KSDATAFORMAT_SUBTYPE_* GUIDs share this tail after the 2-byte format code
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+// RF64/BW64 mark 32-bit sizes that live in the ds64 chunk instead
+const RF64_SIZE_PLACEHOLDER = 0xFFFFFFFF;
+
 class WavUtils {
     static parseHeader(chunks: Uint8Array[], totalSize: number): WavHeader | null {
         if (totalSize < 44) return null;
@@ -22,21 +67,26 @@ class WavUtils {
         // Need a DataView that spans the entire buffer for chunk searching
         const view = new DataView(concatenated.buffer);
 
-        // Check RIFF header
+        // Check RIFF header (RF64/BW64 for files over 4GB)
         const riff = new TextDecoder().decode(concatenated.slice(0, 4));
-        if (riff !== 'RIFF') return null;
+        if (riff !== 'RIFF' && riff !== 'RF64' && riff !== 'BW64') return null;
 
         const wave = new TextDecoder().decode(concatenated.slice(8, 12));
         if (wave !== 'WAVE') return null;
 
         // Variables to store parsed header info
+        let audioFormat = 0;
+        let formatTag = 0;
         let sampleRate = 0;
         let channels = 0;
         let bitsPerSample = 0;
+        let validBitsPerSample = 0;
+        let channelMask = 0;
         let byteRate = 0;
         let blockAlign = 0;
         let dataSize = 0;
         let headerSize = 0;
+        let ds64DataSize = 0;
         let foundFmt = false;
         let foundData = false;
 
@@ -46,39 +96,63 @@ class WavUtils {
             const chunkId = new TextDecoder().decode(concatenated.slice(chunkOffset, chunkOffset + 4));
             const chunkSize = view.getUint32(chunkOffset + 4, true);
 
-            if (chunkId === 'fmt ') {
+            if (chunkId === 'ds64') {
+                // RF64 64-bit sizes: riffSize (8), dataSize (8), sampleCount (8), table
+                if (chunkSize < 24) return null;
+                ds64DataSize = WavUtils.getUint64(view, chunkOffset + 16);
+            }
+            else if (chunkId === 'fmt ') {
                 // Validate minimum fmt chunk size
                 if (chunkSize < 16) return null;
 
-                const audioFormat = view.getUint16(chunkOffset + 8, true);
-                // Support PCM (1) and IEEE Float (3) formats
-                if (audioFormat !== 1 && audioFormat !== 3) {
-                    console.warn(`Unsupported audio format: ${audioFormat} (only PCM=1 and IEEE Float=3 supported)`);
-                    return null;
-                }
-
+                formatTag = view.getUint16(chunkOffset + 8, true);
                 channels = view.getUint16(chunkOffset + 10, true);
                 sampleRate = view.getUint32(chunkOffset + 12, true);
                 byteRate = view.getUint32(chunkOffset + 16, true);
                 blockAlign = view.getUint16(chunkOffset + 20, true);
                 bitsPerSample = view.getUint16(chunkOffset + 22, true);
+                validBitsPerSample = bitsPerSample;
+                audioFormat = formatTag;
+
+                if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+                    // cbSize (2), validBitsPerSample (2), channelMask (4), SubFormat GUID (16)
+                    if (chunkSize < 40 || chunkOffset + 48 > totalSize) return null;
+
+                    validBitsPerSample = view.getUint16(chunkOffset + 26, true) || bitsPerSample;
+                    channelMask = view.getUint32(chunkOffset + 28, true);
+                    audioFormat = WavUtils.parseSubFormat(concatenated, chunkOffset + 32);
+                }
+
+                // Support PCM (1) and IEEE Float (3) sample formats
+                if (audioFormat !== WAVE_FORMAT_PCM && audioFormat !== WAVE_FORMAT_IEEE_FLOAT) {
+                    log.warn(`Unsupported audio format: ${audioFormat} (only PCM=1 and IEEE Float=3 supported)`);
+                    return null;
+                }
 
                 // Basic validation
-                if (channels < 1 || channels > 8) return null;
-                if (blockAlign !== channels * (bitsPerSample / 8)) return null;
+                if (channels < 1 || channels > 32) return null;
+                if (blockAlign % channels !== 0) return null;
+
+                // Samples sit in whole-byte containers; a declared precision below the
+                // container (e.g. 20-bit packed in 3 bytes) only sets validBitsPerSample
+                const containerBits = (blockAlign / channels) * 8;
+                if (containerBits < bitsPerSample || containerBits < validBitsPerSample) return null;
+                bitsPerSample = containerBits;
+                validBitsPerSample = Math.min(validBitsPerSample, containerBits);
 
                 foundFmt = true;
-                console.log(`Found fmt chunk: ${bitsPerSample}-bit, ${channels}ch, ${sampleRate}Hz, format=${audioFormat}`);
+                log.debug(`Found fmt chunk: ${validBitsPerSample}/${bitsPerSample}-bit, ${channels}ch, ${sampleRate}Hz, format=${audioFormat}` +
+                    (formatTag === WAVE_FORMAT_EXTENSIBLE ? `, extensible mask=0x${channelMask.toString(16)}` : ''));
             }
             else if (chunkId === 'data') {
-                dataSize = chunkSize;
+                dataSize = chunkSize === RF64_SIZE_PLACEHOLDER && ds64DataSize > 0 ? ds64DataSize : chunkSize;
                 headerSize = chunkOffset + 8; // Audio data starts after 'data' + size (8 bytes)
                 foundData = true;
-                console.log(`Found data chunk at offset ${chunkOffset}, headerSize=${headerSize}, dataSize=${dataSize}`);
+                log.debug(`Found data chunk at offset ${chunkOffset}, headerSize=${headerSize}, dataSize=${dataSize}`);
             }
 
             // Move to next chunk with proper alignment (chunks are word-aligned)
-            chunkOffset += 8 + ((chunkSize + 1) & ~1);
+            chunkOffset += 8 + chunkSize + (chunkSize & 1);
 
             // If we found both chunks, we're done
             if (foundFmt && foundData) break;
@@ -86,14 +160,18 @@ class WavUtils {
 
         // Must have found both fmt and data chunks
         if (!foundFmt || !foundData) {
-            console.warn(`WAV parsing incomplete: foundFmt=${foundFmt}, foundData=${foundData}`);
+            log.warn(`WAV parsing incomplete: foundFmt=${foundFmt}, foundData=${foundData}`);
             return null;
         }
 
         return {
+            audioFormat,
+            formatTag,
             sampleRate,
             channels,
             bitsPerSample,
+            validBitsPerSample,
+            channelMask,
             byteRate,
             blockAlign,
             dataSize,
@@ -101,32 +179,62 @@ class WavUtils {
         };
     }
 
+    /**
+     * Create a RIFF header for a segment in the parsed format: a 16-byte fmt chunk with the
+     * original format tag, or a 40-byte WAVE_FORMAT_EXTENSIBLE fmt chunk (68-byte header)
+     */
     static createHeader(wavHeader: WavHeader, dataSize: number): Uint8Array {
-        const header = new ArrayBuffer(44);
+        const extensible = wavHeader.formatTag === WAVE_FORMAT_EXTENSIBLE;
+        const fmtSize = extensible ? 40 : 16;
+        const headerSize = 20 + fmtSize + 8;
+        const header = new ArrayBuffer(headerSize);
         const view = new DataView(header);
         
         // RIFF header
         view.setUint8(0, 0x52); view.setUint8(1, 0x49); view.setUint8(2, 0x46); view.setUint8(3, 0x46); // "RIFF"
-        view.setUint32(4, 36 + dataSize, true); // File size
+        view.setUint32(4, headerSize - 8 + dataSize, true); // File size
         view.setUint8(8, 0x57); view.setUint8(9, 0x41); view.setUint8(10, 0x56); view.setUint8(11, 0x45); // "WAVE"
         
         // fmt chunk
         view.setUint8(12, 0x66); view.setUint8(13, 0x6d); view.setUint8(14, 0x74); view.setUint8(15, 0x20); // "fmt "
-        view.setUint32(16, 16, true); // fmt chunk size
-        view.setUint16(20, 1, true); // Audio format (PCM)
+        view.setUint32(16, fmtSize, true); // fmt chunk size
+        view.setUint16(20, extensible ? WAVE_FORMAT_EXTENSIBLE : wavHeader.audioFormat, true);
         view.setUint16(22, wavHeader.channels, true);
         view.setUint32(24, wavHeader.sampleRate, true);
         view.setUint32(28, wavHeader.byteRate, true);
         view.setUint16(32, wavHeader.blockAlign, true);
         view.setUint16(34, wavHeader.bitsPerSample, true);
+
+        if (extensible) {
+            view.setUint16(36, 22, true); // cbSize
+            view.setUint16(38, wavHeader.validBitsPerSample, true);
+            view.setUint32(40, wavHeader.channelMask, true);
+            view.setUint16(44, wavHeader.audioFormat, true); // SubFormat GUID
+            new Uint8Array(header, 46, SUBFORMAT_GUID_TAIL.length).set(SUBFORMAT_GUID_TAIL);
+        }
         
         // data chunk header
-        view.setUint8(36, 0x64); view.setUint8(37, 0x61); view.setUint8(38, 0x74); view.setUint8(39, 0x61); // "data"
-        view.setUint32(40, dataSize, true);
+        const dataOffset = 20 + fmtSize;
+        view.setUint8(dataOffset, 0x64); view.setUint8(dataOffset + 1, 0x61); view.setUint8(dataOffset + 2, 0x74); view.setUint8(dataOffset + 3, 0x61); // "data"
+        view.setUint32(dataOffset + 4, dataSize, true);
         
         return new Uint8Array(header);
     }
 
+    /**
+     * Format code from a KSDATAFORMAT_SUBTYPE GUID, or 0 for an unknown GUID
+     */
+    private static parseSubFormat(data: Uint8Array, offset: number): number {
+        for (let i = 0; i < SUBFORMAT_GUID_TAIL.length; i++) {
+            if (data[offset + 2 + i] !== SUBFORMAT_GUID_TAIL[i]) return 0;
+        }
+        return data[offset] | (data[offset + 1] << 8);
+    }
+
+    private static getUint64(view: DataView, offset: number): number {
+        return view.getUint32(offset + 4, true) * 2 ** 32 + view.getUint32(offset, true);
+    }
+
     static copyAudioDataDirect(chunks: Uint8Array[], targetBuffer: Uint8Array, targetOffset: number, headerSize: number, audioDataSize: number): number {
         // Clear audio data area completely to prevent contamination - KEY FIX
         for (let i = targetOffset; i < targetOffset + audioDataSize; i++) {
@@ -173,6 +281,143 @@ class WavUtils {
         buffer[43] = (audioDataSize >> 24) & 0xFF;
     }
 
+    /**
+     * Extract LIST/INFO, bext, cue/adtl and iXML chunks from the start of a WAV file.
+     * Only chunks fully present in data are read; the data chunk is skipped by its size.
+     */
+    static parseMetadata(data: Uint8Array): WavMetadata | null {
+        if (data.length < 12) return null;
+
+        const riff = WavUtils.readChunkId(data, 0);
+        if ((riff !== 'RIFF' && riff !== 'RF64' && riff !== 'BW64') || WavUtils.readChunkId(data, 8) !== 'WAVE') {
+            return null;
+        }
+
+        const metadata: WavMetadata = { sampleRate: 0, info: {}, bext: null, cuePoints: [], ixml: null };
+        return WavUtils.parseMetadataChunks(data.subarray(12), metadata);
+    }
+
+    /**
+     * Extract metadata from a bare chunk sequence (e.g. chunks after the data chunk),
+     * merging into existing metadata
+     */
+    static parseMetadataChunks(data: Uint8Array, metadata: WavMetadata): WavMetadata {
+        const view = new DataView(data.buffer, data.byteOffset, data.length);
+        let chunkOffset = 0;
+
+        while (chunkOffset + 8 <= data.length) {
+            const chunkId = WavUtils.readChunkId(data, chunkOffset);
+            const chunkSize = view.getUint32(chunkOffset + 4, true);
+            const bodyStart = chunkOffset + 8;
+            const bodyEnd = bodyStart + chunkSize;
+
+            if (chunkId === 'data') {
+                chunkOffset = bodyEnd + (chunkSize & 1);
+                continue;
+            }
+            if (bodyEnd > data.length) break;
+
+            const body = data.subarray(bodyStart, bodyEnd);
+            if (chunkId === 'fmt ' && chunkSize >= 16) {
+                metadata.sampleRate = view.getUint32(bodyStart + 4, true);
+            } else if (chunkId === 'LIST' && chunkSize >= 4) {
+                WavUtils.parseList(body, metadata);
+            } else if (chunkId === 'cue ') {
+                WavUtils.parseCue(body, metadata);
+            } else if (chunkId === 'bext' && chunkSize >= 348) {
+                metadata.bext = WavUtils.parseBext(body);
+            } else if (chunkId === 'iXML') {
+                metadata.ixml = WavUtils.readText(body, 0, body.length);
+            }
+
+            chunkOffset = bodyEnd + (chunkSize & 1);
+        }
+
+        return metadata;
+    }
+
+    private static parseList(body: Uint8Array, metadata: WavMetadata): void {
+        const listType = WavUtils.readChunkId(body, 0);
+        if (listType !== 'INFO' && listType !== 'adtl') return;
+
+        const view = new DataView(body.buffer, body.byteOffset, body.length);
+        let offset = 4;
+
+        while (offset + 8 <= body.length) {
+            const id = WavUtils.readChunkId(body, offset);
+            const size = view.getUint32(offset + 4, true);
+            const start = offset + 8;
+            if (start + size > body.length) break;
+
+            if (listType === 'INFO') {
+                metadata.info[id] = WavUtils.readText(body, start, size);
+            } else if ((id === 'labl' || id === 'note') && size >= 4) {
+                const cue = WavUtils.getCuePoint(metadata, view.getUint32(start, true));
+                cue[id === 'labl' ? 'label' : 'note'] = WavUtils.readText(body, start + 4, size - 4);
+            } else if (id === 'ltxt' && size >= 20) {
+                const cue = WavUtils.getCuePoint(metadata, view.getUint32(start, true));
+                cue.length = view.getUint32(start + 4, true);
+            }
+
+            offset = start + size + (size & 1);
+        }
+    }
+
+    private static parseCue(body: Uint8Array, metadata: WavMetadata): void {
+        if (body.length < 4) return;
+
+        const view = new DataView(body.buffer, body.byteOffset, body.length);
+        const count = view.getUint32(0, true);
+
+        // id (4), play order position (4), data chunk ID (4), chunk start (4), block start (4), sample offset (4)
+        for (let i = 0; i < count && 4 + (i + 1) * 24 <= body.length; i++) {
+            const pointOffset = 4 + i * 24;
+            const cue = WavUtils.getCuePoint(metadata, view.getUint32(pointOffset, true));
+            cue.position = view.getUint32(pointOffset + 20, true);
+        }
+
+        metadata.cuePoints.sort((a, b) => a.position - b.position);
+    }
+
+    private static parseBext(body: Uint8Array): WavBroadcastExtension {
+        const view = new DataView(body.buffer, body.byteOffset, body.length);
+        return {
+            description: WavUtils.readText(body, 0, 256),
+            originator: WavUtils.readText(body, 256, 32),
+            originatorReference: WavUtils.readText(body, 288, 32),
+            originationDate: WavUtils.readText(body, 320, 10),
+            originationTime: WavUtils.readText(body, 330, 8),
+            timeReference: view.getUint32(342, true) * 2 ** 32 + view.getUint32(338, true),
+            version: view.getUint16(346, true),
+            codingHistory: body.length > 602 ? WavUtils.readText(body, 602, body.length - 602) : ''
+        };
+    }
+
+    /**
+     * Cue points and their adtl labels may arrive in either order; both share the cue ID
+     */
+    private static getCuePoint(metadata: WavMetadata, id: number): WavCuePoint {
+        let cue = metadata.cuePoints.find(point => point.id === id);
+        if (!cue) {
+            cue = { id, position: 0, length: null, label: null, note: null };
+            metadata.cuePoints.push(cue);
+        }
+        return cue;
+    }
+
+    private static readChunkId(data: Uint8Array, offset: number): string {
+        return String.fromCharCode(...data.subarray(offset, offset + 4));
+    }
+
+    /**
+     * Decode a fixed-size or zero-terminated text field
+     */
+    private static readText(data: Uint8Array, offset: number, length: number): string {
+        const field = data.subarray(offset, Math.min(offset + length, data.length));
+        const terminator = field.indexOf(0);
+        return new TextDecoder().decode(terminator >= 0 ? field.subarray(0, terminator) : field).trim();
+    }
+
     static getSampleAlignedChunkSize(header: WavHeader, maxChunkSize: number, availableDataSize: number): number {
         const frameSize = header.blockAlign;
         
@@ -191,4 +436,4 @@ class WavUtils {
     }
 }
 
-export { WavHeader, WavUtils };
\ No newline at end of file
+export { WavHeader, WavCuePoint, WavBroadcastExtension, WavMetadata, WavUtils };
\ No newline at end of file
@@ -53,6 +53,20 @@ var app = builder.Build();
 // Use forwarded headers before other middleware
 app.UseForwardedHeaders();
 
+// Cross-origin isolation gives the audio worklet SharedArrayBuffer for its ring buffer.
+// credentialless lets third-party resources (Google Fonts) load without CORP headers;
+// browsers that do not support it stay unisolated and use the buffer-source engine.
+var embedderPolicy = app.Configuration["CrossOriginIsolation:EmbedderPolicy"];
+if (!string.IsNullOrEmpty(embedderPolicy))
+{
+    app.Use(async (context, next) =>
+    {
+        context.Response.Headers["Cross-Origin-Opener-Policy"] = "same-origin";
+        context.Response.Headers["Cross-Origin-Embedder-Policy"] = embedderPolicy;
+        await next();
+    });
+}
+
 if (app.Environment.IsDevelopment())
 {
     app.UseWebAssemblyDebugging();
@@ -89,6 +103,16 @@ if (app.Environment.IsDevelopment())
     });
 }
 
+// Let the track Service Worker control the whole site so it sees /api/track requests
+app.Use(async (context, next) =>
+{
+    if (context.Request.Path.Equals("/js/audio/TrackServiceWorker.js"))
+    {
+        context.Response.Headers["Service-Worker-Allowed"] = "/";
+    }
+    await next();
+});
+
 app.MapStaticAssets();
 
 // Serve TypeScript source files for debugging in development
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioError, errorResult, getErrorCode } from '../Interop/audio/AudioError.js';
+import { StreamFetchError } from '../Interop/audio/StreamFetcher.js';
+
+describe('AudioError', () => {
+    describe('getErrorCode', () => {
+        it('keeps the code of an AudioError', () => {
+            assert.equal(getErrorCode(new AudioError('INVALID_HEADER', 'Bad header')), 'INVALID_HEADER');
+        });
+
+        it('maps stream transfer failures by kind', () => {
+            assert.equal(getErrorCode(new StreamFetchError('network', 'Connection reset')), 'NETWORK_ERROR');
+            assert.equal(getErrorCode(new StreamFetchError('http', 'Server error', 503)), 'HTTP_ERROR');
+            assert.equal(getErrorCode(new StreamFetchError('stalled', 'No data for 10s')), 'STALLED');
+        });
+
+        it('maps recognizable browser exceptions', () => {
+            assert.equal(getErrorCode(new DOMException('Aborted', 'AbortError')), 'ABORTED');
+            assert.equal(getErrorCode(new DOMException('Bad data', 'EncodingError')), 'DECODE_FAILED');
+        });
+
+        it('falls back for anything else', () => {
+            assert.equal(getErrorCode(new Error('Oops')), 'UNKNOWN');
+            assert.equal(getErrorCode(new Error('Oops'), 'DECODE_FAILED'), 'DECODE_FAILED');
+        });
+    });
+
+    it('builds failed results with the message and code', () => {
+        assert.deepEqual(errorResult(new StreamFetchError('http', 'Not found', 404)),
+            { success: false, error: 'Not found', code: 'HTTP_ERROR' });
+    });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BufferedRangeMap } from '../Interop/audio/BufferedRangeMap.js';
+import { createBuffer, createContextManager } from './support/FakeAudio.js';
+
+// Buffers run at 1000 Hz, so frames are milliseconds
+describe('BufferedRangeMap', () => {
+    let map: BufferedRangeMap;
+
+    beforeEach(() => {
+        map = new BufferedRangeMap(createContextManager());
+    });
+
+    describe('store', () => {
+        it('keeps separate ranges sorted by start', () => {
+            map.store(10, [createBuffer(1000)]);
+            map.store(2, [createBuffer(500), createBuffer(500)]);
+
+            assert.deepEqual(map.getRanges(), [{ start: 2, end: 3 }, { start: 10, end: 11 }]);
+        });
+
+        it('ignores an empty buffer list', () => {
+            map.store(0, []);
+            assert.deepEqual(map.getRanges(), []);
+        });
+
+        it('merges ranges that meet', () => {
+            map.store(0, [createBuffer(1000)]);
+            map.store(1.0005, [createBuffer(1000)]);
+
+            const ranges = map.getRanges();
+            assert.equal(ranges.length, 1);
+            assert.equal(ranges[0].start, 0);
+            assert.equal(map.find(0)!.buffers.length, 2);
+        });
+
+        it('trims the overlapping start of a later range', () => {
+            map.store(0, [createBuffer(1000)]);
+            map.store(0.5, [createBuffer(1000, 1000, 500)]);
+
+            const range = map.find(0)!;
+            assert.equal(range.start, 0);
+            assert.equal(range.duration, 1.5);
+            assert.equal(range.buffers.length, 2);
+            // The later buffer continues exactly where the earlier one ended
+            assert.equal(range.buffers[1].getChannelData(0)[0], 1000);
+            assert.equal(range.buffers[1].length, 500);
+        });
+
+        it('joins an earlier range stored after a later one', () => {
+            map.store(1, [createBuffer(1000, 1000, 1000)], true);
+            map.store(0, [createBuffer(1500)]);
+
+            const range = map.find(0)!;
+            assert.equal(range.duration, 2);
+            assert.equal(range.final, true);
+            assert.equal(range.buffers[1].getChannelData(0)[0], 1500);
+        });
+
+        it('keeps a range that already covers the new one, adopting its final flag', () => {
+            map.store(0, [createBuffer(2000)]);
+            map.store(0.5, [createBuffer(500)], true);
+
+            assert.deepEqual(map.getRanges(), [{ start: 0, end: 2 }]);
+            assert.equal(map.find(0)!.final, true);
+        });
+
+        it('bridges two ranges with one that overlaps both', () => {
+            map.store(0, [createBuffer(1000)]);
+            map.store(2, [createBuffer(1000)]);
+            map.store(0.5, [createBuffer(2000)]);
+
+            assert.deepEqual(map.getRanges(), [{ start: 0, end: 3 }]);
+        });
+    });
+
+    describe('find and take', () => {
+        it('finds the range containing a position, end exclusive', () => {
+            map.store(1, [createBuffer(1000)]);
+
+            assert.equal(map.find(0.999), null);
+            assert.equal(map.find(1)?.start, 1);
+            assert.equal(map.find(2), null);
+        });
+
+        it('removes the range it takes', () => {
+            map.store(1, [createBuffer(1000)]);
+            map.store(5, [createBuffer(1000)]);
+
+            assert.equal(map.take(1.5)?.start, 1);
+            assert.deepEqual(map.getRanges(), [{ start: 5, end: 6 }]);
+            assert.equal(map.take(1.5), null);
+        });
+    });
+
+    describe('takeReached', () => {
+        it('drops ranges the active range covers and returns nothing beyond it', () => {
+            map.store(2, [createBuffer(500)]);
+            map.store(10, [createBuffer(1000)]);
+
+            assert.equal(map.takeReached(1, 3), null);
+            assert.deepEqual(map.getRanges(), [{ start: 10, end: 11 }]);
+        });
+
+        it('returns the audio beyond the end, trimmed to start there', () => {
+            map.store(2, [createBuffer(2000)], true);
+
+            const beyond = map.takeReached(1, 3)!;
+            assert.equal(beyond.start, 3);
+            assert.equal(beyond.duration, 1);
+            assert.equal(beyond.final, true);
+            assert.equal(beyond.buffers[0].getChannelData(0)[0], 1000);
+            assert.deepEqual(map.getRanges(), []);
+        });
+
+        it('leaves ranges starting outside the span', () => {
+            map.store(5, [createBuffer(1000)]);
+
+            assert.equal(map.takeReached(1, 3), null);
+            assert.deepEqual(map.getRanges(), [{ start: 5, end: 6 }]);
+        });
+    });
+
+    describe('markFinal and releaseBefore', () => {
+        it('marks the range ending at a time as final', () => {
+            map.store(0, [createBuffer(1000)]);
+            map.store(5, [createBuffer(1000)]);
+
+            map.markFinal(6);
+            assert.equal(map.find(0)!.final, false);
+            assert.equal(map.find(5)!.final, true);
+        });
+
+        it('releases whole buffers ending before a position and drops emptied ranges', () => {
+            map.store(0, [createBuffer(500)]);
+            map.store(2, [createBuffer(500), createBuffer(500), createBuffer(500)]);
+
+            map.releaseBefore(3.2);
+            assert.deepEqual(map.getRanges(), [{ start: 3, end: 3.5 }]);
+        });
+
+        it('clears all ranges', () => {
+            map.store(0, [createBuffer(500)]);
+            map.clear();
+            assert.deepEqual(map.getRanges(), []);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoudnessMeter } from '../Interop/audio/LoudnessMeter.js';
+import { FakeAudioBuffer } from './support/FakeAudio.js';
+
+function sine(dbfs: number, seconds: number, sampleRate: number, frequency: number = 997): Float32Array {
+    const amplitude = Math.pow(10, dbfs / 20);
+    return new Float32Array(Math.round(seconds * sampleRate))
+        .map((_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+    const joined = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        joined.set(part, offset);
+        offset += part.length;
+    }
+    return joined;
+}
+
+function buffer(channels: Float32Array[], sampleRate: number): AudioBuffer {
+    return new FakeAudioBuffer(channels, sampleRate) as unknown as AudioBuffer;
+}
+
+function measure(channels: Float32Array[], sampleRate: number = 48000): LoudnessMeter {
+    const meter = new LoudnessMeter();
+    meter.addBuffer(buffer(channels, sampleRate));
+    return meter;
+}
+
+describe('LoudnessMeter', () => {
+    it('has no estimate before the first 400 ms block', () => {
+        const tone = sine(-23, 0.39, 48000);
+        assert.equal(measure([tone, tone]).getIntegratedLoudness(), null);
+    });
+
+    it('reads a stereo 997 Hz sine at -23 dBFS as -23 LUFS (EBU Tech 3341)', () => {
+        const tone = sine(-23, 5, 48000);
+        const loudness = measure([tone, tone]).getIntegratedLoudness()!;
+        assert.ok(Math.abs(loudness - -23) < 0.1, `${loudness}`);
+    });
+
+    it('derives the K-weighting for other sample rates', () => {
+        const tone = sine(-23, 5, 44100);
+        const loudness = measure([tone, tone], 44100).getIntegratedLoudness()!;
+        assert.ok(Math.abs(loudness - -23) < 0.1, `${loudness}`);
+    });
+
+    it('sums channel energies', () => {
+        const tone = sine(-23, 5, 48000);
+        const loudness = measure([tone]).getIntegratedLoudness()!;
+        assert.ok(Math.abs(loudness - -26.01) < 0.1, `${loudness}`);
+    });
+
+    it('weights high frequencies up and low frequencies down', () => {
+        const high = measure([sine(-23, 5, 48000, 8000)]).getIntegratedLoudness()!;
+        const low = measure([sine(-23, 5, 48000, 40)]).getIntegratedLoudness()!;
+        assert.ok(high > -26.01 + 3, `${high}`);
+        assert.ok(low < -26.01 - 0.5, `${low}`);
+    });
+
+    it('ignores silence below the absolute gate', () => {
+        const tone = concat(sine(-23, 3, 48000), new Float32Array(3 * 48000));
+        const meter = measure([tone, tone]);
+
+        // Blocks straddling the end of the tone pass the gate at a fraction of its energy
+        assert.ok(Math.abs(meter.getIntegratedLoudness()! - -23) < 0.3, `${meter.getIntegratedLoudness()}`);
+        assert.ok(meter.getMeasuredSeconds() >= 2.5 && meter.getMeasuredSeconds() <= 3.5, `${meter.getMeasuredSeconds()}`);
+        assert.equal(measure([new Float32Array(48000)]).getIntegratedLoudness(), null);
+    });
+
+    it('drops blocks more than 10 LU below the ungated level', () => {
+        const tone = concat(sine(-20, 3, 48000), sine(-40, 3, 48000));
+        const loudness = measure([tone, tone]).getIntegratedLoudness()!;
+        assert.ok(Math.abs(loudness - -20) < 0.5, `${loudness}`);
+    });
+
+    it('skips the LFE channel of 5.1 and weights the surrounds up', () => {
+        const tone = sine(-23, 2, 48000);
+        const silence = new Float32Array(tone.length);
+
+        assert.equal(measure([silence, silence, silence, tone, silence, silence]).getIntegratedLoudness(), null);
+
+        const front = measure([tone, silence, silence, silence, silence, silence]).getIntegratedLoudness()!;
+        const surround = measure([silence, silence, silence, silence, tone, silence]).getIntegratedLoudness()!;
+        assert.ok(Math.abs(surround - front - 10 * Math.log10(1.41)) < 0.01, `${surround - front}`);
+    });
+
+    it('measures buffers as one continuous signal', () => {
+        const tone = sine(-18, 3, 48000, 440);
+        const whole = measure([tone]).getIntegratedLoudness()!;
+
+        const pieces = new LoudnessMeter();
+        for (let start = 0; start < tone.length; start += 1234) {
+            pieces.addBuffer(buffer([tone.subarray(start, start + 1234)], 48000));
+        }
+        assert.ok(Math.abs(pieces.getIntegratedLoudness()! - whole) < 1e-9);
+    });
+
+    it('starts over on reset and on a new sample rate', () => {
+        const meter = measure([sine(-23, 1, 48000)]);
+        meter.reset();
+        assert.equal(meter.getIntegratedLoudness(), null);
+
+        meter.addBuffer(buffer([sine(-10, 1, 48000)], 48000));
+        meter.addBuffer(buffer([sine(-30, 3, 44100)], 44100));
+        const loudness = meter.getIntegratedLoudness()!;
+        assert.ok(Math.abs(loudness - -33.01) < 0.1, `${loudness}`);
+    });
+});
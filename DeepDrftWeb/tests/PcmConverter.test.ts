@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PcmConverter, PcmFormat } from '../Interop/audio/PcmConverter.js';
+
+function format(bitsPerSample: number, channels: number = 1, audioFormat: number = 1): PcmFormat {
+    return { audioFormat, bitsPerSample, channels, blockAlign: channels * bitsPerSample / 8 };
+}
+
+function samples(bytes: number[]): Uint8Array {
+    return new Uint8Array(bytes);
+}
+
+describe('PcmConverter', () => {
+    describe('canConvert', () => {
+        it('accepts integer PCM at 8, 16, 24 and 32 bits and 32-bit float', () => {
+            for (const bits of [8, 16, 24, 32]) {
+                assert.equal(PcmConverter.canConvert(format(bits, 2)), true, `${bits}-bit`);
+            }
+            assert.equal(PcmConverter.canConvert(format(32, 2, 3)), true);
+        });
+
+        it('rejects other formats and inconsistent layouts', () => {
+            assert.equal(PcmConverter.canConvert(format(12)), false);
+            assert.equal(PcmConverter.canConvert(format(64, 1, 3)), false);
+            assert.equal(PcmConverter.canConvert(format(16, 1, 2)), false);
+            assert.equal(PcmConverter.canConvert(format(16, 0)), false);
+            assert.equal(PcmConverter.canConvert({ ...format(16, 2), blockAlign: 2 }), false);
+        });
+    });
+
+    describe('convert', () => {
+        it('centres unsigned 8-bit samples on 128', () => {
+            const { channels } = PcmConverter.convert(samples([0, 128, 255]), format(8));
+            assert.deepEqual(Array.from(channels[0]), [-1, 0, 127 / 128]);
+        });
+
+        it('scales signed 16-bit little-endian samples', () => {
+            const { channels } = PcmConverter.convert(samples([0x00, 0x80, 0x00, 0x00, 0xff, 0x7f]), format(16));
+            assert.deepEqual(Array.from(channels[0]), [-1, 0, 32767 / 32768]);
+        });
+
+        it('sign-extends 24-bit samples', () => {
+            const { channels } = PcmConverter.convert(samples([0x00, 0x00, 0x80, 0xff, 0xff, 0xff, 0x00, 0x00, 0x40]), format(24));
+            assert.deepEqual(Array.from(channels[0]), [-1, -1 / 8388608, 0.5]);
+        });
+
+        it('scales signed 32-bit samples', () => {
+            const { channels } = PcmConverter.convert(samples([0x00, 0x00, 0x00, 0x80, 0x00, 0x00, 0x00, 0xc0]), format(32));
+            assert.deepEqual(Array.from(channels[0]), [-1, -0.5]);
+        });
+
+        it('passes float samples through', () => {
+            const data = new Uint8Array(new Float32Array([0.25, -0.75]).buffer);
+            const { channels } = PcmConverter.convert(data, format(32, 1, 3));
+            assert.deepEqual(Array.from(channels[0]), [0.25, -0.75]);
+        });
+
+        it('de-interleaves channels and drops a trailing partial frame', () => {
+            // Two stereo frames (L, R) and one stray byte
+            const data = samples([0x00, 0x40, 0x00, 0xc0, 0x00, 0x20, 0x00, 0xe0, 0x01]);
+            const { channels, frames } = PcmConverter.convert(data, format(16, 2));
+
+            assert.equal(frames, 2);
+            assert.deepEqual(Array.from(channels[0]), [0.5, 0.25]);
+            assert.deepEqual(Array.from(channels[1]), [-0.5, -0.25]);
+        });
+
+        it('honours padding in the block alignment', () => {
+            // 16-bit mono in 4-byte blocks
+            const data = samples([0x00, 0x40, 0xaa, 0xaa, 0x00, 0xc0, 0xaa, 0xaa]);
+            const { channels } = PcmConverter.convert(data, { ...format(16), blockAlign: 4 });
+            assert.deepEqual(Array.from(channels[0]), [0.5, -0.5]);
+        });
+
+        it('reads from a view into a larger buffer', () => {
+            const backing = samples([0xff, 0xff, 0x00, 0x40, 0xff]);
+            const { channels } = PcmConverter.convert(backing.subarray(2, 4), format(16));
+            assert.deepEqual(Array.from(channels[0]), [0.5]);
+        });
+
+        it('throws for formats it cannot convert', () => {
+            assert.throws(() => PcmConverter.convert(samples([0, 0]), format(12)), /Unsupported PCM format/);
+        });
+    });
+});
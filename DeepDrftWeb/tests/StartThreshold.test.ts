@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StartThreshold, StartThresholdInput } from '../Interop/audio/StartThreshold.js';
+
+function input(overrides: Partial<StartThresholdInput>): StartThresholdInput {
+    return { bufferedSeconds: 1, remainingSeconds: 60, remainingBytes: 1_000_000, streamComplete: false, ...overrides };
+}
+
+/**
+ * Threshold that has seen chunks of the given size at a steady interval
+ */
+function withArrivals(bytesPerChunk: number, intervalMs: number, count: number, safetyMargin: number = 2): StartThreshold {
+    const threshold = new StartThreshold(safetyMargin);
+    for (let i = 0; i < count; i++) {
+        threshold.recordChunk(bytesPerChunk, i * intervalMs);
+    }
+    return threshold;
+}
+
+describe('StartThreshold', () => {
+    describe('getArrivalRate', () => {
+        it('is unknown until two chunks have arrived', () => {
+            const threshold = new StartThreshold();
+            assert.equal(threshold.getArrivalRate(), null);
+
+            threshold.recordChunk(1000, 0);
+            assert.equal(threshold.getArrivalRate(), null);
+        });
+
+        it('counts the bytes after the first chunk over the elapsed time', () => {
+            // 4 chunks of 1000 bytes, 100ms apart: 3000 bytes in 0.3s
+            const threshold = withArrivals(1000, 100, 4);
+            assert.equal(threshold.getArrivalRate(), 10_000);
+        });
+
+        it('only measures the recent window', () => {
+            const threshold = new StartThreshold();
+            threshold.recordChunk(1_000_000, 0);
+            threshold.recordChunk(1_000_000, 100);
+            for (let time = 1000; time <= 10_000; time += 1000) {
+                threshold.recordChunk(1000, time);
+            }
+
+            // The burst at the start has left the 5s window
+            assert.equal(threshold.getArrivalRate(), 1000);
+        });
+
+        it('is infinite when chunks arrive at the same instant', () => {
+            const threshold = withArrivals(1000, 0, 2);
+            assert.equal(threshold.getArrivalRate(), Infinity);
+        });
+    });
+
+    describe('canStart', () => {
+        it('never starts without buffered audio', () => {
+            const threshold = withArrivals(1_000_000, 10, 5);
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 0, streamComplete: true })), false);
+        });
+
+        it('starts once the stream is complete or fully received', () => {
+            const threshold = new StartThreshold();
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 0.1, streamComplete: true })), true);
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 0.1, remainingBytes: 0 })), true);
+        });
+
+        it('waits for the minimum buffer', () => {
+            const threshold = withArrivals(1_000_000, 10, 5);
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 0.4 })), false);
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 0.5 })), true);
+        });
+
+        it('starts when the rest downloads within the remaining playback time minus the margin', () => {
+            // 10 kB/s: 500 kB takes 50s, plus the 2s margin
+            const threshold = withArrivals(1000, 100, 4);
+            assert.equal(threshold.canStart(input({ remainingBytes: 500_000, remainingSeconds: 52 })), true);
+            assert.equal(threshold.canStart(input({ remainingBytes: 500_000, remainingSeconds: 51.9 })), false);
+        });
+
+        it('waits for an arrival rate', () => {
+            const threshold = withArrivals(1000, 100, 1);
+            assert.equal(threshold.canStart(input({ bufferedSeconds: 30 })), false);
+        });
+
+        it('falls back to the safety margin when the duration is unknown', () => {
+            const threshold = new StartThreshold(2);
+            assert.equal(threshold.canStart(input({ remainingSeconds: 0, bufferedSeconds: 2.4 })), false);
+            assert.equal(threshold.canStart(input({ remainingSeconds: 0, bufferedSeconds: 2.5 })), true);
+        });
+
+        it('uses the updated safety margin and forgets arrivals on reset', () => {
+            const threshold = withArrivals(1000, 100, 4);
+            threshold.setSafetyMargin(5);
+            assert.equal(threshold.getSafetyMargin(), 5);
+            assert.equal(threshold.canStart(input({ remainingBytes: 500_000, remainingSeconds: 54 })), false);
+
+            threshold.reset();
+            assert.equal(threshold.getArrivalRate(), null);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamDecoder } from '../Interop/audio/StreamDecoder.js';
+import { PcmDecoder } from '../Interop/audio/PcmDecoder.js';
+import { configureLogging } from '../Interop/audio/Logger.js';
+import { createContextManager } from './support/FakeAudio.js';
+import { createChunk, createFormatChunk, createRiff } from './support/WavFixtures.js';
+
+configureLogging({ level: 'error' });
+
+const SAMPLE_RATE = 1000;
+const FRAMES = 2000;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+/**
+ * Stereo float samples: left counts up, right counts down
+ */
+function createFloatData(): Uint8Array {
+    const samples = new Float32Array(FRAMES * 2);
+    for (let frame = 0; frame < FRAMES; frame++) {
+        samples[frame * 2] = frame / FRAMES;
+        samples[frame * 2 + 1] = -frame / FRAMES;
+    }
+    return new Uint8Array(samples.buffer);
+}
+
+function createFloatWav(data: Uint8Array, extensible: boolean): Uint8Array {
+    const format = createFormatChunk({
+        formatTag: extensible ? WAVE_FORMAT_EXTENSIBLE : WAVE_FORMAT_IEEE_FLOAT,
+        channels: 2,
+        sampleRate: SAMPLE_RATE,
+        blockAlign: 8,
+        bitsPerSample: 32,
+        extensible: extensible ? { validBitsPerSample: 32, channelMask: 3, subFormat: WAVE_FORMAT_IEEE_FLOAT } : undefined
+    });
+    return createRiff([format, createChunk('data', data)]);
+}
+
+/**
+ * Offset stream behind a plain PCM header, as servers that drop the format tag send it
+ */
+function createPcmLabelledStream(data: Uint8Array): Uint8Array {
+    const format = createFormatChunk({ formatTag: 1, channels: 2, sampleRate: SAMPLE_RATE, blockAlign: 8, bitsPerSample: 32 });
+    return createRiff([format, createChunk('data', data)]);
+}
+
+describe('StreamDecoder', () => {
+    before(() => {
+        // Decode timeouts are armed on window
+        Object.assign(globalThis, { window: globalThis });
+    });
+
+    for (const extensible of [false, true]) {
+        describe(`seeking a ${extensible ? 'WAVE_FORMAT_EXTENSIBLE ' : ''}float WAV beyond the buffer`, () => {
+            const data = createFloatData();
+
+            async function decodeFrom(offsetStream: (remaining: Uint8Array) => Uint8Array) {
+                const decoder = new StreamDecoder(createContextManager(), new PcmDecoder());
+                const file = createFloatWav(data, extensible);
+                const head = file.subarray(0, file.length / 4);
+                decoder.initialize(file.length, false);
+                await decoder.processChunk(head);
+
+                const offset = decoder.calculateByteOffset(1);
+                const stream = offsetStream(data.subarray(offset));
+                decoder.reinitializeForOffset(stream.length);
+                const result = await decoder.processChunk(stream);
+                return { decoder, offset, result };
+            }
+
+            it('keeps the float format when the offset header says PCM', async () => {
+                const { decoder, offset, result } = await decodeFrom(createPcmLabelledStream);
+
+                assert.equal(offset, 1000 * 8);
+                assert.equal(decoder.getWavHeader()?.audioFormat, WAVE_FORMAT_IEEE_FLOAT);
+                assert.equal(decoder.getWavHeader()?.formatTag, extensible ? WAVE_FORMAT_EXTENSIBLE : WAVE_FORMAT_IEEE_FLOAT);
+                assert.ok(result);
+                assert.equal(result.buffer.length, 1000);
+                assert.equal(result.buffer.getChannelData(0)[0], 0.5);
+                assert.equal(result.buffer.getChannelData(1)[999], Math.fround(-1999 / 2000));
+            });
+
+            it('decodes an offset stream that carries the track format', async () => {
+                const { decoder, result } = await decodeFrom(remaining => createFloatWav(remaining, extensible));
+
+                assert.equal(decoder.getWavHeader()?.dataSize, 1000 * 8);
+                assert.ok(result);
+                assert.equal(result.buffer.getChannelData(0)[0], 0.5);
+                assert.equal(result.buffer.getChannelData(1)[999], Math.fround(-1999 / 2000));
+            });
+        });
+    }
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { TrackChunkCache } from '../Interop/audio/TrackChunkCache.js';
+import { configureLogging } from '../Interop/audio/Logger.js';
+
+configureLogging({ level: 'error' });
+globalThis.IDBKeyRange = IDBKeyRange;
+
+function bytes(length: number, first: number = 0): Uint8Array {
+    return new Uint8Array(length).map((_, i) => (first + i) & 0xff);
+}
+
+describe('TrackChunkCache', () => {
+    let cache: TrackChunkCache;
+    let clock: number;
+
+    beforeEach(() => {
+        // Fresh database per test; a steady clock orders the LRU
+        globalThis.indexedDB = new IDBFactory();
+        clock = 1000;
+        mock.method(Date, 'now', () => clock++);
+        cache = new TrackChunkCache(10_000);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    async function cachedBytes(entryKey: string): Promise<number | undefined> {
+        return (await cache.listTracks()).find(track => track.entryKey === entryKey)?.cachedBytes;
+    }
+
+    describe('chunks', () => {
+        it('reads stored bytes from any offset inside a chunk', async () => {
+            await cache.put('a', 100, bytes(200, 100), 1000);
+
+            assert.deepEqual(await cache.read('a', 150, 20), bytes(20, 150));
+            assert.deepEqual(await cache.read('a', 250, 1000), bytes(50, 250));
+            assert.equal(await cache.read('a', 50, 10), null);
+            assert.equal(await cache.read('a', 300, 10), null);
+            assert.equal(await cache.read('b', 150, 10), null);
+        });
+
+        it('merges adjacent and overlapping chunks into ranges', async () => {
+            await cache.put('a', 0, bytes(100), 1000);
+            await cache.put('a', 100, bytes(100), 1000);
+            await cache.put('a', 150, bytes(100), 1000);
+            await cache.put('a', 500, bytes(100), 1000);
+
+            assert.deepEqual(await cache.getRanges('a'), {
+                totalLength: 1000,
+                ranges: [{ start: 0, end: 250 }, { start: 500, end: 600 }]
+            });
+            assert.equal(await cache.getRanges('b'), null);
+        });
+
+        it('ignores empty chunks', async () => {
+            await cache.put('a', 0, new Uint8Array(0), 1000);
+            assert.equal(await cache.getRanges('a'), null);
+        });
+
+        it('drops the old chunks when the track length changes', async () => {
+            await cache.put('a', 0, bytes(100), 1000);
+            await cache.put('a', 500, bytes(100), 2000);
+
+            assert.deepEqual(await cache.getRanges('a'), { totalLength: 2000, ranges: [{ start: 500, end: 600 }] });
+            assert.equal(await cachedBytes('a'), 100);
+        });
+    });
+
+    describe('size accounting', () => {
+        it('counts each byte of a track once', async () => {
+            await cache.put('a', 0, bytes(1000), 5000);
+            await cache.put('a', 0, bytes(1000), 5000);
+            assert.equal(await cachedBytes('a'), 1000);
+
+            // Overlaps the end of the first chunk after a seek
+            await cache.put('a', 500, bytes(1000), 5000);
+            assert.equal(await cachedBytes('a'), 1500);
+
+            // Covers a gap between two ranges and both their edges
+            await cache.put('a', 3000, bytes(500), 5000);
+            await cache.put('a', 1400, bytes(1700), 5000);
+            assert.equal(await cachedBytes('a'), 3500);
+        });
+
+        it('reports complete tracks', async () => {
+            await cache.put('a', 0, bytes(600), 1000);
+            assert.equal((await cache.listTracks())[0].complete, false);
+
+            await cache.put('a', 600, bytes(400), 1000);
+            assert.equal((await cache.listTracks())[0].complete, true);
+        });
+    });
+
+    describe('eviction', () => {
+        it('evicts the least recently used tracks over the cap, keeping the one being written', async () => {
+            await cache.put('a', 0, bytes(4000), 4000);
+            await cache.put('b', 0, bytes(4000), 4000);
+            await cache.getRanges('a');
+            await cache.put('c', 0, bytes(4000), 4000);
+
+            const keys = (await cache.listTracks()).map(track => track.entryKey).sort();
+            assert.deepEqual(keys, ['a', 'c']);
+        });
+
+        it('does not count overlapping writes towards the cap', async () => {
+            await cache.put('a', 0, bytes(6000), 6000);
+            await cache.put('b', 0, bytes(3000), 6000);
+            await cache.put('b', 0, bytes(3000), 6000);
+            await cache.put('b', 1000, bytes(2000), 6000);
+
+            const keys = (await cache.listTracks()).map(track => track.entryKey).sort();
+            assert.deepEqual(keys, ['a', 'b']);
+        });
+
+        it('keeps pinned tracks and enforces the cap when they are unpinned', async () => {
+            await cache.put('a', 0, bytes(6000), 6000);
+            assert.equal(await cache.pin('a', true), true);
+            await cache.put('b', 0, bytes(6000), 6000);
+            assert.equal((await cache.listTracks()).length, 2);
+
+            await cache.pin('a', false);
+            assert.deepEqual((await cache.listTracks()).map(track => track.entryKey), ['b']);
+            assert.equal(await cache.pin('missing', true), false);
+        });
+
+        it('evicts down to a lowered cap', async () => {
+            await cache.put('a', 0, bytes(3000), 3000);
+            await cache.put('b', 0, bytes(3000), 3000);
+
+            await cache.setMaxBytes(4000);
+            assert.equal(cache.getMaxBytes(), 4000);
+            assert.deepEqual((await cache.listTracks()).map(track => track.entryKey), ['b']);
+        });
+
+        it('evicts a track with its chunks', async () => {
+            await cache.put('a', 0, bytes(100), 100);
+            await cache.evict('a');
+
+            assert.equal(await cache.read('a', 0, 100), null);
+            assert.deepEqual(await cache.listTracks(), []);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { TrackResponseCache } from '../Interop/audio/TrackResponseCache.js';
+import { WavUtils } from '../Interop/wavutils.js';
+import { MemoryCacheStorage } from './support/MemoryCacheStorage.js';
+import { StubTrackServer } from './support/StubTrackServer.js';
+import { createWav } from './support/WavFixtures.js';
+
+describe('TrackResponseCache', () => {
+    const server = new StubTrackServer();
+    let caches: MemoryCacheStorage;
+    let trackCache: TrackResponseCache;
+
+    before(() => server.start());
+    after(() => server.stop());
+
+    beforeEach(() => {
+        caches = new MemoryCacheStorage();
+        trackCache = new TrackResponseCache(caches.asCacheStorage(), `${server.origin}/`, 2);
+        server.requests = [];
+    });
+
+    /**
+     * Run a request through the cache and wait for any cache write it started
+     */
+    async function fetchThrough(request: Request, online: boolean = true): Promise<{ response: Response; body: Uint8Array }> {
+        const pending: Promise<unknown>[] = [];
+        const response = await trackCache.handle(request, online, promise => pending.push(promise));
+        const body = new Uint8Array(await response.arrayBuffer());
+        await Promise.all(pending);
+        return { response, body };
+    }
+
+    async function cacheTrack(file: Uint8Array = createWav()): Promise<string> {
+        const url = server.addTrack(randomUUID(), file);
+        await fetchThrough(new Request(url));
+        return url;
+    }
+
+    describe('getTrackId', () => {
+        it('accepts content API track requests', () => {
+            const trackId = randomUUID();
+            assert.equal(trackCache.getTrackId(new Request(`${server.origin}/api/track/${trackId}?offset=10`)), trackId);
+        });
+
+        it('ignores the track listing, other origins and other methods', () => {
+            const trackId = randomUUID();
+            assert.equal(trackCache.getTrackId(new Request(`${server.origin}/api/track/page?pageNumber=1&pageSize=10`)), null);
+            assert.equal(trackCache.getTrackId(new Request(`http://localhost:1/api/track/${trackId}`)), null);
+            assert.equal(trackCache.getTrackId(new Request(`${server.origin}/api/track/${trackId}`, { method: 'PUT', body: '' })), null);
+        });
+    });
+
+    describe('handle', () => {
+        it('streams a full file to the page and into the cache', async () => {
+            const file = createWav();
+            const url = server.addTrack(randomUUID(), file);
+
+            const { response, body } = await fetchThrough(new Request(url));
+
+            assert.equal(response.status, 200);
+            assert.deepEqual(body, file);
+            const cached = await trackCache.match(new Request(url));
+            assert.ok(cached);
+            assert.deepEqual(new Uint8Array(await cached.arrayBuffer()), file);
+        });
+
+        it('does not cache offset, range or other query responses', async () => {
+            const url = server.addTrack(randomUUID(), createWav());
+
+            await fetchThrough(new Request(`${url}?offset=400`));
+            await fetchThrough(new Request(url, { headers: { Range: 'bytes=0-99' } }));
+            await fetchThrough(new Request(`${url}?version=2`));
+
+            assert.equal(await trackCache.match(new Request(url)), null);
+        });
+
+        it('answers from the cache without touching the network when offline', async () => {
+            const file = createWav();
+            const url = await cacheTrack(file);
+            server.requests = [];
+
+            const { response, body } = await fetchThrough(new Request(url), false);
+
+            assert.equal(response.status, 200);
+            assert.deepEqual(body, file);
+            assert.deepEqual(server.requests, []);
+        });
+
+        it('falls back to the cache when the network request fails', async () => {
+            const file = createWav();
+            const url = await cacheTrack(file);
+            const unreachable = new TrackResponseCache(caches.asCacheStorage(), `${server.origin}/`, 2);
+            const originalFetch = globalThis.fetch;
+            globalThis.fetch = () => Promise.reject(new TypeError('Failed to fetch'));
+            try {
+                const response = await unreachable.handle(new Request(url), true, () => undefined);
+                assert.deepEqual(new Uint8Array(await response.arrayBuffer()), file);
+            } finally {
+                globalThis.fetch = originalFetch;
+            }
+        });
+    });
+
+    describe('match', () => {
+        it('builds the offset response the server would send', async () => {
+            const file = createWav({ channels: 2, bitsPerSample: 16, frames: 1000 });
+            const url = await cacheTrack(file);
+
+            // 401 is not block aligned; the slice starts at byte 400 of the data
+            const response = await trackCache.match(new Request(`${url}?offset=401`));
+            assert.ok(response);
+            assert.equal(response.status, 200);
+
+            const body = new Uint8Array(await response.arrayBuffer());
+            const header = WavUtils.parseHeader([body], body.length);
+            assert.ok(header);
+            assert.equal(header.dataSize, 4000 - 400);
+            assert.equal(body.length, header.headerSize + header.dataSize);
+            assert.deepEqual(body.subarray(header.headerSize), file.subarray(44 + 400));
+        });
+
+        it('serves non-WAV offsets as the file bytes from that position', async () => {
+            const file = new Uint8Array(500).map((_, i) => i & 0xff);
+            file.set(new TextEncoder().encode('fLaC'));
+            const url = await cacheTrack(file);
+
+            const response = await trackCache.match(new Request(`${url}?offset=123`));
+            assert.equal(response?.status, 200);
+            assert.deepEqual(new Uint8Array(await response!.arrayBuffer()), file.subarray(123));
+
+            const past = await trackCache.match(new Request(`${url}?offset=500`));
+            assert.equal(past?.status, 400);
+        });
+
+        it('rejects offsets past the audio data', async () => {
+            const url = await cacheTrack(createWav({ frames: 10 }));
+
+            const response = await trackCache.match(new Request(`${url}?offset=40`));
+            assert.equal(response?.status, 400);
+        });
+
+        it('slices byte ranges', async () => {
+            const file = createWav();
+            const url = await cacheTrack(file);
+
+            const response = await trackCache.match(new Request(url, { headers: { Range: 'bytes=100-199' } }));
+            assert.ok(response);
+            assert.equal(response.status, 206);
+            assert.equal(response.headers.get('Content-Range'), `bytes 100-199/${file.length}`);
+            assert.deepEqual(new Uint8Array(await response.arrayBuffer()), file.subarray(100, 200));
+
+            const suffix = await trackCache.match(new Request(url, { headers: { Range: 'bytes=-10' } }));
+            assert.deepEqual(new Uint8Array(await suffix!.arrayBuffer()), file.subarray(file.length - 10));
+        });
+
+        it('rejects unsatisfiable ranges', async () => {
+            const file = createWav();
+            const url = await cacheTrack(file);
+
+            const response = await trackCache.match(new Request(url, { headers: { Range: `bytes=${file.length}-` } }));
+            assert.equal(response?.status, 416);
+            assert.equal(response?.headers.get('Content-Range'), `bytes */${file.length}`);
+        });
+
+        it('does not answer queries other than offset from the file', async () => {
+            const url = await cacheTrack();
+
+            assert.equal(await trackCache.match(new Request(`${url}?version=2`)), null);
+        });
+    });
+
+    describe('eviction', () => {
+        it('drops the oldest files over the track limit', async () => {
+            const first = await cacheTrack();
+            const second = await cacheTrack();
+            const third = await cacheTrack();
+
+            assert.equal(await trackCache.match(new Request(first)), null);
+            assert.ok(await trackCache.match(new Request(second)));
+            assert.ok(await trackCache.match(new Request(third)));
+        });
+
+        it('evicts a track by ID and clears everything', async () => {
+            const first = await cacheTrack();
+            const second = await cacheTrack();
+
+            assert.equal(await trackCache.evict(new URL(first).pathname.split('/').pop()!), true);
+            assert.equal(await trackCache.match(new Request(first)), null);
+            assert.ok(await trackCache.match(new Request(second)));
+
+            assert.equal(await trackCache.clear(), true);
+            assert.equal(await trackCache.match(new Request(second)), null);
+        });
+    });
+});
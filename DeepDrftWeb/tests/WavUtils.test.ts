@@ -0,0 +1,187 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WavUtils } from '../Interop/wavutils.js';
+import { configureLogging } from '../Interop/audio/Logger.js';
+import { createChunk, createData, createFormatChunk, createRiff, createWav } from './support/WavFixtures.js';
+
+// Rejected files log a warning; keep the test output clean
+configureLogging({ level: 'error' });
+
+function parse(file: Uint8Array) {
+    return WavUtils.parseHeader([file], file.length);
+}
+
+function concat(header: Uint8Array, data: Uint8Array): Uint8Array {
+    const file = new Uint8Array(header.length + data.length);
+    file.set(header);
+    file.set(data, header.length);
+    return file;
+}
+
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+describe('WavUtils', () => {
+    describe('parseHeader', () => {
+        it('reads a PCM header', () => {
+            const header = parse(createWav({ channels: 2, sampleRate: 48000, bitsPerSample: 16, frames: 100 }));
+
+            assert.deepEqual(header, {
+                audioFormat: 1,
+                formatTag: 1,
+                sampleRate: 48000,
+                channels: 2,
+                bitsPerSample: 16,
+                validBitsPerSample: 16,
+                channelMask: 0,
+                byteRate: 192000,
+                blockAlign: 4,
+                dataSize: 400,
+                headerSize: 44
+            });
+        });
+
+        it('accepts header bytes split across chunks', () => {
+            const file = createWav();
+            const header = WavUtils.parseHeader([file.subarray(0, 20), file.subarray(20, 60)], 60);
+            assert.equal(header?.headerSize, 44);
+        });
+
+        it('skips chunks before the data, including the pad byte of odd sizes', () => {
+            const list = createChunk('LIST', new Uint8Array(7));
+            const header = parse(createWav({ chunksBeforeData: [list] }));
+
+            assert.equal(header?.headerSize, 44 + 16);
+        });
+
+        it('accepts IEEE float and rejects other formats', () => {
+            const float = createRiff([
+                createFormatChunk({ formatTag: 3, channels: 1, sampleRate: 44100, blockAlign: 4, bitsPerSample: 32 }),
+                createChunk('data', createData(40))
+            ]);
+            const adpcm = createRiff([
+                createFormatChunk({ formatTag: 2, channels: 1, sampleRate: 44100, blockAlign: 4, bitsPerSample: 4 }),
+                createChunk('data', createData(40))
+            ]);
+
+            assert.equal(parse(float)?.audioFormat, 3);
+            assert.equal(parse(adpcm), null);
+        });
+
+        it('reads the sample format, precision and speaker mask of WAVE_FORMAT_EXTENSIBLE', () => {
+            const file = createRiff([
+                createFormatChunk({
+                    formatTag: WAVE_FORMAT_EXTENSIBLE, channels: 2, sampleRate: 96000, blockAlign: 8, bitsPerSample: 32,
+                    extensible: { validBitsPerSample: 24, channelMask: 0x3, subFormat: 1 }
+                }),
+                createChunk('data', createData(80))
+            ]);
+            const header = parse(file);
+
+            assert.equal(header?.audioFormat, 1);
+            assert.equal(header?.formatTag, WAVE_FORMAT_EXTENSIBLE);
+            assert.equal(header?.bitsPerSample, 32);
+            assert.equal(header?.validBitsPerSample, 24);
+            assert.equal(header?.channelMask, 0x3);
+            assert.equal(header?.headerSize, 12 + 48 + 8);
+        });
+
+        it('rejects WAVE_FORMAT_EXTENSIBLE with an unknown SubFormat', () => {
+            const file = createRiff([
+                createFormatChunk({
+                    formatTag: WAVE_FORMAT_EXTENSIBLE, channels: 2, sampleRate: 44100, blockAlign: 4, bitsPerSample: 16,
+                    extensible: { validBitsPerSample: 16, channelMask: 0x3, subFormat: 0x55 }
+                }),
+                createChunk('data', createData(40))
+            ]);
+
+            assert.equal(parse(file), null);
+        });
+
+        it('uses the block alignment as the container of packed samples', () => {
+            // 20-bit samples packed in 3 bytes
+            const file = createRiff([
+                createFormatChunk({ formatTag: 1, channels: 2, sampleRate: 44100, blockAlign: 6, bitsPerSample: 20 }),
+                createChunk('data', createData(60))
+            ]);
+            const header = parse(file);
+
+            assert.equal(header?.bitsPerSample, 24);
+            assert.equal(header?.validBitsPerSample, 20);
+        });
+
+        it('rejects a block alignment too small for the samples', () => {
+            const file = createRiff([
+                createFormatChunk({ formatTag: 1, channels: 2, sampleRate: 44100, blockAlign: 2, bitsPerSample: 16 }),
+                createChunk('data', createData(40))
+            ]);
+
+            assert.equal(parse(file), null);
+        });
+
+        it('takes the data size of RF64 files from the ds64 chunk', () => {
+            const ds64 = new Uint8Array(28);
+            const view = new DataView(ds64.buffer);
+            view.setUint32(8, 5_000_000_000 % 2 ** 32, true);
+            view.setUint32(12, Math.floor(5_000_000_000 / 2 ** 32), true);
+
+            const file = createRiff([
+                createChunk('ds64', ds64),
+                createFormatChunk({ formatTag: 1, channels: 2, sampleRate: 44100, blockAlign: 4, bitsPerSample: 16 }),
+                createChunk('data', createData(40), 0xFFFFFFFF)
+            ], 'RF64');
+
+            assert.equal(parse(file)?.dataSize, 5_000_000_000);
+        });
+
+        it('needs the RIFF/WAVE tags and both fmt and data chunks', () => {
+            const file = createWav();
+            const noData = createRiff([
+                createFormatChunk({ formatTag: 1, channels: 2, sampleRate: 44100, blockAlign: 4, bitsPerSample: 16 }),
+                createChunk('LIST', new Uint8Array(40))
+            ]);
+            const notWave = file.slice();
+            notWave.set(new TextEncoder().encode('AVI '), 8);
+
+            assert.equal(parse(file.subarray(0, 40)), null);
+            assert.equal(parse(noData), null);
+            assert.equal(parse(notWave), null);
+        });
+    });
+
+    describe('createHeader', () => {
+        it('writes a 44-byte header that parses back to the same format', () => {
+            const original = parse(createWav({ channels: 1, sampleRate: 22050, bitsPerSample: 16 }))!;
+            const header = WavUtils.createHeader(original, 1000);
+
+            assert.equal(header.length, 44);
+            assert.deepEqual(parse(concat(header, createData(1000))), { ...original, dataSize: 1000 });
+        });
+
+        it('keeps WAVE_FORMAT_EXTENSIBLE in a 68-byte header', () => {
+            const original = parse(createRiff([
+                createFormatChunk({
+                    formatTag: WAVE_FORMAT_EXTENSIBLE, channels: 2, sampleRate: 48000, blockAlign: 6, bitsPerSample: 24,
+                    extensible: { validBitsPerSample: 20, channelMask: 0x3, subFormat: 1 }
+                }),
+                createChunk('data', createData(60))
+            ]))!;
+            const header = WavUtils.createHeader(original, 600);
+
+            assert.equal(header.length, 68);
+            assert.deepEqual(parse(concat(header, createData(600))), { ...original, dataSize: 600 });
+        });
+    });
+
+    describe('getSampleAlignedChunkSize', () => {
+        const header = parse(createWav({ channels: 2, bitsPerSample: 24 }))!;
+
+        it('waits for the minimum amount of audio', () => {
+            assert.equal(WavUtils.getSampleAlignedChunkSize(header, 65536, 511), 0);
+        });
+
+        it('rounds down to whole frames within the limit', () => {
+            assert.equal(WavUtils.getSampleAlignedChunkSize(header, 1000, 4000), 996);
+            assert.equal(WavUtils.getSampleAlignedChunkSize(header, 65536, 1001), 996);
+        });
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * FakeAudio - AudioBuffer and AudioContextManager stand-ins for modules that only store,
+ * slice and measure buffers.
+ */
+
+import { AudioContextManager } from '../../Interop/audio/AudioContextManager.js';
+
+export class FakeAudioBuffer {
+    readonly sampleRate: number;
+    private channels: Float32Array[];
+
+    constructor(channels: Float32Array[], sampleRate: number) {
+        this.channels = channels;
+        this.sampleRate = sampleRate;
+    }
+
+    get length(): number {
+        return this.channels[0].length;
+    }
+
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    get numberOfChannels(): number {
+        return this.channels.length;
+    }
+
+    getChannelData(channel: number): Float32Array {
+        return this.channels[channel];
+    }
+
+    copyToChannel(source: Float32Array, channel: number): void {
+        this.channels[channel].set(source);
+    }
+}
+
+/**
+ * Mono buffer whose samples count up from first, so slices can be located
+ */
+export function createBuffer(frames: number, sampleRate: number = 1000, first: number = 0): AudioBuffer {
+    const data = new Float32Array(frames).map((_, i) => first + i);
+    return new FakeAudioBuffer([data], sampleRate) as unknown as AudioBuffer;
+}
+
+export function createContextManager(): AudioContextManager {
+    const manager = {
+        createAudioBuffer: (channels: Float32Array[], sampleRate: number) =>
+            new FakeAudioBuffer(channels.map(channel => channel.slice()), sampleRate),
+        sliceAudioBuffer: (buffer: AudioBuffer, startFrame: number) =>
+            new FakeAudioBuffer(Array.from({ length: buffer.numberOfChannels },
+                (_, channel) => buffer.getChannelData(channel).slice(startFrame)), buffer.sampleRate)
+    };
+    return manager as unknown as AudioContextManager;
+}
@@ -0,0 +1,70 @@
+/**
+ * MemoryCacheStorage - In-memory Cache Storage for running Service Worker code under Node.
+ *
+ * Implements the parts of CacheStorage and Cache that TrackResponseCache uses. Keys keep
+ * insertion order, and putting an existing key moves it to the end, as in browsers.
+ */
+
+interface StoredResponse {
+    body: ArrayBuffer;
+    status: number;
+    headers: [string, string][];
+}
+
+class MemoryCache {
+    private entries = new Map<string, StoredResponse>();
+
+    async put(request: RequestInfo | URL, response: Response): Promise<void> {
+        const body = await response.arrayBuffer();
+        const key = MemoryCache.key(request);
+        this.entries.delete(key);
+        this.entries.set(key, { body, status: response.status, headers: [...response.headers] });
+    }
+
+    async match(request: RequestInfo | URL): Promise<Response | undefined> {
+        const stored = this.entries.get(MemoryCache.key(request));
+        if (!stored) return undefined;
+        return new Response(stored.body.slice(0), { status: stored.status, headers: stored.headers });
+    }
+
+    async keys(): Promise<Request[]> {
+        return [...this.entries.keys()].map(url => new Request(url));
+    }
+
+    async delete(request: RequestInfo | URL): Promise<boolean> {
+        return this.entries.delete(MemoryCache.key(request));
+    }
+
+    private static key(request: RequestInfo | URL): string {
+        return request instanceof Request ? request.url : new URL(request.toString()).href;
+    }
+}
+
+export class MemoryCacheStorage {
+    private cacheMap = new Map<string, MemoryCache>();
+
+    async open(name: string): Promise<MemoryCache> {
+        let cache = this.cacheMap.get(name);
+        if (!cache) {
+            cache = new MemoryCache();
+            this.cacheMap.set(name, cache);
+        }
+        return cache;
+    }
+
+    async has(name: string): Promise<boolean> {
+        return this.cacheMap.has(name);
+    }
+
+    async delete(name: string): Promise<boolean> {
+        return this.cacheMap.delete(name);
+    }
+
+    async keys(): Promise<string[]> {
+        return [...this.cacheMap.keys()];
+    }
+
+    asCacheStorage(): CacheStorage {
+        return this as unknown as CacheStorage;
+    }
+}
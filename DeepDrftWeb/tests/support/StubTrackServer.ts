@@ -0,0 +1,59 @@
+/**
+ * StubTrackServer - Local stand-in for the content API and the site's track listing.
+ *
+ * Serves GET /api/track/{trackId} with the registered file (any query is answered with the
+ * full file, so tests can tell a network answer from a cached slice), GET /api/track/page
+ * with a JSON listing, and counts the requests it receives.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export class StubTrackServer {
+    private server: Server;
+    private tracks = new Map<string, Uint8Array>();
+    requests: string[] = [];
+
+    constructor() {
+        this.server = createServer((request, response) => this.respond(request, response));
+    }
+
+    async start(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    async stop(): Promise<void> {
+        await new Promise<void>((resolve, reject) => this.server.close(error => error ? reject(error) : resolve()));
+    }
+
+    get origin(): string {
+        const address = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    addTrack(trackId: string, file: Uint8Array): string {
+        this.tracks.set(trackId, file);
+        return `${this.origin}/api/track/${trackId}`;
+    }
+
+    private respond(request: IncomingMessage, response: ServerResponse): void {
+        const url = new URL(request.url ?? '/', this.origin);
+        this.requests.push(url.pathname + url.search);
+
+        if (url.pathname === '/api/track/page') {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({ page: url.searchParams.get('pageNumber'), items: [] }));
+            return;
+        }
+
+        const file = this.tracks.get(url.pathname.replace('/api/track/', ''));
+        if (!file) {
+            response.writeHead(404);
+            response.end();
+            return;
+        }
+
+        response.writeHead(200, { 'Content-Type': 'audio/wav', 'Content-Length': file.length });
+        response.end(file);
+    }
+}
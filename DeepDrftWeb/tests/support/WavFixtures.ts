@@ -0,0 +1,98 @@
+/**
+ * WavFixtures - Builds small RIFF/WAVE files for tests.
+ */
+
+export interface WavFixtureOptions {
+    channels?: number;
+    sampleRate?: number;
+    bitsPerSample?: number;
+    frames?: number;
+    chunksBeforeData?: Uint8Array[];    // Complete chunks (id, size, body) placed between fmt and data
+}
+
+export interface FormatChunkOptions {
+    formatTag: number;
+    channels: number;
+    sampleRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+    extensible?: { validBitsPerSample: number; channelMask: number; subFormat: number };
+}
+
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+/**
+ * RIFF chunk with a little-endian size and the pad byte odd sizes need
+ */
+export function createChunk(id: string, body: Uint8Array, declaredSize: number = body.length): Uint8Array {
+    const chunk = new Uint8Array(8 + body.length + (body.length & 1));
+    chunk.set(new TextEncoder().encode(id));
+    new DataView(chunk.buffer).setUint32(4, declaredSize, true);
+    chunk.set(body, 8);
+    return chunk;
+}
+
+/**
+ * fmt chunk: 16 bytes, or 40 with the WAVE_FORMAT_EXTENSIBLE fields
+ */
+export function createFormatChunk(options: FormatChunkOptions): Uint8Array {
+    const body = new Uint8Array(options.extensible ? 40 : 16);
+    const view = new DataView(body.buffer);
+    view.setUint16(0, options.formatTag, true);
+    view.setUint16(2, options.channels, true);
+    view.setUint32(4, options.sampleRate, true);
+    view.setUint32(8, options.sampleRate * options.blockAlign, true);
+    view.setUint16(12, options.blockAlign, true);
+    view.setUint16(14, options.bitsPerSample, true);
+
+    if (options.extensible) {
+        view.setUint16(16, 22, true);
+        view.setUint16(18, options.extensible.validBitsPerSample, true);
+        view.setUint32(20, options.extensible.channelMask, true);
+        view.setUint16(24, options.extensible.subFormat, true);
+        body.set(SUBFORMAT_GUID_TAIL, 26);
+    }
+    return createChunk('fmt ', body);
+}
+
+/**
+ * RIFF (or RF64) WAVE container around complete chunks
+ */
+export function createRiff(chunks: Uint8Array[], id: string = 'RIFF'): Uint8Array {
+    const size = chunks.reduce((sum, chunk) => sum + chunk.length, 12);
+    const file = new Uint8Array(size);
+    file.set(new TextEncoder().encode(id));
+    new DataView(file.buffer).setUint32(4, id === 'RIFF' ? size - 8 : 0xFFFFFFFF, true);
+    file.set(new TextEncoder().encode('WAVE'), 8);
+
+    let offset = 12;
+    for (const chunk of chunks) {
+        file.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return file;
+}
+
+/**
+ * Data bytes counting up from 0 (mod 256), so any slice can be located
+ */
+export function createData(length: number): Uint8Array {
+    return new Uint8Array(length).map((_, i) => i & 0xff);
+}
+
+/**
+ * PCM WAV whose data bytes count up from 0 (mod 256)
+ */
+export function createWav(options: WavFixtureOptions = {}): Uint8Array {
+    const channels = options.channels ?? 2;
+    const sampleRate = options.sampleRate ?? 44100;
+    const bitsPerSample = options.bitsPerSample ?? 16;
+    const blockAlign = channels * bitsPerSample / 8;
+    const data = createData((options.frames ?? 1000) * blockAlign);
+
+    return createRiff([
+        createFormatChunk({ formatTag: 1, channels, sampleRate, blockAlign, bitsPerSample }),
+        ...(options.chunksBeforeData ?? []),
+        createChunk('data', data)
+    ]);
+}